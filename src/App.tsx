@@ -1,20 +1,36 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { Toaster } from 'react-hot-toast';
+import toast, { Toaster } from 'react-hot-toast';
 import { useStore } from './store';
-import { BookService, SegmentService, TransactionService, CategoryService } from './lib/services';
+import { BookService, SegmentService, TransactionService, CategoryService, RecurringService, SettingsService, TrashService } from './lib/services';
+import { openDatabase, MigrationResult } from './lib/database';
+import { setHistoryActor } from './lib/history';
 import { Layout } from './components/Layout';
+import { MigrationError } from './components/MigrationError';
+import { UndoShortcuts } from './components/UndoShortcuts';
 import { Dashboard } from './pages/Dashboard';
 import { Books } from './pages/Books';
 import { BookForm } from './pages/BookForm';
 import { Transactions } from './pages/Transactions';
 import { Categories } from './pages/Categories';
+import { Tags } from './pages/Tags';
 import { Segments } from './pages/Segments';
+import { Recurring } from './pages/Recurring';
+import { Budgets } from './pages/Budgets';
+import { Goals } from './pages/Goals';
+import { Parties } from './pages/Parties';
+import { PartyLedger } from './pages/PartyLedger';
+import { Rules } from './pages/Rules';
+import { Settings } from './pages/Settings';
+import { Trash } from './pages/Trash';
 
 const bookService = new BookService();
 const segmentService = new SegmentService();
 const transactionService = new TransactionService();
 const categoryService = new CategoryService();
+const recurringService = new RecurringService();
+const settingsService = new SettingsService();
+const trashService = new TrashService();
 
 function App() {
   const {
@@ -23,10 +39,10 @@ function App() {
     setTransactions,
     setCategories,
     setCurrentBook,
-    currentBook,
     setLoading,
     setError
   } = useStore();
+  const [migrationResult, setMigrationResult] = useState<MigrationResult | null>(null);
 
   useEffect(() => {
     const loadData = async () => {
@@ -34,6 +50,26 @@ function App() {
         setLoading(true);
         setError(null);
 
+        // Upgrade the database (backing it up first) before anything reads it
+        const result = await openDatabase();
+        setMigrationResult(result);
+        if (!result.success) {
+          toast.error('Database upgrade failed');
+          return;
+        }
+
+        // Changes are recorded in the history under the name set in Settings
+        setHistoryActor(await settingsService.getActorName());
+
+        // Permanently remove trash older than the retention period
+        await trashService.purgeExpired();
+
+        // Generate recurring transactions that fell due since the last visit
+        const generated = await recurringService.processDue();
+        if (generated.length > 0) {
+          toast.success(`Added ${generated.length} recurring transaction${generated.length !== 1 ? 's' : ''}`);
+        }
+
         // Load all data
         const [books, segments, transactions, categories] = await Promise.all([
           bookService.getAll(),
@@ -47,8 +83,8 @@ function App() {
         setTransactions(transactions);
         setCategories(categories);
 
-        // Set current book if none selected
-        if (!currentBook && books.length > 0) {
+        // Set current book if none was kept from the last visit
+        if (!useStore.getState().currentBook && books.length > 0) {
           setCurrentBook(books[0]);
         }
       } catch (error) {
@@ -60,7 +96,24 @@ function App() {
     };
 
     loadData();
-  }, []);
+  }, [setBooks, setSegments, setTransactions, setCategories, setCurrentBook, setLoading, setError]);
+
+  if (!migrationResult) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!migrationResult.success) {
+    return (
+      <>
+        <MigrationError result={migrationResult} />
+        <Toaster position="top-right" />
+      </>
+    );
+  }
 
   return (
     <Router>
@@ -75,8 +128,18 @@ function App() {
             <Route path="/books/:id/edit" element={<BookForm />} />
             <Route path="/segments" element={<Segments />} />
             <Route path="/categories" element={<Categories />} />
+            <Route path="/tags" element={<Tags />} />
+            <Route path="/parties" element={<Parties />} />
+            <Route path="/parties/:id" element={<PartyLedger />} />
+            <Route path="/rules" element={<Rules />} />
+            <Route path="/recurring" element={<Recurring />} />
+            <Route path="/budgets" element={<Budgets />} />
+            <Route path="/goals" element={<Goals />} />
+            <Route path="/trash" element={<Trash />} />
+            <Route path="/settings" element={<Settings />} />
           </Routes>
         </Layout>
+        <UndoShortcuts />
         <Toaster position="top-right" />
       </div>
     </Router>
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, FileText, Paperclip, Upload, X } from 'lucide-react';
+import { Attachment } from '../types';
+import { ATTACHMENT_ACCEPT, ATTACHMENT_MAX_BYTES, formatFileSize } from '../lib/attachments';
+
+interface AttachmentGalleryProps {
+  attachments: Attachment[];
+  onAdd: (files: File[]) => void;
+  onRemove: (attachment: Attachment) => void;
+}
+
+// Opens the full file in a new tab; the URL outlives the click long
+// enough for the tab to load it
+const openAttachment = (attachment: Attachment) => {
+  const url = URL.createObjectURL(attachment.blob);
+  window.open(url, '_blank');
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+const AttachmentTile: React.FC<{ attachment: Attachment; onRemove: () => void }> = ({ attachment, onRemove }) => {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!attachment.thumbnail) return;
+    const url = URL.createObjectURL(attachment.thumbnail);
+    setThumbnailUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [attachment.thumbnail]);
+
+  return (
+    <div className="relative group">
+      <button
+        type="button"
+        onClick={() => openAttachment(attachment)}
+        className="w-full h-20 rounded border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden"
+        title={`${attachment.name} (${formatFileSize(attachment.size)})`}
+      >
+        {thumbnailUrl ? (
+          <img src={thumbnailUrl} alt={attachment.name} className="w-full h-full object-cover" />
+        ) : (
+          <div className="flex flex-col items-center px-1">
+            <FileText className="h-6 w-6 text-gray-400" />
+            <span className="text-xs text-gray-500 truncate max-w-full">{attachment.name}</span>
+          </div>
+        )}
+      </button>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute top-1 right-1 bg-white rounded-full p-0.5 shadow text-red-600 hover:text-red-900"
+        title="Remove attachment"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+};
+
+// Receipt and document picker with thumbnails: files can be chosen, taken
+// with the camera on mobile or dropped onto the gallery
+export const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ attachments, onAdd, onRemove }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) onAdd(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onAdd(files);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`rounded-lg border-2 border-dashed p-3 ${isDragging ? 'border-primary bg-blue-50' : 'border-gray-200'}`}
+    >
+      {attachments.length > 0 && (
+        <div className="grid grid-cols-4 gap-2 mb-3">
+          {attachments.map(attachment => (
+            <AttachmentTile
+              key={attachment.id}
+              attachment={attachment}
+              onRemove={() => onRemove(attachment)}
+            />
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="text-sm text-primary hover:underline"
+          >
+            <Upload className="h-4 w-4 inline mr-1" />
+            Choose files
+          </button>
+          <button
+            type="button"
+            onClick={() => cameraInputRef.current?.click()}
+            className="text-sm text-primary hover:underline"
+          >
+            <Camera className="h-4 w-4 inline mr-1" />
+            Take photo
+          </button>
+        </div>
+        <span className="text-xs text-gray-500">
+          <Paperclip className="h-3 w-3 inline mr-1" />
+          Images or PDF, up to {formatFileSize(ATTACHMENT_MAX_BYTES)}
+        </span>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+      />
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFiles}
+        className="hidden"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Category } from '../types';
+import { getCategoryTree } from '../lib/categories';
+
+interface CategoryOptionsProps {
+  categories: Category[];
+  value?: string; // Kept in the list even when hidden
+}
+
+// <option>s for a category <select>, with subcategories indented under
+// their parents. Options cannot hold markup, so the indent is made of
+// non-breaking spaces, which browsers do not collapse. Hidden categories
+// are left out unless already selected.
+export const CategoryOptions: React.FC<CategoryOptionsProps> = ({ categories, value }) => (
+  <>
+    {getCategoryTree(categories.filter(c => c.isActive || c.id === value)).map(({ category, depth }) => (
+      <option key={category.id} value={category.id}>
+        {'\u00A0'.repeat(depth * 4)}{category.name}
+      </option>
+    ))}
+  </>
+);
@@ -0,0 +1,51 @@
+import React from 'react';
+import { GoalStatus } from '../types';
+import { GOAL_MILESTONES } from '../lib/services';
+import { formatCurrency } from '../lib/utils';
+
+interface GoalProgressProps {
+  status: GoalStatus;
+}
+
+// Progress bar with a tick at each milestone; reached ones turn green
+export const GoalProgress: React.FC<GoalProgressProps> = ({ status }) => {
+  const { goal } = status;
+  const ratio = goal.targetAmount > 0 ? Math.min(Math.max(status.saved, 0) / goal.targetAmount, 1) : 0;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-700">
+          {formatCurrency(status.saved, goal.currency)} of {formatCurrency(goal.targetAmount, goal.currency)}
+        </span>
+        <span className="text-gray-500">{Math.floor(ratio * 100)}%</span>
+      </div>
+      <div className="relative w-full h-2 bg-gray-200 rounded-full">
+        <div
+          className="h-2 rounded-full bg-primary"
+          style={{ width: `${ratio * 100}%` }}
+        />
+        {GOAL_MILESTONES.filter(milestone => milestone < 1).map(milestone => (
+          <div
+            key={milestone}
+            className="absolute top-0 h-2 w-0.5 bg-white"
+            style={{ left: `${milestone * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="relative h-4 mt-1">
+        {GOAL_MILESTONES.map(milestone => (
+          <span
+            key={milestone}
+            className={`absolute text-xs transform ${milestone < 1 ? '-translate-x-1/2' : '-translate-x-full'} ${
+              status.milestones.includes(milestone) ? 'text-green-600 font-medium' : 'text-gray-400'
+            }`}
+            style={{ left: `${milestone * 100}%` }}
+          >
+            {milestone * 100}%
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { 
   Home, 
@@ -6,13 +6,24 @@ import {
   Book, 
   FolderOpen, 
   Tag, 
-  Upload, 
-  Download, 
+  Hash,
   Settings, 
+  Repeat,
+  PiggyBank,
+  Target,
+  Users,
+  Wand2,
+  Trash2,
+  Bookmark,
   Menu,
   X
 } from 'lucide-react';
 import { useStore } from '../store';
+import { SavedViewService } from '../lib/services';
+import { SavedView, SavedViewSummary } from '../types';
+import { formatCurrency } from '../lib/utils';
+
+const savedViewService = new SavedViewService();
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: Home },
@@ -20,6 +31,14 @@ const navigation = [
   { name: 'Books', href: '/books', icon: Book },
   { name: 'Segments', href: '/segments', icon: FolderOpen },
   { name: 'Categories', href: '/categories', icon: Tag },
+  { name: 'Tags', href: '/tags', icon: Hash },
+  { name: 'Parties', href: '/parties', icon: Users },
+  { name: 'Rules', href: '/rules', icon: Wand2 },
+  { name: 'Recurring', href: '/recurring', icon: Repeat },
+  { name: 'Budgets', href: '/budgets', icon: PiggyBank },
+  { name: 'Goals', href: '/goals', icon: Target },
+  { name: 'Trash', href: '/trash', icon: Trash2 },
+  { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
 interface LayoutProps {
@@ -77,6 +96,8 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               );
             })}
           </div>
+
+          <SavedViewLinks />
         </nav>
       </div>
 
@@ -156,3 +177,85 @@ const BookSelector: React.FC = () => {
     </div>
   );
 };
+
+// Saved views with their current count and net total, kept live by
+// reloading whenever data changes
+const SavedViewLinks: React.FC = () => {
+  const location = useLocation();
+  const { currentBook, dataVersion, setSidebarOpen } = useStore();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [summaries, setSummaries] = useState<Record<string, SavedViewSummary>>({});
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadViews = async () => {
+      try {
+        const viewsData = await savedViewService.getAll();
+        const summaryData = currentBook
+          ? await Promise.all(viewsData.map(view => savedViewService.getSummary(view, currentBook)))
+          : [];
+        if (!isCurrent) return;
+
+        setViews(viewsData);
+        setSummaries(Object.fromEntries(summaryData.map((summary, i) => [viewsData[i].id, summary])));
+      } catch (error) {
+        console.error('Error loading saved views:', error);
+      }
+    };
+
+    loadViews();
+    return () => {
+      isCurrent = false;
+    };
+  }, [currentBook, dataVersion]);
+
+  if (views.length === 0) return null;
+
+  const activeViewId = location.pathname === '/transactions'
+    ? new URLSearchParams(location.search).get('view')
+    : null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="px-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+        Saved Views
+      </h3>
+      <div className="mt-2 space-y-1">
+        {views.map(view => {
+          const summary = summaries[view.id];
+          const isActive = view.id === activeViewId;
+
+          return (
+            <Link
+              key={view.id}
+              to={`/transactions?view=${view.id}`}
+              className={`${
+                isActive
+                  ? 'bg-primary text-white'
+                  : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+              } group flex items-center px-2 py-2 text-sm font-medium rounded-md transition-colors`}
+              onClick={() => setSidebarOpen(false)}
+            >
+              <Bookmark
+                className={`${
+                  isActive ? 'text-white' : 'text-gray-400 group-hover:text-gray-500'
+                } mr-3 h-5 w-5 flex-shrink-0`}
+              />
+              <span className="flex-1 min-w-0">
+                <span className="block truncate">{view.name}</span>
+                {summary && (
+                  <span className={`block text-xs font-normal truncate ${isActive ? 'text-white/80' : 'text-gray-400'}`}>
+                    {summary.count} • {summary.totals.length > 0
+                      ? summary.totals.map(total => formatCurrency(total.amount, total.currency)).join(', ')
+                      : formatCurrency(0, currentBook?.currency || 'BDT')}
+                  </span>
+                )}
+              </span>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
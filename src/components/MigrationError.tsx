@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertTriangle, Download, RefreshCw } from 'lucide-react';
+import { MigrationResult } from '../lib/database';
+import { downloadStoredBackup } from '../lib/backup';
+import toast from 'react-hot-toast';
+
+interface MigrationErrorProps {
+  result: MigrationResult;
+}
+
+export const MigrationError: React.FC<MigrationErrorProps> = ({ result }) => {
+  const handleDownload = async () => {
+    if (!result.backupId) return;
+
+    try {
+      await downloadStoredBackup(result.backupId);
+    } catch (error) {
+      console.error('Error downloading backup:', error);
+      toast.error('Failed to download backup');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="bg-white rounded-lg shadow max-w-lg w-full p-6 space-y-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-red-50 rounded-full">
+            <AlertTriangle className="h-6 w-6 text-red-600" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">Database upgrade failed</h1>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          CashLite could not upgrade your data from version {result.fromVersion} to {result.toVersion}.
+          Nothing was changed: your data is still stored as it was before the upgrade.
+        </p>
+
+        {result.error && (
+          <pre className="text-xs bg-gray-100 rounded p-3 whitespace-pre-wrap break-words text-gray-700">
+            {result.error}
+          </pre>
+        )}
+
+        {result.backupId && (
+          <p className="text-sm text-gray-600">
+            A backup taken before the upgrade is kept on this device.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          {result.backupId && (
+            <button onClick={handleDownload} className="btn btn-secondary">
+              <Download className="h-4 w-4 mr-2" />
+              Download backup
+            </button>
+          )}
+          <button onClick={() => window.location.reload()} className="btn btn-primary">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Try again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { CurrencySubtotal } from '../types';
+import { formatCurrency } from '../lib/utils';
+
+interface PartyBalanceProps {
+  balances: CurrencySubtotal[];
+}
+
+// Positive balances were paid out and are owed back, negative ones were
+// received and are owed to the party (see PartyLedger)
+export const PartyBalance: React.FC<PartyBalanceProps> = ({ balances }) => {
+  const open = balances.filter(balance => balance.amount !== 0);
+  if (open.length === 0) {
+    return <span className="text-sm text-gray-500">Settled</span>;
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {open.map(balance => (
+        <div
+          key={balance.currency}
+          className={`text-sm font-medium ${balance.amount > 0 ? 'text-green-600' : 'text-red-600'}`}
+        >
+          {balance.amount > 0 ? 'Owes you' : 'You owe'} {formatCurrency(Math.abs(balance.amount), balance.currency)}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Party } from '../types';
+import { normalizeText } from '../lib/search';
+
+interface PartyPickerProps {
+  parties: Party[];
+  value: string;
+  onChange: (name: string) => void;
+  onSelect: (party: Party) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Name box that suggests existing parties as you type. A name that matches
+// none of them is shown as a new party, which is added when the form saves.
+export const PartyPicker: React.FC<PartyPickerProps> = ({ parties, value, onChange, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const query = normalizeText(value.trim());
+  const suggestions = parties
+    .filter(party => normalizeText(party.name).includes(query))
+    .sort((a, b) => Number(!normalizeText(a.name).startsWith(query)) - Number(!normalizeText(b.name).startsWith(query)))
+    .slice(0, MAX_SUGGESTIONS);
+  const isNew = !!query && !parties.some(party => normalizeText(party.name) === query);
+  const showList = isOpen && (suggestions.length > 0 || isNew);
+
+  const select = (party: Party) => {
+    onSelect(party);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showList || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(0);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="form-input"
+        placeholder="Who was it paid to or received from?"
+        autoComplete="off"
+      />
+
+      {showList && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((party, index) => (
+            <li
+              key={party.id}
+              // Chosen before the input's blur hides the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(party);
+              }}
+              className={`px-3 py-2 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-gray-100 text-gray-900' : 'text-gray-700'
+              }`}
+            >
+              {party.name}
+              {party.phone && <span className="ml-2 text-xs text-gray-400">{party.phone}</span>}
+            </li>
+          ))}
+          {isNew && (
+            <li className="px-3 py-2 text-sm text-gray-500 italic">
+              "{value.trim()}" will be added as a new party
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState, useRef } from 'react';
+import { Search, AlertCircle } from 'lucide-react';
+import { QueryError, QuerySuggestion, SuggestionContext, getSuggestions } from '../lib/queryLanguage';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: QueryError[];
+  suggestionContext: SuggestionContext;
+  placeholder?: string;
+}
+
+// Search box for the query syntax in lib/queryLanguage.ts, with suggestions
+// for the term under the caret and the parser's errors listed underneath
+export const QueryInput: React.FC<QueryInputProps> = ({ value, onChange, errors, suggestionContext, placeholder }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [suggestions, setSuggestions] = useState<QuerySuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const updateSuggestions = (query: string, caret: number | null) => {
+    setSuggestions(caret === null ? [] : getSuggestions(query, caret, suggestionContext));
+    setActiveIndex(0);
+  };
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const next = value.slice(0, suggestion.start) + suggestion.text + value.slice(suggestion.end);
+    const caret = suggestion.start + suggestion.text.length;
+    onChange(next);
+
+    // Keep typing from the end of the inserted text; a key like "cat:" goes
+    // straight on to suggesting names
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(caret, caret);
+      updateSuggestions(next, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-2.5 text-gray-400 h-4 w-4" />
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateSuggestions(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setSuggestions([])}
+        className={`pl-10 pr-4 py-2 border rounded-md w-full focus:outline-none focus:ring-2 focus:border-transparent ${
+          errors.length > 0 ? 'border-red-300 focus:ring-red-400' : 'border-gray-300 focus:ring-primary'
+        }`}
+        spellCheck={false}
+        autoComplete="off"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.text}
+              // Chosen before the input's blur hides the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(suggestion);
+              }}
+              className={`px-3 py-2 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-gray-100 text-gray-900' : 'text-gray-700'
+              }`}
+            >
+              {suggestion.label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {errors.map(error => (
+            <p key={`${error.start}-${error.message}`} className="flex items-center text-xs text-red-600">
+              <AlertCircle className="h-3 w-3 mr-1 flex-shrink-0" />
+              <span>
+                <code className="px-1 bg-red-50 rounded">{value.slice(error.start, error.end)}</code> {error.message}
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { normalizeText } from '../lib/search';
+
+interface TagInputProps {
+  tags: string[]; // Every tag in use, for the suggestions
+  value: string; // Comma-separated, as typed
+  onChange: (value: string) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Comma-separated tag box that suggests existing tags for the one being
+// typed, so a typo does not start a new tag
+export const TagInput: React.FC<TagInputProps> = ({ tags, value, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const parts = value.split(',');
+  const entered = parts.slice(0, -1).map(tag => tag.trim());
+  const query = normalizeText(parts[parts.length - 1].trim());
+  const suggestions = tags
+    .filter(tag => !entered.includes(tag) && normalizeText(tag).includes(query))
+    .sort((a, b) => Number(!normalizeText(a).startsWith(query)) - Number(!normalizeText(b).startsWith(query)))
+    .slice(0, MAX_SUGGESTIONS);
+  const showList = isOpen && suggestions.length > 0 && !(suggestions.length === 1 && normalizeText(suggestions[0]) === query);
+
+  // Replaces the tag being typed and leaves the box ready for the next one
+  const select = (tag: string) => {
+    onChange([...entered.filter(Boolean), tag].join(', ') + ', ');
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showList) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(0);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="form-input"
+        placeholder="tag1, tag2, tag3..."
+        autoComplete="off"
+      />
+
+      {showList && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag}
+              // Chosen before the input's blur hides the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(tag);
+              }}
+              className={`px-3 py-2 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-gray-100 text-gray-900' : 'text-gray-700'
+              }`}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,28 @@
-import React, { useState, useEffect } from 'react';
-import { X, Save, Calendar, DollarSign, FileText, Tag, Hash } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Save, Calendar, DollarSign, FileText, Tag, Hash, Repeat, ArrowRightLeft, Split, Plus, Trash2, Paperclip, Users, Wallet, Wand2 } from 'lucide-react';
 import { useStore } from '../store';
-import { TransactionService, CategoryService } from '../lib/services';
-import { Transaction, Category } from '../types';
+import { TransactionService, CategoryService, RecurringService, BookService, UndoService, BudgetService, AttachmentService, PartyService, PaymentModeService, CategorizationRuleService } from '../lib/services';
+import { Transaction, TransactionSplit, RecurringFrequency, BudgetWarning, Attachment, Party, PaymentMode, CategorizationRule } from '../types';
+import { describeFrequency, formatCurrency } from '../lib/utils';
+import { getInputStep, parseMoney, toDecimalString } from '../lib/money';
+import { getCategoryIds, validateSplits } from '../lib/splits';
+import { applyRules } from '../lib/categorization';
+import { toastWithUndo } from './Undo';
+import { AttachmentGallery } from './AttachmentGallery';
+import { PartyPicker } from './PartyPicker';
+import { CategoryOptions } from './CategoryOptions';
+import { TagInput } from './TagInput';
 import toast from 'react-hot-toast';
 
+type TransactionFormType = 'income' | 'expense' | 'transfer';
+
+// Split lines as typed, with the amount still a decimal string
+interface SplitLine {
+  categoryId: string;
+  amount: string;
+  notes: string;
+}
+
 interface TransactionFormProps {
   transaction?: Transaction;
   onClose: () => void;
@@ -13,36 +31,77 @@ interface TransactionFormProps {
 
 const transactionService = new TransactionService();
 const categoryService = new CategoryService();
+const recurringService = new RecurringService();
+const bookService = new BookService();
+const undoService = new UndoService();
+const budgetService = new BudgetService();
+const attachmentService = new AttachmentService();
+const partyService = new PartyService();
+const paymentModeService = new PaymentModeService();
+const ruleService = new CategorizationRuleService();
 
 export const TransactionForm: React.FC<TransactionFormProps> = ({
   transaction,
   onClose,
   onSave
 }) => {
-  const { currentBook, categories, setCategories } = useStore();
+  const { currentBook, books, categories, setCategories, setBooks } = useStore();
+  const getBookCurrency = useCallback((bookId?: string) => books.find(b => b.id === bookId)?.currency || 'BDT', [books]);
   const [formData, setFormData] = useState({
-    type: transaction?.type || 'expense' as 'income' | 'expense',
-    amount: transaction?.amount || 0,
+    type: (transaction?.transferId ? 'transfer' : transaction?.type || 'expense') as TransactionFormType,
+    amount: transaction ? toDecimalString(transaction.amount, getBookCurrency(transaction.bookId)) : '',
     description: transaction?.description || '',
     notes: transaction?.notes || '',
     categoryId: transaction?.categoryId || '',
+    paymentModeId: transaction?.paymentModeId || '',
     date: transaction?.date ? transaction.date.toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
     tags: transaction?.tags?.join(', ') || ''
   });
-  const [isLoading, setIsLoading] = useState(false);
+  const [repeat, setRepeat] = useState({
+    enabled: false,
+    frequency: 'monthly' as RecurringFrequency,
+    interval: 1,
+    endDate: ''
+  });
+  const [applyToFuture, setApplyToFuture] = useState(false);
+  // Empty unless the amount is split across categories
+  const [splitLines, setSplitLines] = useState<SplitLine[]>(
+    transaction?.splits?.map(line => ({
+      categoryId: line.categoryId || '',
+      amount: toDecimalString(line.amount, getBookCurrency(transaction.bookId)),
+      notes: line.notes || ''
+    })) || []
+  );
+  // Transfer legs are shown from the source book's point of view
+  const [transfer, setTransfer] = useState({
+    fromBookId: transaction?.transferId && transaction.type === 'income'
+      ? transaction.transferBookId || ''
+      : transaction?.bookId || currentBook?.id || '',
+    toBookId: transaction?.transferId && transaction.type === 'income'
+      ? transaction.bookId
+      : transaction?.transferBookId || '',
+    receivedAmount: transaction ? toDecimalString(transaction.amount, getBookCurrency(transaction.bookId)) : ''
+  });
+  const [parties, setParties] = useState<Party[]>([]);
+  const [paymentModes, setPaymentModes] = useState<PaymentMode[]>([]);
+  const [partyName, setPartyName] = useState('');
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [ignoreSuggestion, setIgnoreSuggestion] = useState(false);
+  // Attachment changes are only written when the form is saved
+  const [savedAttachments, setSavedAttachments] = useState<Attachment[]>([]);
+  const [newAttachments, setNewAttachments] = useState<Attachment[]>([]);
+  const [removedAttachmentIds, setRemovedAttachmentIds] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     const loadCategories = async () => {
       try {
-        setIsLoading(true);
         const categoriesData = await categoryService.getAll();
         setCategories(categoriesData);
       } catch (error) {
         console.error('Error loading categories:', error);
         toast.error('Failed to load categories');
-      } finally {
-        setIsLoading(false);
       }
     };
 
@@ -51,10 +110,153 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
     }
   }, [categories.length, setCategories]);
 
+  useEffect(() => {
+    const loadTransferLegs = async () => {
+      if (!transaction?.transferId) return;
+
+      const legs = await transactionService.getTransferLegs(transaction.transferId);
+      const outgoing = legs.find(leg => leg.type === 'expense');
+      const incoming = legs.find(leg => leg.type === 'income');
+      if (outgoing) {
+        setFormData(prev => ({ ...prev, amount: toDecimalString(outgoing.amount, getBookCurrency(outgoing.bookId)) }));
+      }
+      if (incoming) {
+        setTransfer(prev => ({ ...prev, receivedAmount: toDecimalString(incoming.amount, getBookCurrency(incoming.bookId)) }));
+      }
+    };
+
+    loadTransferLegs();
+  }, [transaction, getBookCurrency]);
+
+  useEffect(() => {
+    const loadParties = async () => {
+      try {
+        const partiesData = await partyService.getAll();
+        setParties(partiesData);
+        if (transaction?.partyId) {
+          setPartyName(partiesData.find(p => p.id === transaction.partyId)?.name || '');
+        }
+      } catch (error) {
+        console.error('Error loading parties:', error);
+      }
+    };
+
+    loadParties();
+  }, [transaction]);
+
+  useEffect(() => {
+    const loadPaymentModes = async () => {
+      try {
+        setPaymentModes(await paymentModeService.getAll());
+      } catch (error) {
+        console.error('Error loading payment modes:', error);
+      }
+    };
+
+    loadPaymentModes();
+  }, []);
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        setRules(await ruleService.getAll());
+      } catch (error) {
+        console.error('Error loading rules:', error);
+      }
+    };
+
+    loadRules();
+  }, []);
+
+  useEffect(() => {
+    const loadTags = async () => {
+      try {
+        setKnownTags(await transactionService.getTags());
+      } catch (error) {
+        console.error('Error loading tags:', error);
+      }
+    };
+
+    loadTags();
+  }, []);
+
+  useEffect(() => {
+    const loadAttachments = async () => {
+      if (!transaction?.attachmentCount) return;
+
+      try {
+        setSavedAttachments(await attachmentService.getForTransaction(transaction.id));
+      } catch (error) {
+        console.error('Error loading attachments:', error);
+        toast.error('Failed to load attachments');
+      }
+    };
+
+    loadAttachments();
+  }, [transaction]);
+
+  const fromBook = books.find(b => b.id === transfer.fromBookId);
+  const toBook = books.find(b => b.id === transfer.toBookId);
+  const isCrossCurrency = !!fromBook && !!toBook && fromBook.currency !== toBook.currency;
+  // Searches with book: list rows from other books; those stay in their own
+  // book, in its currency, when edited
+  const bookId = transaction?.bookId ?? currentBook?.id;
+  const amountCurrency = (formData.type === 'transfer' ? fromBook?.currency : getBookCurrency(bookId)) || 'BDT';
+  const isSplit = formData.type !== 'transfer' && splitLines.length > 0;
+
+  const saveTransfer = async (amount: number) => {
+    if (!transfer.toBookId || transfer.toBookId === transfer.fromBookId) {
+      toast.error('Please choose a different book to transfer to');
+      return;
+    }
+
+    const receivedAmount = isCrossCurrency ? parseMoney(transfer.receivedAmount, toBook.currency) : undefined;
+    if (isCrossCurrency && (receivedAmount === undefined || receivedAmount <= 0)) {
+      toast.error('Received amount must be greater than 0');
+      return;
+    }
+
+    const transferData = {
+      amount,
+      receivedAmount,
+      description: formData.description.trim(),
+      notes: formData.notes.trim() || undefined,
+      date: new Date(formData.date),
+      tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+    };
+
+    let savedTransaction: Transaction;
+
+    if (transaction?.transferId) {
+      await transactionService.updateTransfer(transaction.transferId, transferData);
+      savedTransaction = {
+        ...transaction,
+        ...transferData,
+        amount: transaction.type === 'expense'
+          ? transferData.amount
+          : transferData.receivedAmount ?? transferData.amount,
+        updatedAt: new Date()
+      };
+      toastWithUndo('Transfer updated successfully');
+    } else {
+      const [outgoing] = await transactionService.createTransfer({
+        ...transferData,
+        fromBookId: transfer.fromBookId,
+        toBookId: transfer.toBookId
+      });
+      savedTransaction = outgoing;
+      toastWithUndo(`Transferred to ${toBook?.name}`);
+    }
+
+    setBooks(await bookService.getAll());
+    onSave(savedTransaction);
+    onClose();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!currentBook) {
+    if (!bookId) {
       toast.error('Please select a book first');
       return;
     }
@@ -64,36 +266,136 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
       return;
     }
 
-    if (formData.amount <= 0) {
+    const amount = parseMoney(formData.amount, amountCurrency);
+    if (amount === undefined || amount <= 0) {
       toast.error('Amount must be greater than 0');
       return;
     }
 
     try {
       setIsSubmitting(true);
+
+      if (formData.type === 'transfer') {
+        await saveTransfer(amount);
+        return;
+      }
+
+      let splits: TransactionSplit[] | undefined;
+      if (isSplit) {
+        splits = [];
+        for (const line of splitLines) {
+          const lineAmount = parseMoney(line.amount, amountCurrency);
+          if (lineAmount === undefined) {
+            toast.error(`Invalid split amount: ${line.amount}`);
+            return;
+          }
+          splits.push({ categoryId: line.categoryId || undefined, amount: lineAmount, notes: line.notes.trim() || undefined });
+        }
+
+        const error = validateSplits(splits, amount);
+        if (error) {
+          toast.error(error);
+          return;
+        }
+      }
       
       const transactionData = {
-        bookId: currentBook.id,
+        bookId,
         type: formData.type,
-        amount: formData.amount,
+        amount,
         description: formData.description.trim(),
         notes: formData.notes.trim() || undefined,
-        categoryId: formData.categoryId || undefined,
+        categoryId: isSplit ? undefined : formData.categoryId || undefined,
+        splits,
+        paymentModeId: formData.paymentModeId || undefined,
         date: new Date(formData.date),
         isRecurring: false,
         tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
         isReversed: false
       };
 
+      if (!transaction && repeat.enabled) {
+        // The rule generates this and every later occurrence itself, and
+        // undoing removes the rule and what it generated together
+        const [rule, generated] = await undoService.run('Add recurring transaction', async () => {
+          const newRule = await recurringService.create({
+            partyId: await resolvePartyId(),
+            bookId: transactionData.bookId,
+            type: transactionData.type,
+            amount: transactionData.amount,
+            description: transactionData.description,
+            notes: transactionData.notes,
+            categoryId: transactionData.categoryId,
+            paymentModeId: transactionData.paymentModeId,
+            tags: transactionData.tags,
+            frequency: repeat.frequency,
+            interval: Math.max(1, repeat.interval),
+            startDate: transactionData.date,
+            endDate: repeat.endDate ? new Date(repeat.endDate) : undefined,
+            isPaused: false
+          });
+          return [newRule, await recurringService.processDue(new Date(), newRule.id)] as const;
+        });
+        setBooks(await bookService.getAll());
+        generated.forEach(onSave);
+        toastWithUndo(`Recurring transaction created (${describeFrequency(rule.frequency, rule.interval).toLowerCase()})`);
+        onClose();
+        return;
+      }
+
+      // Budgets are read before and after saving, to warn only when this
+      // expense is the one that takes them past a warning level
+      const budgetCategoryIds = getCategoryIds(transactionData);
+      const budgetKey = transactionData.type === 'expense' && budgetCategoryIds.length > 0
+        ? [transactionData.bookId, budgetCategoryIds, transactionData.date] as const
+        : undefined;
+      const budgetsBefore = budgetKey ? await budgetService.getStatusesFor(...budgetKey) : [];
+
       let savedTransaction: Transaction;
       
+      const attachmentCount = savedAttachments.length - removedAttachmentIds.length + newAttachments.length;
+
       if (transaction) {
-        await transactionService.update(transaction.id, transactionData);
-        savedTransaction = { ...transaction, ...transactionData, updatedAt: new Date() };
-        toast.success('Transaction updated successfully');
+        // Recurrence and reversal links are kept as they are when editing
+        const { isRecurring, isReversed, ...updates } = transactionData;
+        let partyId: string | undefined;
+        await undoService.run('Edit transaction', async () => {
+          partyId = await resolvePartyId();
+          await transactionService.update(transaction.id, { ...updates, partyId });
+          for (const id of removedAttachmentIds) {
+            await attachmentService.delete(id);
+          }
+          await attachmentService.add(transaction.id, newAttachments);
+
+          if (applyToFuture && transaction.recurringId) {
+            await recurringService.updateFuture(transaction.recurringId, {
+              type: updates.type,
+              amount: updates.amount,
+              description: updates.description,
+              notes: updates.notes,
+              // A split only applies to this occurrence
+              ...(updates.splits ? {} : { categoryId: updates.categoryId }),
+              partyId,
+              paymentModeId: updates.paymentModeId,
+              tags: updates.tags
+            });
+          }
+        });
+        savedTransaction = { ...transaction, ...updates, partyId, attachmentCount: attachmentCount || undefined, updatedAt: new Date() };
+        toastWithUndo('Transaction updated successfully');
       } else {
-        savedTransaction = await transactionService.create(transactionData);
-        toast.success('Transaction created successfully');
+        const created = await undoService.run('Add transaction', async () => {
+          const newTransaction = await transactionService.create({ ...transactionData, partyId: await resolvePartyId() });
+          await attachmentService.add(newTransaction.id, newAttachments);
+          return newTransaction;
+        });
+        savedTransaction = { ...created, attachmentCount: attachmentCount || undefined };
+        toastWithUndo('Transaction created successfully');
+      }
+
+      if (budgetKey) {
+        const budgetsAfter = await budgetService.getStatusesFor(...budgetKey);
+        budgetService.getWarnings(budgetsBefore, budgetsAfter).forEach(showBudgetWarning);
       }
 
       onSave(savedTransaction);
@@ -106,10 +408,115 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
     }
   };
 
+  const showBudgetWarning = ({ status, level }: BudgetWarning) => {
+    const name = categories.find(c => c.id === status.budget.categoryId)?.name || 'Category';
+    const spent = `${formatCurrency(status.spent, status.budget.currency)} of ${formatCurrency(status.limit, status.budget.currency)}`;
+
+    if (level >= 1) {
+      toast.error(`${name} budget exceeded: ${spent} spent`, { duration: 6000 });
+    } else {
+      toast(`${name} budget is ${Math.round(level * 100)}% used: ${spent} spent`, { icon: '⚠️', duration: 6000 });
+    }
+  };
+
   const filteredCategories = categories.filter(cat => 
     cat.type === formData.type || cat.type === 'both'
   );
 
+  // Categorization rules only suggest; nothing changes until Apply is
+  // clicked. Only the parts that differ from the form are offered.
+  const suggestion = formData.type === 'transfer' || ignoreSuggestion ? undefined : applyRules(rules, {
+    type: formData.type,
+    description: formData.description,
+    notes: formData.notes,
+    party: partyName.trim() || undefined,
+    amount: parseMoney(formData.amount, amountCurrency) ?? 0,
+    currency: amountCurrency
+  });
+  const formTags = formData.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  const suggestedCategory = !isSplit && suggestion?.categoryId !== formData.categoryId
+    ? filteredCategories.find(c => c.id === suggestion?.categoryId)
+    : undefined;
+  const suggestedMode = suggestion?.paymentModeId !== formData.paymentModeId
+    ? paymentModes.find(m => m.id === suggestion?.paymentModeId)
+    : undefined;
+  const suggestedTags = suggestion?.tags.filter(tag => !formTags.includes(tag)) ?? [];
+  const suggestedRule = rules.find(rule => rule.id === suggestion?.ruleIds[0]);
+
+  const applySuggestion = () => {
+    setFormData({
+      ...formData,
+      categoryId: suggestedCategory?.id ?? formData.categoryId,
+      paymentModeId: suggestedMode?.id ?? formData.paymentModeId,
+      tags: [...formTags, ...suggestedTags].join(', ')
+    });
+  };
+
+  // A name that matches no party adds one, in the same undo step as the save
+  const resolvePartyId = async (): Promise<string | undefined> => {
+    const name = partyName.trim();
+    return name ? (await partyService.getOrCreate(name)).id : undefined;
+  };
+
+  // The party's usual category is filled in unless one was already chosen
+  const selectParty = (party: Party) => {
+    setPartyName(party.name);
+    if (!formData.categoryId && !isSplit && party.defaultCategoryId && filteredCategories.some(c => c.id === party.defaultCategoryId)) {
+      setFormData({ ...formData, categoryId: party.defaultCategoryId });
+    }
+  };
+
+  // Files are checked and thumbnailed as they are picked, so a file that is
+  // too large is reported right away
+  const addAttachments = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const attachment = await attachmentService.prepare(file);
+        setNewAttachments(prev => [...prev, attachment]);
+      } catch (error) {
+        console.error('Error reading attachment:', error);
+        toast.error(error instanceof Error ? error.message : `Failed to attach ${file.name}`);
+      }
+    }
+  };
+
+  const removeAttachment = (attachment: Attachment) => {
+    if (newAttachments.some(a => a.id === attachment.id)) {
+      setNewAttachments(newAttachments.filter(a => a.id !== attachment.id));
+    } else {
+      setRemovedAttachmentIds([...removedAttachmentIds, attachment.id]);
+    }
+  };
+
+  const splitTotal = splitLines.reduce((total, line) => total + (parseMoney(line.amount, amountCurrency) ?? 0), 0);
+  const splitRemaining = (parseMoney(formData.amount, amountCurrency) ?? 0) - splitTotal;
+
+  // Starts from the current category holding the whole amount
+  const startSplit = () => {
+    setSplitLines([
+      { categoryId: formData.categoryId, amount: formData.amount, notes: '' },
+      { categoryId: '', amount: '', notes: '' }
+    ]);
+    setRepeat({ ...repeat, enabled: false });
+  };
+
+  const updateSplitLine = (index: number, updates: Partial<SplitLine>) => {
+    setSplitLines(splitLines.map((line, i) => i === index ? { ...line, ...updates } : line));
+  };
+
+  const setType = (type: TransactionFormType) => {
+    setFormData({ ...formData, type });
+    if (type === 'transfer') {
+      setRepeat({ ...repeat, enabled: false });
+    }
+  };
+
+  // Transfers cannot become plain entries (or the other way round) once saved
+  const canChangeType = (type: TransactionFormType) => {
+    if (!transaction) return true;
+    return transaction.transferId ? type === 'transfer' : type !== 'transfer';
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
@@ -136,7 +543,8 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
                   name="type"
                   value="income"
                   checked={formData.type === 'income'}
-                  onChange={(e) => setFormData({ ...formData, type: e.target.value as 'income' | 'expense' })}
+                  disabled={!canChangeType('income')}
+                  onChange={() => setType('income')}
                   className="mr-2"
                 />
                 <span className="text-green-600">Income</span>
@@ -147,14 +555,59 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
                   name="type"
                   value="expense"
                   checked={formData.type === 'expense'}
-                  onChange={(e) => setFormData({ ...formData, type: e.target.value as 'income' | 'expense' })}
+                  disabled={!canChangeType('expense')}
+                  onChange={() => setType('expense')}
                   className="mr-2"
                 />
                 <span className="text-red-600">Expense</span>
               </label>
+              {books.length > 1 && (
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    name="type"
+                    value="transfer"
+                    checked={formData.type === 'transfer'}
+                    disabled={!canChangeType('transfer')}
+                    onChange={() => setType('transfer')}
+                    className="mr-2"
+                  />
+                  <span className="text-blue-600">Transfer</span>
+                </label>
+              )}
             </div>
           </div>
 
+          {/* Transfer Books */}
+          {formData.type === 'transfer' && (
+            <div>
+              <label className="form-label">
+                <ArrowRightLeft className="h-4 w-4 inline mr-1" />
+                Transfer
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="block text-xs text-gray-500 mb-1">From</span>
+                  <div className="form-input bg-gray-50">{fromBook?.name}</div>
+                </div>
+                <div>
+                  <span className="block text-xs text-gray-500 mb-1">To</span>
+                  <select
+                    value={transfer.toBookId}
+                    onChange={(e) => setTransfer({ ...transfer, toBookId: e.target.value })}
+                    disabled={!!transaction}
+                    className="form-input"
+                  >
+                    <option value="">Select book</option>
+                    {books.filter(book => book.id !== transfer.fromBookId).map(book => (
+                      <option key={book.id} value={book.id}>{book.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Amount */}
           <div>
             <label className="form-label">
@@ -163,16 +616,35 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
             </label>
             <input
               type="number"
-              step="0.01"
+              step={getInputStep(amountCurrency)}
               min="0"
               value={formData.amount}
-              onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
               className="form-input"
-              placeholder="0.00"
+              placeholder={toDecimalString(0, amountCurrency)}
               required
             />
           </div>
 
+          {formData.type === 'transfer' && isCrossCurrency && (
+            <div>
+              <label className="form-label">
+                <DollarSign className="h-4 w-4 inline mr-1" />
+                Amount Received ({toBook?.currency})
+              </label>
+              <input
+                type="number"
+                step={getInputStep(toBook!.currency)}
+                min="0"
+                value={transfer.receivedAmount}
+                onChange={(e) => setTransfer({ ...transfer, receivedAmount: e.target.value })}
+                className="form-input"
+                placeholder={toDecimalString(0, toBook!.currency)}
+                required
+              />
+            </div>
+          )}
+
           {/* Description */}
           <div>
             <label className="form-label">
@@ -187,27 +659,170 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
               placeholder="Enter description..."
               required
             />
+            {(suggestedCategory || suggestedMode || suggestedTags.length > 0) && (
+              <div className="mt-2 flex items-center justify-between rounded-md bg-blue-50 px-3 py-2 text-sm text-blue-800">
+                <span>
+                  <Wand2 className="h-4 w-4 inline mr-1" />
+                  {suggestedRule?.name}:{' '}
+                  {[
+                    suggestedCategory && suggestedCategory.name,
+                    suggestedMode && suggestedMode.name,
+                    suggestedTags.length > 0 && suggestedTags.map(tag => `#${tag}`).join(' ')
+                  ].filter(Boolean).join(' · ')}
+                </span>
+                <span className="flex space-x-3 ml-2">
+                  <button type="button" onClick={applySuggestion} className="font-medium hover:underline">
+                    Apply
+                  </button>
+                  <button type="button" onClick={() => setIgnoreSuggestion(true)} className="text-blue-600 hover:underline">
+                    Ignore
+                  </button>
+                </span>
+              </div>
+            )}
           </div>
 
+          {/* Party */}
+          {formData.type !== 'transfer' && (
+            <div>
+              <label className="form-label">
+                <Users className="h-4 w-4 inline mr-1" />
+                Party
+              </label>
+              <PartyPicker
+                parties={parties}
+                value={partyName}
+                onChange={setPartyName}
+                onSelect={selectParty}
+              />
+            </div>
+          )}
+
+          {/* Payment Mode */}
+          {formData.type !== 'transfer' && (
+            <div>
+              <label className="form-label">
+                <Wallet className="h-4 w-4 inline mr-1" />
+                Payment Mode
+              </label>
+              <select
+                value={formData.paymentModeId}
+                onChange={(e) => setFormData({ ...formData, paymentModeId: e.target.value })}
+                className="form-input"
+              >
+                <option value="">Select payment mode</option>
+                {paymentModes.map(mode => (
+                  <option key={mode.id} value={mode.id}>
+                    {mode.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Category */}
-          <div>
-            <label className="form-label">
-              <Tag className="h-4 w-4 inline mr-1" />
-              Category
-            </label>
-            <select
-              value={formData.categoryId}
-              onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
-              className="form-input"
-            >
-              <option value="">Select category</option>
-              {filteredCategories.map(category => (
-                <option key={category.id} value={category.id}>
-                  {category.name}
-                </option>
-              ))}
-            </select>
-          </div>
+          {formData.type !== 'transfer' && !isSplit && (
+            <div>
+              <div className="flex items-center justify-between">
+                <label className="form-label">
+                  <Tag className="h-4 w-4 inline mr-1" />
+                  Category
+                </label>
+                <button
+                  type="button"
+                  onClick={startSplit}
+                  className="text-sm text-primary hover:underline mb-2"
+                >
+                  <Split className="h-4 w-4 inline mr-1" />
+                  Split across categories
+                </button>
+              </div>
+              <select
+                value={formData.categoryId}
+                onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                className="form-input"
+              >
+                <option value="">Select category</option>
+                <CategoryOptions categories={filteredCategories} value={formData.categoryId} />
+              </select>
+            </div>
+          )}
+
+          {/* Split Lines */}
+          {isSplit && (
+            <div>
+              <div className="flex items-center justify-between">
+                <label className="form-label">
+                  <Split className="h-4 w-4 inline mr-1" />
+                  Split
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setSplitLines([])}
+                  className="text-sm text-gray-500 hover:text-gray-700 mb-2"
+                >
+                  Don't split
+                </button>
+              </div>
+              <div className="space-y-3">
+                {splitLines.map((line, index) => (
+                  <div key={index} className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={line.categoryId}
+                        onChange={(e) => updateSplitLine(index, { categoryId: e.target.value })}
+                        className="form-input flex-1"
+                      >
+                        <option value="">Select category</option>
+                        <CategoryOptions categories={filteredCategories} value={line.categoryId} />
+                      </select>
+                      <input
+                        type="number"
+                        step={getInputStep(amountCurrency)}
+                        min="0"
+                        value={line.amount}
+                        onChange={(e) => updateSplitLine(index, { amount: e.target.value })}
+                        className="form-input w-28"
+                        placeholder={toDecimalString(0, amountCurrency)}
+                        required
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setSplitLines(splitLines.filter((_, i) => i !== index))}
+                        disabled={splitLines.length <= 2}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-30"
+                        title="Remove line"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <input
+                      type="text"
+                      value={line.notes}
+                      onChange={(e) => updateSplitLine(index, { notes: e.target.value })}
+                      className="form-input text-sm"
+                      placeholder="Line notes (optional)"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <button
+                  type="button"
+                  onClick={() => setSplitLines([...splitLines, { categoryId: '', amount: '', notes: '' }])}
+                  className="text-sm text-primary hover:underline"
+                >
+                  <Plus className="h-4 w-4 inline mr-1" />
+                  Add line
+                </button>
+                <span className={`text-sm ${splitRemaining === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {splitRemaining === 0
+                    ? 'Lines add up to the amount'
+                    : `${formatCurrency(Math.abs(splitRemaining), amountCurrency)} ${splitRemaining > 0 ? 'left to assign' : 'over the amount'}`}
+                </span>
+              </div>
+            </div>
+          )}
 
           {/* Date */}
           <div>
@@ -230,16 +845,92 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
               <Hash className="h-4 w-4 inline mr-1" />
               Tags
             </label>
-            <input
-              type="text"
+            <TagInput
+              tags={knownTags}
               value={formData.tags}
-              onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
-              className="form-input"
-              placeholder="tag1, tag2, tag3..."
+              onChange={(tags) => setFormData({ ...formData, tags })}
             />
             <p className="text-sm text-gray-500 mt-1">Separate tags with commas</p>
           </div>
 
+          {/* Recurrence */}
+          {/* Recurring rules have a single category and no attachments, so
+              transactions using either cannot repeat */}
+          {!transaction && formData.type !== 'transfer' && !isSplit && newAttachments.length === 0 && (
+            <div>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={repeat.enabled}
+                  onChange={(e) => setRepeat({ ...repeat, enabled: e.target.checked })}
+                  className="mr-2"
+                />
+                <Repeat className="h-4 w-4 inline mr-1" />
+                <span className="text-sm font-medium text-gray-700">Repeat this transaction</span>
+              </label>
+              {repeat.enabled && (
+                <div className="grid grid-cols-3 gap-2 mt-3">
+                  <select
+                    value={repeat.frequency}
+                    onChange={(e) => setRepeat({ ...repeat, frequency: e.target.value as RecurringFrequency })}
+                    className="form-input"
+                  >
+                    <option value="daily">Daily</option>
+                    <option value="weekly">Weekly</option>
+                    <option value="monthly">Monthly</option>
+                    <option value="yearly">Yearly</option>
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    value={repeat.interval}
+                    onChange={(e) => setRepeat({ ...repeat, interval: parseInt(e.target.value) || 1 })}
+                    className="form-input"
+                    title="Repeat every"
+                  />
+                  <input
+                    type="date"
+                    value={repeat.endDate}
+                    onChange={(e) => setRepeat({ ...repeat, endDate: e.target.value })}
+                    className="form-input"
+                    title="End date (optional)"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {transaction?.recurringId && (
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={applyToFuture}
+                onChange={(e) => setApplyToFuture(e.target.checked)}
+                className="mr-2"
+              />
+              <Repeat className="h-4 w-4 inline mr-1" />
+              <span className="text-sm font-medium text-gray-700">Also apply to future occurrences</span>
+            </label>
+          )}
+
+          {/* Attachments */}
+          {formData.type !== 'transfer' && !repeat.enabled && (
+            <div>
+              <label className="form-label">
+                <Paperclip className="h-4 w-4 inline mr-1" />
+                Attachments
+              </label>
+              <AttachmentGallery
+                attachments={[
+                  ...savedAttachments.filter(a => !removedAttachmentIds.includes(a.id)),
+                  ...newAttachments
+                ]}
+                onAdd={addAttachments}
+                onRemove={removeAttachment}
+              />
+            </div>
+          )}
+
           {/* Notes */}
           <div>
             <label className="form-label">Notes</label>
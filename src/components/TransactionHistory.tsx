@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { X, History } from 'lucide-react';
+import { useStore } from '../store';
+import { HistoryService, TransactionService } from '../lib/services';
+import { HistoryEntry, Transaction, TransactionSplit } from '../types';
+import { formatCurrency, formatDate, formatDateTime } from '../lib/utils';
+import { toastWithUndo } from './Undo';
+import toast from 'react-hot-toast';
+
+const historyService = new HistoryService();
+const transactionService = new TransactionService();
+
+interface TransactionHistoryProps {
+  transaction: Transaction;
+  onClose: () => void;
+  onReverted: () => void;
+}
+
+const fieldLabels: Partial<Record<keyof Transaction, string>> = {
+  bookId: 'Book',
+  type: 'Type',
+  amount: 'Amount',
+  description: 'Description',
+  notes: 'Notes',
+  categoryId: 'Category',
+  splits: 'Split',
+  date: 'Date',
+  tags: 'Tags'
+};
+
+export const TransactionHistory: React.FC<TransactionHistoryProps> = ({ transaction, onClose, onReverted }) => {
+  const { books, categories } = useStore();
+  const [entries, setEntries] = useState<HistoryEntry<Transaction>[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReverting, setIsReverting] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        setEntries(await historyService.getForTransaction(transaction.id));
+      } catch (error) {
+        console.error('Error loading history:', error);
+        toast.error('Failed to load history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [transaction.id]);
+
+  const formatValue = (field: keyof Transaction, value: unknown, record?: Partial<Transaction>) => {
+    if (value === undefined || value === null || value === '') return '—';
+    const currency = books.find(b => b.id === record?.bookId)?.currency;
+
+    switch (field) {
+      case 'bookId':
+        return books.find(b => b.id === value)?.name || 'Deleted book';
+      case 'categoryId':
+        return categories.find(c => c.id === value)?.name || 'Deleted category';
+      case 'amount':
+        return typeof value === 'number' ? formatCurrency(value, currency) : String(value);
+      case 'date':
+        return value instanceof Date ? formatDate(value) : String(value);
+      case 'tags':
+        return Array.isArray(value) && value.length > 0 ? value.join(', ') : '—';
+      case 'splits':
+        return Array.isArray(value) ? (value as TransactionSplit[]).map(line =>
+          `${categories.find(c => c.id === line.categoryId)?.name || 'Uncategorized'} ${formatCurrency(line.amount, currency)}`
+        ).join(', ') : '—';
+      default:
+        return String(value);
+    }
+  };
+
+  const describeEntry = (entry: HistoryEntry<Transaction>) => {
+    if (entry.action === 'create') return 'Created';
+    if (entry.action === 'delete') return 'Deleted permanently';
+    if (entry.after?.deletedAt && !entry.before?.deletedAt) return 'Moved to trash';
+    if (!entry.after?.deletedAt && entry.before?.deletedAt) return 'Restored from trash';
+    return 'Edited';
+  };
+
+  const getChangedFields = (entry: HistoryEntry<Transaction>) => {
+    const fields = Object.keys(fieldLabels) as (keyof Transaction)[];
+    if (entry.action !== 'update') {
+      return fields.filter(field => entry.after?.[field] !== undefined);
+    }
+    return fields.filter(field =>
+      JSON.stringify(entry.before?.[field]) !== JSON.stringify(entry.after?.[field])
+    );
+  };
+
+  // The newest entry is the current state, and trashed states are restored
+  // from the Trash page instead
+  const canRevert = (entry: HistoryEntry<Transaction>, index: number) => {
+    return index > 0 && !!entry.after && !entry.after.deletedAt;
+  };
+
+  const handleRevert = async (entry: HistoryEntry<Transaction>) => {
+    if (!window.confirm(`Revert this transaction to how it was on ${formatDateTime(entry.createdAt)}?`)) {
+      return;
+    }
+
+    try {
+      setIsReverting(true);
+      await transactionService.revertToVersion(entry.id);
+      toastWithUndo('Transaction reverted');
+      onReverted();
+      onClose();
+    } catch (error) {
+      console.error('Error reverting transaction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revert transaction');
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-xl font-semibold text-gray-900">History</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <p className="text-sm text-gray-500 mb-6">"{transaction.description}"</p>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8">
+              <History className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+              <p className="text-gray-500">No changes recorded yet</p>
+            </div>
+          ) : (
+            <ol className="space-y-4">
+              {entries.map((entry, index) => (
+                <li key={entry.id} className="border-l-2 border-gray-200 pl-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-sm font-medium text-gray-900">{describeEntry(entry)}</span>
+                      <span className="text-xs text-gray-500 ml-2">
+                        {entry.actor || 'Unknown'} • {formatDateTime(entry.createdAt)}
+                      </span>
+                    </div>
+                    {canRevert(entry, index) && (
+                      <button
+                        onClick={() => handleRevert(entry)}
+                        disabled={isReverting}
+                        className="text-xs text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                      >
+                        Revert to this version
+                      </button>
+                    )}
+                  </div>
+                  <dl className="mt-1 space-y-0.5">
+                    {getChangedFields(entry).map(field => (
+                      <div key={field} className="text-xs text-gray-600">
+                        <dt className="inline font-medium">{fieldLabels[field]}: </dt>
+                        <dd className="inline">
+                          {entry.action === 'update' && (
+                            <>
+                              <span className="line-through text-gray-400">
+                                {formatValue(field, entry.before?.[field], entry.before)}
+                              </span>
+                              {' → '}
+                            </>
+                          )}
+                          {formatValue(field, entry.after?.[field], entry.after)}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
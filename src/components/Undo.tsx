@@ -0,0 +1,96 @@
+import toast from 'react-hot-toast';
+import { useStore } from '../store';
+import { BookService, SegmentService, TransactionService, CategoryService, UndoService } from '../lib/services';
+
+const bookService = new BookService();
+const segmentService = new SegmentService();
+const transactionService = new TransactionService();
+const categoryService = new CategoryService();
+const undoService = new UndoService();
+
+// Reloads everything the store holds after a change that may have touched
+// any of it, and tells pages with their own copies to reload too.
+export const refreshData = async (): Promise<void> => {
+  const { currentBook, setBooks, setCurrentBook, setSegments, setTransactions, setCategories, bumpDataVersion } = useStore.getState();
+
+  const [books, segments, transactions, categories] = await Promise.all([
+    bookService.getAll(),
+    segmentService.getAll(),
+    transactionService.getAll(),
+    categoryService.getAll()
+  ]);
+
+  setBooks(books);
+  setSegments(segments);
+  setTransactions(transactions);
+  setCategories(categories);
+  setCurrentBook(books.find(b => b.id === currentBook?.id) || books[0] || null);
+  bumpDataVersion();
+};
+
+// Open toasts with an Undo button, by the step they undo
+const undoToasts = new Map<string, string>();
+
+// A toast can only undo its step while nothing has been done since
+const dismissStaleUndoToasts = () => {
+  for (const [operationId, toastId] of undoToasts) {
+    if (!undoService.isNextUndo(operationId)) {
+      toast.dismiss(toastId);
+      undoToasts.delete(operationId);
+    }
+  }
+};
+
+const runUndo = async (direction: 'undo' | 'redo', operationId?: string) => {
+  try {
+    const label = direction === 'undo' ? await undoService.undo(operationId) : await undoService.redo();
+    dismissStaleUndoToasts();
+    if (!label) {
+      if (operationId) {
+        toast('This change can no longer be undone');
+      } else {
+        toast(direction === 'undo' ? 'Nothing to undo' : 'Nothing to redo');
+      }
+      return;
+    }
+
+    await refreshData();
+    toast.success(direction === 'undo' ? `Undone: ${label}` : `Redone: ${label}`);
+  } catch (error) {
+    console.error(`Error during ${direction}:`, error);
+    await refreshData();
+    toast.error(error instanceof Error ? error.message : `Failed to ${direction}`);
+  }
+};
+
+export const undoLastChange = () => runUndo('undo');
+
+export const redoLastChange = () => runUndo('redo');
+
+// Success toast for a change the user can take back straight away. The
+// button undoes that change only, which by default is the step the last
+// service call made; a call that changed nothing gets a plain toast.
+export const toastWithUndo = (message: string, operationId = undoService.getLastOperationId()) => {
+  dismissStaleUndoToasts();
+  if (!operationId) {
+    toast.success(message);
+    return;
+  }
+
+  const toastId = toast.success(t => (
+    <span className="flex items-center">
+      {message}
+      <button
+        onClick={() => {
+          toast.dismiss(t.id);
+          undoToasts.delete(operationId);
+          runUndo('undo', operationId);
+        }}
+        className="ml-3 text-sm font-medium text-primary hover:underline"
+      >
+        Undo
+      </button>
+    </span>
+  ));
+  undoToasts.set(operationId, toastId);
+};
@@ -0,0 +1,35 @@
+import React, { useEffect } from 'react';
+import { redoLastChange, undoLastChange } from './Undo';
+
+const isEditingText = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+};
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), left alone while typing so text
+// fields keep their own undo
+export const UndoShortcuts: React.FC = () => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditingText(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redoLastChange();
+        } else {
+          undoLastChange();
+        }
+      } else if (key === 'y') {
+        e.preventDefault();
+        redoLastChange();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return null;
+};
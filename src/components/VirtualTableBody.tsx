@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+
+interface VirtualTableBodyProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderRow: (item: T) => React.ReactElement;
+  colSpan: number;
+  estimatedRowHeight?: number;
+  overscan?: number;
+  onEndReached?: () => void;
+}
+
+// Index of the first row whose bottom edge is below `position`
+const findRow = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+// Renders only the rows near the visible part of the page, with spacer rows
+// standing in for the rest. Row heights vary with notes and tags, so each
+// rendered row is measured and remembered by key; rows not seen yet count
+// as `estimatedRowHeight`. Listens to scrolling anywhere on the page, since
+// the list scrolls inside the layout's <main> rather than the window.
+export const VirtualTableBody = <T,>({
+  items,
+  getKey,
+  renderRow,
+  colSpan,
+  estimatedRowHeight = 72,
+  overscan = 8,
+  onEndReached
+}: VirtualTableBodyProps<T>) => {
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight });
+  const [measureCount, setMeasureCount] = useState(0);
+
+  useEffect(() => {
+    const updateViewport = () => {
+      if (!bodyRef.current) return;
+      const { top } = bodyRef.current.getBoundingClientRect();
+      setViewport({ top: -top, bottom: window.innerHeight - top });
+    };
+
+    updateViewport();
+    document.addEventListener('scroll', updateViewport, { capture: true, passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      document.removeEventListener('scroll', updateViewport, { capture: true });
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, []);
+
+  // offsets[i] is the top of row i; the extra last entry is the full height
+  const offsets = [0];
+  for (const item of items) {
+    offsets.push(offsets[offsets.length - 1] + (heights.current.get(getKey(item)) ?? estimatedRowHeight));
+  }
+  const totalHeight = offsets[items.length];
+
+  const start = items.length === 0 ? 0 : Math.max(findRow(offsets, viewport.top) - overscan, 0);
+  const end = items.length === 0 ? 0 : Math.min(findRow(offsets, viewport.bottom) + overscan + 1, items.length);
+  const visibleItems = items.slice(start, end);
+
+  // visibleItems is a new array on every render, so rows are measured after
+  // each one; the count only changes when a height did, which ends the loop
+  useLayoutEffect(() => {
+    if (!bodyRef.current) return;
+
+    // Children are the top spacer, the visible rows, then the bottom spacer
+    const rows = Array.from(bodyRef.current.children).slice(1, -1);
+    let changed = false;
+    rows.forEach((row, i) => {
+      const key = getKey(visibleItems[i]);
+      const height = row.getBoundingClientRect().height;
+      if (height > 0 && heights.current.get(key) !== height) {
+        heights.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) {
+      setMeasureCount(count => count + 1);
+    }
+  }, [getKey, visibleItems]);
+
+  useEffect(() => {
+    if (onEndReached && items.length > 0 && end >= items.length - overscan) {
+      onEndReached();
+    }
+  }, [end, items.length, overscan, onEndReached, measureCount]);
+
+  return (
+    <tbody ref={bodyRef} className="bg-white divide-y divide-gray-200">
+      <tr aria-hidden="true" style={{ height: offsets[start] }}>
+        <td colSpan={colSpan} className="p-0" />
+      </tr>
+      {visibleItems.map(item => (
+        <React.Fragment key={getKey(item)}>{renderRow(item)}</React.Fragment>
+      ))}
+      <tr aria-hidden="true" style={{ height: totalHeight - offsets[end] }}>
+        <td colSpan={colSpan} className="p-0" />
+      </tr>
+    </tbody>
+  );
+};
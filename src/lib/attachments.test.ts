@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { db } from './database';
+import { ATTACHMENT_MAX_BYTES, formatFileSize } from './attachments';
+import { AttachmentService, BookService, TransactionService, TrashService } from './services';
+
+const attachmentService = new AttachmentService();
+const bookService = new BookService();
+const transactionService = new TransactionService();
+const trashService = new TrashService();
+
+const createTransaction = async () => {
+  const book = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+  return await transactionService.create({
+    bookId: book.id,
+    type: 'expense',
+    amount: 5000,
+    description: 'Groceries',
+    date: new Date(2024, 0, 1),
+    isRecurring: false,
+    tags: [],
+    isReversed: false
+  });
+};
+
+const pdf = (name: string, size = 100) => new File([new Uint8Array(size)], name, { type: 'application/pdf' });
+
+describe('formatFileSize', () => {
+  it('picks the unit by size', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(2048)).toBe('2 KB');
+    expect(formatFileSize(ATTACHMENT_MAX_BYTES)).toBe('5.0 MB');
+  });
+});
+
+describe('AttachmentService', () => {
+  it('accepts images and PDFs up to the size limit', async () => {
+    await expect(attachmentService.prepare(new File(['text'], 'notes.txt', { type: 'text/plain' })))
+      .rejects.toThrow('notes.txt is not an image or PDF');
+    await expect(attachmentService.prepare(pdf('scan.pdf', ATTACHMENT_MAX_BYTES + 1)))
+      .rejects.toThrow('scan.pdf is larger than 5.0 MB');
+
+    const attachment = await attachmentService.prepare(pdf('receipt.pdf'));
+    expect(attachment).toMatchObject({ name: 'receipt.pdf', type: 'application/pdf', size: 100, thumbnail: undefined });
+  });
+
+  it('keeps the count on the transaction in step', async () => {
+    const transaction = await createTransaction();
+    await attachmentService.add(transaction.id, [await attachmentService.prepare(pdf('a.pdf')), await attachmentService.prepare(pdf('b.pdf'))]);
+
+    expect((await db.transactions.get(transaction.id))?.attachmentCount).toBe(2);
+    const [first] = await attachmentService.getForTransaction(transaction.id);
+
+    await attachmentService.delete(first.id);
+    expect((await db.transactions.get(transaction.id))?.attachmentCount).toBe(1);
+
+    const [second] = await attachmentService.getForTransaction(transaction.id);
+    await attachmentService.delete(second.id);
+    expect((await db.transactions.get(transaction.id))?.attachmentCount).toBeUndefined();
+  });
+
+  it('keeps the files of a trashed transaction until the trash is emptied', async () => {
+    const transaction = await createTransaction();
+    await attachmentService.add(transaction.id, [await attachmentService.prepare(pdf('a.pdf'))]);
+
+    await transactionService.delete(transaction.id);
+    expect(await attachmentService.getForTransaction(transaction.id)).toHaveLength(1);
+
+    await trashService.empty();
+    expect(await attachmentService.getForTransaction(transaction.id)).toEqual([]);
+  });
+});
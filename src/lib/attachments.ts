@@ -0,0 +1,43 @@
+// Attachments are kept as Blobs in IndexedDB next to the transactions, so
+// receipts work offline and travel with full backups. Images get a small
+// JPEG thumbnail for galleries, so lists never decode the full photo.
+
+export const ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024;
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+
+const THUMBNAIL_SIZE = 240;
+
+export const isImage = (type: string): boolean => type.startsWith('image/');
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Scales the image down to fit THUMBNAIL_SIZE on its longer side.
+// Resolves to undefined for files the browser cannot decode as an image.
+export const createThumbnail = async (file: Blob): Promise<Blob | undefined> => {
+  if (!isImage(file.type)) return undefined;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    return undefined;
+  }
+
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) return undefined;
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return await new Promise(resolve => {
+    canvas.toBlob(blob => resolve(blob ?? undefined), 'image/jpeg', 0.8);
+  });
+};
@@ -0,0 +1,173 @@
+import Dexie, { Table } from 'dexie';
+import { downloadFile, generateId } from './utils';
+
+export interface BackupFile {
+  app: 'CashLite';
+  schemaVersion: number;
+  exportedAt: string;
+  tables: Record<string, unknown[]>;
+}
+
+export interface StoredBackup {
+  id: string;
+  reason: 'migration' | 'manual';
+  schemaVersion: number;
+  content: string; // Serialized BackupFile
+  error?: string; // Set when the migration this backup guarded failed
+  createdAt: Date;
+}
+
+// Backups live in their own database so a broken upgrade of the main one
+// cannot take them down too.
+class CashLiteBackupDB extends Dexie {
+  backups!: Table<StoredBackup>;
+
+  constructor() {
+    super('CashLiteBackups');
+
+    this.version(1).stores({
+      backups: 'id, reason, createdAt'
+    });
+  }
+}
+
+const backupDb = new CashLiteBackupDB();
+
+const KEPT_BACKUPS = 3;
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBlob = (data: string, type: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+// Blobs (attachments) can only be read asynchronously, so they are turned
+// into tagged base64 before encodeValue sees them; decodeValue turns them
+// back into Blobs.
+const readBlobs = async (value: unknown): Promise<unknown> => {
+  if (value instanceof Blob) {
+    return { $blob: await blobToBase64(value), type: value.type };
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return await Promise.all(value.map(readBlobs));
+  }
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await readBlobs(item)]));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+// JSON has no Date type, so dates are tagged on the way out and revived on
+// the way back in.
+export const encodeValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeValue(item)]));
+  }
+  return value;
+};
+
+export const decodeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.$date === 'string' && Object.keys(record).length === 1) {
+      return new Date(record.$date);
+    }
+    if (typeof record.$blob === 'string' && typeof record.type === 'string' && Object.keys(record).length === 2) {
+      return base64ToBlob(record.$blob, record.type);
+    }
+    return Object.fromEntries(Object.entries(record).map(([key, item]) => [key, decodeValue(item)]));
+  }
+  return value;
+};
+
+export const serializeBackup = (backup: BackupFile): string => {
+  return JSON.stringify(encodeValue(backup));
+};
+
+export const parseBackup = (content: string): BackupFile => {
+  const backup = decodeValue(JSON.parse(content)) as BackupFile;
+  if (backup.app !== 'CashLite' || !backup.tables) {
+    throw new Error('Not a CashLite backup file');
+  }
+  return backup;
+};
+
+// Works on any open Dexie instance, including one opened without a
+// schema, so it can read a database that has not been upgraded yet.
+export const exportDatabase = async (database: Dexie): Promise<BackupFile> => {
+  const tables: Record<string, unknown[]> = {};
+
+  for (const table of database.tables) {
+    tables[table.name] = await readBlobs(await table.toArray()) as unknown[];
+  }
+
+  return {
+    app: 'CashLite',
+    schemaVersion: database.verno,
+    exportedAt: new Date().toISOString(),
+    tables
+  };
+};
+
+export const storeBackup = async (backup: BackupFile, reason: StoredBackup['reason']): Promise<string> => {
+  const id = generateId();
+
+  await backupDb.backups.add({
+    id,
+    reason,
+    schemaVersion: backup.schemaVersion,
+    content: serializeBackup(backup),
+    createdAt: new Date()
+  });
+
+  // Only the most recent backups are kept
+  const stale = await backupDb.backups.orderBy('createdAt').reverse().offset(KEPT_BACKUPS).primaryKeys();
+  await backupDb.backups.bulkDelete(stale);
+
+  return id;
+};
+
+export const markBackupFailed = async (id: string, error: string): Promise<void> => {
+  await backupDb.backups.update(id, { error });
+};
+
+export const getStoredBackups = async (): Promise<StoredBackup[]> => {
+  return await backupDb.backups.orderBy('createdAt').reverse().toArray();
+};
+
+export const downloadBackup = (content: string, schemaVersion: number, date: Date = new Date()): void => {
+  const stamp = date.toISOString().split('T')[0];
+  downloadFile(content, `cashlite-backup-v${schemaVersion}-${stamp}.json`, 'application/json');
+};
+
+export const downloadStoredBackup = async (id: string): Promise<void> => {
+  const backup = await backupDb.backups.get(id);
+  if (!backup) throw new Error('Backup not found');
+
+  downloadBackup(backup.content, backup.schemaVersion, backup.createdAt);
+};
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './database';
+import { BookService, SegmentService, TransactionService, TrashService, UndoService } from './services';
+import { Book, Segment, Transaction } from '../types';
+
+const bookService = new BookService();
+const segmentService = new SegmentService();
+const transactionService = new TransactionService();
+
+const createTransaction = (bookId: string, amount: number, overrides: Partial<Transaction> = {}) => transactionService.create({
+  bookId,
+  type: 'income',
+  amount,
+  description: 'Sales',
+  date: new Date(2024, 0, 1),
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+const getStoredBalance = async (bookId: string) => (await db.books.get(bookId))?.balance;
+const getStoredTotal = async (segmentId: string) => (await db.segments.get(segmentId))?.totalBalance;
+
+describe('stored balances', () => {
+  let segment: Segment;
+  let shop: Book;
+  let home: Book;
+
+  beforeEach(async () => {
+    segment = await segmentService.create({ name: 'Business', color: '#10b981', icon: 'briefcase', isActive: true });
+    shop = await bookService.create({ name: 'Shop', currency: 'BDT', segmentId: segment.id, color: '#3b82f6', icon: 'store', isActive: true });
+    home = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+  });
+
+  it('follow creates, edits and deletes into the segment total', async () => {
+    const sale = await createTransaction(shop.id, 5000);
+    await createTransaction(shop.id, 1500, { type: 'expense' });
+    expect(await getStoredBalance(shop.id)).toBe(3500);
+    expect(await getStoredTotal(segment.id)).toBe(3500);
+
+    await transactionService.update(sale.id, { amount: 7000 });
+    expect(await getStoredBalance(shop.id)).toBe(5500);
+    expect(await getStoredTotal(segment.id)).toBe(5500);
+
+    await transactionService.delete(sale.id);
+    expect(await getStoredBalance(shop.id)).toBe(-1500);
+    expect(await getStoredTotal(segment.id)).toBe(-1500);
+  });
+
+  it('move out of the old book when a transaction changes books', async () => {
+    const sale = await createTransaction(shop.id, 5000);
+    await transactionService.update(sale.id, { bookId: home.id });
+
+    expect(await getStoredBalance(shop.id)).toBe(0);
+    expect(await getStoredBalance(home.id)).toBe(5000);
+    expect(await getStoredTotal(segment.id)).toBe(0);
+  });
+
+  it('follow a book into and out of a segment', async () => {
+    await createTransaction(home.id, 2000);
+    await bookService.update(home.id, { segmentId: segment.id });
+    expect(await getStoredTotal(segment.id)).toBe(2000);
+
+    await bookService.update(home.id, { segmentId: undefined });
+    expect(await getStoredTotal(segment.id)).toBe(0);
+  });
+
+  it('are rescaled with the amounts when the currency changes', async () => {
+    await createTransaction(home.id, 1250);
+    await bookService.update(home.id, { currency: 'JPY' });
+
+    expect(await getStoredBalance(home.id)).toBe(13);
+    expect(await bookService.getBalance(home.id)).toBe(13);
+  });
+
+  it('come back with a restored transaction', async () => {
+    const sale = await createTransaction(shop.id, 5000);
+    await transactionService.delete(sale.id);
+    await new TrashService().restore((await new TrashService().getAll())[0].id);
+
+    expect(await getStoredBalance(shop.id)).toBe(5000);
+    expect(await getStoredTotal(segment.id)).toBe(5000);
+  });
+
+  it('roll back with the write that failed', async () => {
+    await expect(new UndoService().run('Import', async () => {
+      await createTransaction(shop.id, 5000);
+      throw new Error('Import failed');
+    })).rejects.toThrow('Import failed');
+
+    expect(await transactionService.getAll({ bookIds: [shop.id] })).toEqual([]);
+    expect(await getStoredBalance(shop.id)).toBe(0);
+    expect(await getStoredTotal(segment.id)).toBe(0);
+  });
+});
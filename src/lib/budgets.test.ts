@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BookService, BudgetService, CategoryService, SegmentService, TransactionService, TrashService } from './services';
+import { Book, Budget, Category, Transaction } from '../types';
+
+const bookService = new BookService();
+const categoryService = new CategoryService();
+const transactionService = new TransactionService();
+const budgetService = new BudgetService();
+
+const spend = (bookId: string, categoryId: string, amount: number, date: Date, overrides: Partial<Transaction> = {}) => transactionService.create({
+  bookId,
+  categoryId,
+  type: 'expense',
+  amount,
+  description: 'Groceries',
+  date,
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+describe('BudgetService', () => {
+  let book: Book;
+  let food: Category;
+
+  beforeEach(async () => {
+    book = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+    food = await categoryService.create({ name: 'Food', type: 'expense', color: '#ef4444', icon: 'utensils', isDefault: false, isActive: true });
+  });
+
+  const createBudget = (overrides: Partial<Budget> = {}) => budgetService.create({
+    categoryId: food.id,
+    bookId: book.id,
+    amount: 100000,
+    period: 'monthly',
+    startDate: new Date(2024, 0, 1),
+    rollover: false,
+    ...overrides
+  });
+
+  it('counts expenses less refunds in the current period only', async () => {
+    const budget = await createBudget();
+    await spend(book.id, food.id, 30000, new Date(2024, 1, 3));
+    await spend(book.id, food.id, 5000, new Date(2024, 1, 9), { type: 'income' });
+    await spend(book.id, food.id, 70000, new Date(2024, 0, 20));
+
+    const status = await budgetService.getStatus(budget, new Date(2024, 1, 15));
+    expect(status).toMatchObject({
+      periodStart: new Date(2024, 1, 1),
+      periodEnd: new Date(2024, 1, 29),
+      limit: 100000,
+      spent: 25000
+    });
+    expect(status.budget.currency).toBe('BDT');
+  });
+
+  it('keeps monthly periods started on the 31st at month ends', async () => {
+    const budget = await createBudget({ startDate: new Date(2024, 0, 31) });
+    const status = await budgetService.getStatus(budget, new Date(2024, 2, 5));
+
+    expect(status.periodStart).toEqual(new Date(2024, 1, 29));
+    expect(status.periodEnd).toEqual(new Date(2024, 2, 30));
+  });
+
+  it('rolls unspent amounts over but not overspending', async () => {
+    const budget = await createBudget({ rollover: true });
+    await spend(book.id, food.id, 60000, new Date(2024, 0, 10));
+    await spend(book.id, food.id, 150000, new Date(2024, 1, 10));
+
+    expect(await budgetService.getStatus(budget, new Date(2024, 1, 20))).toMatchObject({ rolledOver: 40000, limit: 140000, spent: 150000 });
+    expect(await budgetService.getStatus(budget, new Date(2024, 2, 20))).toMatchObject({ rolledOver: 0, limit: 100000, spent: 0 });
+  });
+
+  it('counts every book of a segment budget', async () => {
+    const segment = await new SegmentService().create({ name: 'Family', color: '#10b981', icon: 'users', isActive: true });
+    const other = await bookService.create({ name: 'Kids', currency: 'BDT', segmentId: segment.id, color: '#3b82f6', icon: 'wallet', isActive: true });
+    await bookService.update(book.id, { segmentId: segment.id });
+    const budget = await createBudget({ bookId: undefined, segmentId: segment.id });
+
+    await spend(book.id, food.id, 20000, new Date(2024, 0, 5));
+    await spend(other.id, food.id, 30000, new Date(2024, 0, 6));
+
+    expect((await budgetService.getStatus(budget, new Date(2024, 0, 31))).spent).toBe(50000);
+    expect(await budgetService.getStatusesFor(other.id, [food.id], new Date(2024, 0, 10))).toHaveLength(1);
+  });
+
+  it('warns once per level crossed', async () => {
+    await createBudget();
+    const date = new Date(2024, 0, 10);
+    const read = () => budgetService.getStatusesFor(book.id, [food.id], date);
+
+    const empty = await read();
+    await spend(book.id, food.id, 85000, date);
+    const nearly = await read();
+    expect(budgetService.getWarnings(empty, nearly).map(w => w.level)).toEqual([0.8]);
+
+    await spend(book.id, food.id, 1000, date);
+    expect(budgetService.getWarnings(nearly, await read())).toEqual([]);
+
+    await spend(book.id, food.id, 20000, date);
+    expect(budgetService.getWarnings(nearly, await read()).map(w => w.level)).toEqual([1]);
+  });
+
+  it('leaves out budgets of a trashed category', async () => {
+    const budget = await createBudget();
+    await new TrashService().moveToTrash('category', food.id, food.name);
+
+    expect((await budgetService.getAll()).map(b => b.id)).not.toContain(budget.id);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { db } from './database';
+import { getAncestorIds, getCategoryTree, getSubtreeIds } from './categories';
+import { queryTransactions } from './query';
+import { BookService, BudgetService, CategoryService, TransactionService, TrashService } from './services';
+import { Category, Transaction } from '../types';
+
+const bookService = new BookService();
+const categoryService = new CategoryService();
+const transactionService = new TransactionService();
+
+const createCategory = (name: string, parentId?: string) => categoryService.create({ name, parentId, type: 'expense', color: '#ef4444', icon: 'tag', isDefault: false, isActive: true });
+
+const spend = (bookId: string, overrides: Partial<Transaction>) => transactionService.create({
+  bookId,
+  type: 'expense',
+  amount: 3000,
+  description: 'Shirt',
+  date: new Date(2024, 0, 10),
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+const category = (id: string, name: string, parentId?: string) => ({ id, name, parentId } as Category);
+
+describe('category tree', () => {
+  const categories = [
+    category('food', 'Food'),
+    category('dining', 'Dining', 'food'),
+    category('cafe', 'Cafe', 'dining'),
+    category('bazar', 'Bazar', 'food'),
+    category('rent', 'Rent'),
+    category('orphan', 'Orphan', 'trashed')
+  ];
+
+  it('expands a category to everything below it', () => {
+    expect(getSubtreeIds(categories, 'food')).toEqual(['food', 'dining', 'bazar', 'cafe']);
+    expect(getSubtreeIds(categories, 'rent')).toEqual(['rent']);
+  });
+
+  it('lists parents nearest first', () => {
+    expect(getAncestorIds(categories, 'cafe')).toEqual(['dining', 'food']);
+    expect(getAncestorIds(categories, 'food')).toEqual([]);
+  });
+
+  it('orders parents before children and starts orphans a tree of their own', () => {
+    expect(getCategoryTree(categories).map(({ category, depth }) => `${depth}:${category.id}`))
+      .toEqual(['0:food', '1:bazar', '1:dining', '2:cafe', '0:orphan', '0:rent']);
+  });
+});
+
+describe('subcategories', () => {
+  it('cannot form a loop', async () => {
+    const parent = await createCategory('Transport');
+    const child = await createCategory('Bus', parent.id);
+
+    await expect(categoryService.update(parent.id, { parentId: child.id }))
+      .rejects.toThrow('A category cannot be placed under itself or its subcategories');
+    await expect(createCategory('Taxi', 'missing')).rejects.toThrow('Parent category not found');
+  });
+
+  it('count towards their parent in filters, totals and budgets', async () => {
+    const book = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+    const parent = await createCategory('Shopping');
+    const child = await createCategory('Clothes', parent.id);
+    const transaction = await spend(book.id, { categoryId: child.id });
+
+    expect((await queryTransactions({ categoryIds: [parent.id] })).map(t => t.id)).toEqual([transaction.id]);
+    expect((await transactionService.getCategoryTotals(book.id, 2024, 1)).get(parent.id)).toEqual({ income: 0, expense: 3000 });
+
+    const budgetService = new BudgetService();
+    const budget = await budgetService.create({ categoryId: parent.id, bookId: book.id, amount: 10000, period: 'monthly', startDate: new Date(2024, 0, 1), rollover: false });
+    expect((await budgetService.getStatus(budget, new Date(2024, 0, 20))).spent).toBe(3000);
+  });
+
+  it('move up to the top level when their parent is purged', async () => {
+    const parent = await createCategory('Health');
+    const child = await createCategory('Medicine', parent.id);
+
+    await categoryService.delete(parent.id);
+    expect((await db.categories.get(child.id))?.parentId).toBe(parent.id);
+
+    await new TrashService().empty();
+    expect((await db.categories.get(child.id))?.parentId).toBeUndefined();
+  });
+});
+
+describe('CategoryService.merge', () => {
+  it('refuses to delete a category in use without a replacement', async () => {
+    const book = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+    const fuel = await createCategory('Fuel');
+    const car = await createCategory('Car');
+    const transaction = await spend(book.id, { categoryId: fuel.id });
+
+    expect(await categoryService.getUsage(fuel.id)).toEqual({ transactions: 1, budgets: 0, recurringRules: 0, goals: 0, categorizationRules: 0 });
+    await expect(categoryService.delete(fuel.id)).rejects.toThrow('"Fuel" is still in use; choose a category to move it to');
+
+    await categoryService.delete(fuel.id, car.id);
+    expect((await db.categories.get(fuel.id))?.deletedAt).toBeDefined();
+    expect((await db.transactions.get(transaction.id))?.categoryId).toBe(car.id);
+  });
+
+  it('moves split lines, budgets and subcategories to the target', async () => {
+    const book = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+    const groceries = await createCategory('Groceries');
+    const market = await createCategory('Market');
+    const fish = await createCategory('Fish', market.id);
+    const other = await createCategory('Other');
+    const split = await spend(book.id, { splits: [{ categoryId: market.id, amount: 2000 }, { categoryId: other.id, amount: 1000 }] });
+    const budget = await new BudgetService().create({ categoryId: market.id, bookId: book.id, amount: 10000, period: 'monthly', startDate: new Date(2024, 0, 1), rollover: false });
+
+    await categoryService.merge([market.id], groceries.id);
+
+    const stored = await db.transactions.get(split.id);
+    expect(stored?.splits?.map(line => line.categoryId)).toEqual([groceries.id, other.id]);
+    expect(stored?.splitCategoryIds).toEqual([groceries.id, other.id]);
+    expect(stored?.searchWords).toContain('groceries');
+    expect((await db.budgets.get(budget.id))?.categoryId).toBe(groceries.id);
+    expect((await db.categories.get(fish.id))?.parentId).toBe(groceries.id);
+  });
+
+  it('lifts a target that sat under a source into its place', async () => {
+    const home = await createCategory('House');
+    const utilities = await createCategory('Utilities', home.id);
+    const power = await createCategory('Power', utilities.id);
+
+    await categoryService.merge([utilities.id], power.id);
+    expect((await db.categories.get(power.id))?.parentId).toBe(home.id);
+  });
+});
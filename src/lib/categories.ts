@@ -0,0 +1,63 @@
+import { Category } from '../types';
+
+// Categories form a tree through parentId. Filters, budgets and reports on
+// a category take in everything under it, so they expand ids through here.
+
+type CategoryLink = Pick<Category, 'id' | 'parentId'>;
+
+// The category itself followed by everything below it
+export const getSubtreeIds = (categories: CategoryLink[], id: string): string[] => {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i] && !ids.includes(category.id)) {
+        ids.push(category.id);
+      }
+    }
+  }
+  return ids;
+};
+
+export const withSubcategories = (categories: CategoryLink[], ids: string[]): string[] => {
+  return [...new Set(ids.flatMap(id => getSubtreeIds(categories, id)))];
+};
+
+// Parents of the category, nearest first
+export const getAncestorIds = (categories: CategoryLink[], id: string): string[] => {
+  const parents = new Map(categories.map(category => [category.id, category.parentId]));
+  const ids: string[] = [];
+  let parentId = parents.get(id);
+  while (parentId && !ids.includes(parentId) && parentId !== id) {
+    ids.push(parentId);
+    parentId = parents.get(parentId);
+  }
+  return ids;
+};
+
+export interface CategoryTreeItem {
+  category: Category;
+  depth: number;
+}
+
+// Parents come before their children and siblings are sorted by name.
+// Categories whose parent is not in the list (filtered out or in the
+// trash) start a tree of their own.
+export const getCategoryTree = (categories: Category[]): CategoryTreeItem[] => {
+  const ids = new Set(categories.map(category => category.id));
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const items: CategoryTreeItem[] = [];
+
+  const visit = (category: Category, depth: number) => {
+    items.push({ category, depth });
+    categories
+      .filter(child => child.parentId === category.id && child.id !== category.id)
+      .sort(byName)
+      .forEach(child => visit(child, depth + 1));
+  };
+
+  categories
+    .filter(category => !category.parentId || !ids.has(category.parentId))
+    .sort(byName)
+    .forEach(category => visit(category, 0));
+  return items;
+};
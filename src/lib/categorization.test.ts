@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { db } from './database';
+import { applyRules, RuleSubject } from './categorization';
+import { BookService, CategorizationRuleService, CategoryService, ImportService, TransactionService } from './services';
+import { CategorizationRule } from '../types';
+
+const ruleService = new CategorizationRuleService();
+
+const rule = (overrides: Partial<CategorizationRule>): CategorizationRule => ({
+  id: overrides.name ?? 'rule',
+  name: 'rule',
+  conditions: [],
+  tags: [],
+  priority: 0,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const subject = (overrides: Partial<RuleSubject> = {}): RuleSubject => ({
+  type: 'expense',
+  description: 'Uber trip to office',
+  amount: 35000,
+  currency: 'BDT',
+  ...overrides
+});
+
+describe('applyRules', () => {
+  const rides = rule({ name: 'rides', conditions: [{ field: 'description', operator: 'contains', value: 'UBER' }], categoryId: 'transport', tags: ['ride'] });
+  const large = rule({ name: 'large', conditions: [{ field: 'amount', operator: 'atLeast', value: '300' }], categoryId: 'big', tags: ['large', 'ride'] });
+
+  it('lets the first rule set the category and collects the tags of all', () => {
+    expect(applyRules([rides, large], subject())).toEqual({ categoryId: 'transport', tags: ['ride', 'large'], ruleIds: ['rides', 'large'] });
+    expect(applyRules([large, rides], subject())?.categoryId).toBe('big');
+  });
+
+  it('reads amounts in the currency of the book', () => {
+    expect(applyRules([large], subject({ amount: 29999 }))).toBeUndefined();
+    expect(applyRules([large], subject({ currency: 'JPY', amount: 300 }))?.categoryId).toBe('big');
+  });
+
+  it('skips inactive rules and rules for the other type', () => {
+    expect(applyRules([{ ...rides, isActive: false }], subject())).toBeUndefined();
+    expect(applyRules([{ ...rides, type: 'income' }], subject())).toBeUndefined();
+  });
+});
+
+describe('CategorizationRuleService', () => {
+  it('checks rules before saving them', async () => {
+    await expect(ruleService.create({ name: 'Empty', conditions: [{ field: 'description', operator: 'contains', value: ' ' }], tags: ['x'], isActive: true }))
+      .rejects.toThrow('Every condition needs a value');
+    await expect(ruleService.create({ name: 'Amount', conditions: [{ field: 'amount', operator: 'atLeast', value: 'lots' }], tags: ['x'], isActive: true }))
+      .rejects.toThrow('Amount conditions need a number');
+    await expect(ruleService.create({ name: 'Nothing', conditions: [{ field: 'description', operator: 'contains', value: 'a' }], tags: [], isActive: true }))
+      .rejects.toThrow('A rule has to set a category, tags or a payment mode');
+  });
+
+  it('runs over existing transactions without overwriting categories unless asked', async () => {
+    const book = await new BookService().create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+    const categoryService = new CategoryService();
+    const transport = await categoryService.create({ name: 'Transport', type: 'expense', color: '#ef4444', icon: 'car', isDefault: false, isActive: true });
+    const other = await categoryService.create({ name: 'Other', type: 'expense', color: '#ef4444', icon: 'tag', isDefault: false, isActive: true });
+    const transactionService = new TransactionService();
+    const create = (categoryId?: string) => transactionService.create({
+      bookId: book.id, type: 'expense', amount: 20000, description: 'Pathao ride', categoryId,
+      date: new Date(2024, 0, 1), isRecurring: false, tags: [], isReversed: false
+    });
+    const uncategorized = await create();
+    const categorized = await create(other.id);
+
+    const first = await ruleService.create({ name: 'Rides', conditions: [{ field: 'description', operator: 'contains', value: 'pathao' }], categoryId: transport.id, tags: [], isActive: true });
+    const second = await ruleService.create({ name: 'Tag rides', conditions: [{ field: 'description', operator: 'contains', value: 'ride' }], tags: ['ride'], isActive: true });
+    expect([first.priority, second.priority]).toEqual([0, 1]);
+
+    const changes = await ruleService.preview({ bookIds: [book.id] });
+    expect(changes.find(c => c.transaction.id === uncategorized.id)).toMatchObject({ categoryId: transport.id, tags: ['ride'] });
+    expect(changes.find(c => c.transaction.id === categorized.id)?.categoryId).toBeUndefined();
+
+    const overwriting = await ruleService.preview({ bookIds: [book.id] }, true);
+    expect(overwriting.find(c => c.transaction.id === categorized.id)?.categoryId).toBe(transport.id);
+
+    await ruleService.apply(changes);
+    expect(await db.transactions.get(uncategorized.id)).toMatchObject({ categoryId: transport.id, tags: ['ride'] });
+    expect(await db.transactions.get(categorized.id)).toMatchObject({ categoryId: other.id, tags: ['ride'] });
+
+    await ruleService.move(second.id, -1);
+    expect((await ruleService.getAll()).map(r => r.id)).toEqual([second.id, first.id]);
+
+    const result = await new ImportService().importCSV([
+      'Date,Time,Remark,Party,Category,Mode,Cash In,Cash Out,Balance',
+      '2024-01-10,10:00,Pathao ride to office,,,,,150,'
+    ].join('\n'), book.id);
+    expect(result.transactions[0]).toMatchObject({ categoryId: transport.id, tags: ['ride'] });
+  });
+});
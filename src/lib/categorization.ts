@@ -0,0 +1,86 @@
+import { CategorizationRule, RuleCondition, RuleField, RuleOperator, RuleSuggestion } from '../types';
+import { parseMoney } from './money';
+
+// Matches transactions against the user's categorization rules. Kept free
+// of the database so the transaction form can run it on every keystroke.
+
+// What a rule is matched against; party is the party's name
+export interface RuleSubject {
+  type: 'income' | 'expense';
+  description: string;
+  notes?: string;
+  party?: string;
+  amount: number;
+  currency: string;
+}
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  description: 'Description',
+  notes: 'Notes',
+  party: 'Party',
+  amount: 'Amount'
+};
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  contains: 'contains',
+  equals: 'is',
+  startsWith: 'starts with',
+  atLeast: 'is at least',
+  atMost: 'is at most'
+};
+
+export const getRuleOperators = (field: RuleField): RuleOperator[] => {
+  return field === 'amount' ? ['equals', 'atLeast', 'atMost'] : ['contains', 'equals', 'startsWith'];
+};
+
+export const describeCondition = (condition: RuleCondition): string => {
+  const value = condition.field === 'amount' ? condition.value : `"${condition.value}"`;
+  return `${RULE_FIELD_LABELS[condition.field]} ${RULE_OPERATOR_LABELS[condition.operator]} ${value}`;
+};
+
+const matchesCondition = (condition: RuleCondition, subject: RuleSubject): boolean => {
+  if (condition.field === 'amount') {
+    const value = parseMoney(condition.value, subject.currency);
+    if (value === undefined) return false;
+
+    switch (condition.operator) {
+      case 'atLeast': return subject.amount >= value;
+      case 'atMost': return subject.amount <= value;
+      default: return subject.amount === value;
+    }
+  }
+
+  const value = condition.value.trim().toLowerCase();
+  if (!value) return false;
+  const text = (subject[condition.field] ?? '').trim().toLowerCase();
+
+  switch (condition.operator) {
+    case 'equals': return text === value;
+    case 'startsWith': return text.startsWith(value);
+    default: return text.includes(value);
+  }
+};
+
+export const matchesRule = (rule: CategorizationRule, subject: RuleSubject): boolean => {
+  return rule.isActive
+    && (!rule.type || rule.type === subject.type)
+    && rule.conditions.length > 0
+    && rule.conditions.every(condition => matchesCondition(condition, subject));
+};
+
+// Rules are expected in priority order. The first matching rule to set a
+// category or payment mode wins; tags from every matching rule are kept.
+export const applyRules = (rules: CategorizationRule[], subject: RuleSubject): RuleSuggestion | undefined => {
+  const suggestion: RuleSuggestion = { tags: [], ruleIds: [] };
+
+  for (const rule of rules) {
+    if (!matchesRule(rule, subject)) continue;
+
+    suggestion.ruleIds.push(rule.id);
+    suggestion.categoryId = suggestion.categoryId ?? rule.categoryId;
+    suggestion.paymentModeId = suggestion.paymentModeId ?? rule.paymentModeId;
+    suggestion.tags.push(...rule.tags.filter(tag => !suggestion.tags.includes(tag)));
+  }
+
+  return suggestion.ruleIds.length > 0 ? suggestion : undefined;
+};
@@ -1,5 +1,12 @@
 import Dexie, { Table } from 'dexie';
-import { Book, Segment, Transaction, Category, Settings } from '../types';
+import { Book, Segment, Transaction, Category, Settings, RecurringRule, ExchangeRate, TrashEntry, HistoryEntry, Budget, SavingsGoal, Attachment, Party, PaymentMode, CategorizationRule } from '../types';
+import { migrations, LATEST_VERSION, MIGRATION_LOG_KEY, MigrationLogEntry } from './migrations';
+import { exportDatabase, storeBackup, markBackupFailed } from './backup';
+import { historyMiddleware } from './history';
+import { searchMiddleware } from './search';
+import { generateId } from './utils';
+
+const DB_NAME = 'CashLiteDB';
 
 export class CashLiteDB extends Dexie {
   books!: Table<Book>;
@@ -7,22 +14,41 @@ export class CashLiteDB extends Dexie {
   transactions!: Table<Transaction>;
   categories!: Table<Category>;
   settings!: Table<Settings>;
+  recurringRules!: Table<RecurringRule>;
+  exchangeRates!: Table<ExchangeRate>;
+  trash!: Table<TrashEntry>;
+  history!: Table<HistoryEntry>;
+  budgets!: Table<Budget>;
+  goals!: Table<SavingsGoal>;
+  attachments!: Table<Attachment>;
+  parties!: Table<Party>;
+  paymentModes!: Table<PaymentMode>;
+  categorizationRules!: Table<CategorizationRule>;
 
   constructor() {
-    super('CashLiteDB');
+    super(DB_NAME);
     
-    this.version(1).stores({
-      books: '++id, name, segmentId, currency, isActive, createdAt, updatedAt',
-      segments: '++id, name, isActive, createdAt, updatedAt',
-      transactions: '++id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed',
-      categories: '++id, name, type, isDefault, isActive, createdAt, updatedAt',
-      settings: '++id, key, updatedAt'
-    });
+    for (const migration of migrations) {
+      const version = this.version(migration.version).stores(migration.stores);
+      if (migration.upgrade) {
+        version.upgrade(migration.upgrade);
+      }
+    }
     
+    this.use(historyMiddleware);
+    this.use(searchMiddleware);
     this.on('ready', this.initializeDefaults);
   }
 
   private initializeDefaults = async () => {
+    if (await this.paymentModes.count() === 0) {
+      const now = new Date();
+      await this.paymentModes.bulkAdd(
+        [['mode-cash', 'Cash'], ['mode-bkash', 'bKash'], ['mode-nagad', 'Nagad'], ['mode-card', 'Card'], ['mode-bank', 'Bank']]
+          .map(([id, name]) => ({ id, name, isDefault: true, createdAt: now, updatedAt: now }))
+      );
+    }
+
     const categoryCount = await this.categories.count();
     
     if (categoryCount === 0) {
@@ -110,3 +136,93 @@ export class CashLiteDB extends Dexie {
 }
 
 export const db = new CashLiteDB();
+
+export interface MigrationResult {
+  success: boolean;
+  fromVersion: number;
+  toVersion: number;
+  applied: MigrationLogEntry[];
+  error?: string;
+  backupId?: string; // Backup taken before upgrading, if there was anything to upgrade
+}
+
+const appendMigrationLog = async (entries: MigrationLogEntry[]): Promise<void> => {
+  const existing = await db.settings.where('key').equals(MIGRATION_LOG_KEY).first();
+  const log = existing ? [...existing.value as MigrationLogEntry[], ...entries] : entries;
+
+  await db.settings.put({
+    id: existing?.id || generateId(),
+    key: MIGRATION_LOG_KEY,
+    value: log,
+    updatedAt: new Date()
+  });
+};
+
+const runMigrations = async (): Promise<MigrationResult> => {
+  let fromVersion = 0;
+  let backupId: string | undefined;
+
+  // Open whatever is installed without a schema to see its version and,
+  // if an upgrade is pending, back it up before touching it.
+  // Without a backup the upgrade is not attempted at all.
+  const installed = new Dexie(DB_NAME);
+  try {
+    if (await Dexie.exists(DB_NAME)) {
+      await installed.open();
+      fromVersion = installed.verno;
+
+      if (fromVersion < LATEST_VERSION) {
+        backupId = await storeBackup(await exportDatabase(installed), 'migration');
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Backup before upgrade failed:', error);
+    return {
+      success: false,
+      fromVersion,
+      toVersion: LATEST_VERSION,
+      applied: [],
+      error: `Could not back up your data before upgrading: ${message}`
+    };
+  } finally {
+    installed.close();
+  }
+
+  const pending = migrations.filter(migration => migration.version > fromVersion);
+
+  try {
+    await db.open();
+  } catch (error) {
+    // The version-change transaction is rolled back, so the installed
+    // data is untouched; the backup is kept in case it is needed anyway.
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Database upgrade failed:', error);
+    if (backupId) {
+      await markBackupFailed(backupId, message);
+    }
+    return { success: false, fromVersion, toVersion: LATEST_VERSION, applied: [], error: message, backupId };
+  }
+
+  const applied = pending.map(migration => ({
+    version: migration.version,
+    description: migration.description,
+    appliedAt: new Date()
+  }));
+  if (applied.length > 0) {
+    await appendMigrationLog(applied);
+  }
+
+  return { success: true, fromVersion, toVersion: LATEST_VERSION, applied, backupId };
+};
+
+let openPromise: Promise<MigrationResult> | undefined;
+
+// Must run before anything else touches `db`; repeated calls share the
+// same attempt.
+export const openDatabase = (): Promise<MigrationResult> => {
+  if (!openPromise) {
+    openPromise = runMigrations();
+  }
+  return openPromise;
+};
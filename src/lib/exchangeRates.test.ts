@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './database';
+import { BookService, ExchangeRateService, SegmentService, SettingsService, TransactionService } from './services';
+
+const bookService = new BookService();
+const segmentService = new SegmentService();
+const exchangeRateService = new ExchangeRateService();
+const transactionService = new TransactionService();
+
+beforeEach(async () => {
+  await db.exchangeRates.clear();
+  await db.settings.clear();
+});
+
+describe('ExchangeRateService', () => {
+  it('uses the latest rate on or before the date, in either direction', async () => {
+    await exchangeRateService.create({ fromCurrency: 'USD', toCurrency: 'BDT', rate: 110, date: new Date(2024, 0, 1) });
+    await exchangeRateService.create({ fromCurrency: 'BDT', toCurrency: 'USD', rate: 1 / 120, date: new Date(2024, 5, 1) });
+
+    expect(await exchangeRateService.getRate('USD', 'BDT', new Date(2024, 2, 1))).toBe(110);
+    expect(await exchangeRateService.getRate('USD', 'BDT', new Date(2024, 6, 1))).toBeCloseTo(120);
+    expect(await exchangeRateService.getRate('USD', 'BDT', new Date(2023, 11, 31))).toBeUndefined();
+    expect(await exchangeRateService.getRate('EUR', 'EUR')).toBe(1);
+  });
+
+  it('rejects same-currency pairs and non-positive rates', async () => {
+    await expect(exchangeRateService.create({ fromCurrency: 'BDT', toCurrency: 'BDT', rate: 1, date: new Date() })).rejects.toThrow('Choose two different currencies');
+    await expect(exchangeRateService.create({ fromCurrency: 'USD', toCurrency: 'BDT', rate: 0, date: new Date() })).rejects.toThrow('Rate must be greater than 0');
+  });
+});
+
+describe('SegmentService.getBalanceSummary', () => {
+  const createSegmentWithBooks = async () => {
+    const segment = await segmentService.create({ name: 'Family', color: '#10b981', icon: 'users', isActive: true });
+    for (const [currency, amount] of [['BDT', 5000], ['BDT', 1000], ['USD', 20]] as const) {
+      const book = await bookService.create({ name: currency, currency, segmentId: segment.id, color: '#3b82f6', icon: 'wallet', isActive: true });
+      await transactionService.create({ bookId: book.id, type: 'income', amount, description: 'Opening', date: new Date(2024, 0, 1), isRecurring: false, tags: [], isReversed: false });
+    }
+    return segment;
+  };
+
+  it('subtotals per currency and converts to the base currency', async () => {
+    const segment = await createSegmentWithBooks();
+    await exchangeRateService.create({ fromCurrency: 'USD', toCurrency: 'BDT', rate: 110, date: new Date(2024, 0, 1) });
+
+    const summary = await segmentService.updateTotalBalance(segment.id);
+
+    expect(summary).toEqual({
+      baseCurrency: 'BDT',
+      total: 8200,
+      subtotals: [
+        { currency: 'BDT', amount: 6000, convertedAmount: 6000 },
+        { currency: 'USD', amount: 20, convertedAmount: 2200 }
+      ],
+      missingRates: []
+    });
+    expect((await db.segments.get(segment.id))?.totalBalance).toBe(8200);
+  });
+
+  it('leaves currencies without a rate out of the total', async () => {
+    const segment = await createSegmentWithBooks();
+    await new SettingsService().setBaseCurrency('USD');
+    await exchangeRateService.create({ fromCurrency: 'USD', toCurrency: 'BDT', rate: 100, date: new Date(2024, 0, 1) });
+
+    const summary = await segmentService.getBalanceSummary(segment.id);
+    expect(summary.baseCurrency).toBe('USD');
+    expect(summary.total).toBe(80);
+
+    await db.exchangeRates.clear();
+    const withoutRates = await segmentService.getBalanceSummary(segment.id);
+    expect(withoutRates.total).toBe(20);
+    expect(withoutRates.missingRates).toEqual(['BDT']);
+  });
+});
@@ -0,0 +1,89 @@
+import { addDays } from 'date-fns';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './database';
+import { BookService, CategoryService, GoalService, TransactionService, TrashService } from './services';
+import { Book, SavingsGoal, Transaction } from '../types';
+
+const bookService = new BookService();
+const transactionService = new TransactionService();
+const goalService = new GoalService();
+
+const createBook = (name: string) => bookService.create({ name, currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+
+const createTransaction = (bookId: string, amount: number, date: Date, overrides: Partial<Transaction> = {}) => transactionService.create({
+  bookId,
+  type: 'income',
+  amount,
+  description: 'Deposit',
+  date,
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+describe('GoalService', () => {
+  const asOf = new Date(2024, 5, 30);
+  let fund: Book;
+
+  beforeEach(async () => {
+    fund = await createBook('Emergency fund');
+  });
+
+  const createGoal = (overrides: Partial<SavingsGoal> = {}) => goalService.create({
+    name: 'Emergency fund',
+    targetAmount: 120000,
+    currency: 'BDT',
+    dueDate: new Date(2024, 11, 31),
+    bookIds: [fund.id],
+    categoryIds: [],
+    startDate: new Date(2024, 0, 1),
+    ...overrides
+  });
+
+  it('projects completion from the recent rate', async () => {
+    for (const month of [3, 4, 5]) {
+      await createTransaction(fund.id, 10000, new Date(2024, month, 15));
+    }
+    const status = await goalService.getStatus(await createGoal(), asOf);
+
+    expect(status).toMatchObject({
+      saved: 30000,
+      remaining: 90000,
+      monthlyRate: 10000,
+      requiredMonthly: 15000,
+      milestones: [0.25],
+      missingRates: []
+    });
+    // Three times what came in over the last three months (92 days)
+    expect(status.projectedDate).toEqual(addDays(asOf, 276));
+  });
+
+  it('has no projection without recent savings and nothing left once reached', async () => {
+    await createTransaction(fund.id, 50000, new Date(2023, 0, 1));
+    const goal = await createGoal({ targetAmount: 40000 });
+
+    expect(await goalService.getStatus(goal, asOf)).toMatchObject({ remaining: 0, requiredMonthly: undefined, projectedDate: undefined, milestones: [0.25, 0.5, 0.75, 1] });
+    await goalService.update(goal.id, { targetAmount: 100000 });
+    expect((await goalService.getStatus((await goalService.getById(goal.id))!, asOf)).projectedDate).toBeUndefined();
+  });
+
+  it('counts money set aside in linked categories from other books', async () => {
+    const wallet = await createBook('Wallet');
+    const savings = await new CategoryService().create({ name: 'Savings', type: 'expense', color: '#10b981', icon: 'piggy-bank', isDefault: false, isActive: true });
+    await createTransaction(wallet.id, 8000, new Date(2024, 4, 1), { type: 'expense', categoryId: savings.id });
+    await createTransaction(wallet.id, 9000, new Date(2023, 11, 1), { type: 'expense', categoryId: savings.id });
+    await createTransaction(fund.id, 2000, new Date(2024, 4, 2), { categoryId: savings.id });
+
+    const status = await goalService.getStatus(await createGoal({ categoryIds: [savings.id] }), asOf);
+    expect(status.saved).toBe(10000);
+  });
+
+  it('forgets a book once it is purged from the trash', async () => {
+    const goal = await createGoal();
+    await bookService.delete(fund.id);
+    await new TrashService().empty();
+
+    expect((await db.goals.get(goal.id))?.bookIds).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { db, openDatabase } from './database';
+import { AttachmentService, BookService, HistoryService, TransactionService, UndoService } from './services';
+
+describe('history middleware', () => {
+  beforeAll(async () => {
+    const result = await openDatabase();
+    expect(result.error).toBeUndefined();
+  });
+
+  it('records create, update and delete on a tracked table', async () => {
+    const bookService = new BookService();
+    const book = await bookService.create({ name: 'Cash', currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+    await bookService.update(book.id, { name: 'Wallet' });
+    await db.books.delete(book.id);
+
+    const entries = await new HistoryService().getForRecord('books', book.id);
+    const byAction = (action: string) => entries.filter(entry => entry.action === action);
+    expect(entries).toHaveLength(3);
+
+    expect(byAction('create')[0].after).toMatchObject({ name: 'Cash' });
+    expect(byAction('update')[0].before).toMatchObject({ name: 'Cash' });
+    expect(byAction('update')[0].after).toMatchObject({ name: 'Wallet' });
+    expect(byAction('delete')[0].before).toMatchObject({ name: 'Wallet' });
+    expect(byAction('delete')[0].after).toBeUndefined();
+  });
+
+  it('writes the change and its history in the same transaction', async () => {
+    const book = await new BookService().create({ name: 'Shop', currency: 'BDT', color: '#3b82f6', icon: 'store', isActive: true });
+
+    await expect(db.transaction('rw', db.books, db.history, async () => {
+      await db.books.update(book.id, { name: 'Store' });
+      throw new Error('Rolled back');
+    })).rejects.toThrow('Rolled back');
+
+    expect((await db.books.get(book.id))?.name).toBe('Shop');
+    const updates = (await new HistoryService().getForRecord('books', book.id)).filter(entry => entry.action === 'update');
+    expect(updates).toHaveLength(0);
+  });
+
+  it('keeps attachments out of the history', async () => {
+    const book = await new BookService().create({ name: 'Bank', currency: 'BDT', color: '#3b82f6', icon: 'bank', isActive: true });
+    const transaction = await new TransactionService().create({
+      bookId: book.id,
+      type: 'expense',
+      amount: 50000,
+      description: 'Rent',
+      date: new Date(2024, 0, 1),
+      isRecurring: false,
+      tags: [],
+      isReversed: false
+    });
+
+    const attachmentService = new AttachmentService();
+    await attachmentService.add(transaction.id, [{
+      id: 'receipt',
+      transactionId: '',
+      name: 'receipt.pdf',
+      type: 'application/pdf',
+      size: 4,
+      blob: new Blob(['%PDF']),
+      createdAt: new Date()
+    }]);
+
+    expect(await new HistoryService().getForRecord('attachments', 'receipt')).toHaveLength(0);
+    expect((await db.transactions.get(transaction.id))?.attachmentCount).toBe(1);
+
+    // Undoing the transaction's creation takes its attachments with it
+    await new UndoService().undo();
+    expect(await db.transactions.get(transaction.id)).toBeUndefined();
+    expect(await attachmentService.getForTransaction(transaction.id)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,131 @@
+import Dexie, { DBCore, DBCoreMutateRequest, DBCoreTable, DBCoreTransaction, IndexableType, Middleware } from 'dexie';
+import { HistoryEntry } from '../types';
+import { generateId } from './utils';
+
+// Every write to the tables below is recorded in the history table with
+// the record as it was before and after. This sits in Dexie's storage layer
+// rather than in the services so that bulk writes, modify() calls and
+// cascades are captured too, in the same transaction as the change itself.
+// Attachments are left out: the history is append-only, and copying every
+// file into it would keep the storage of removed files forever.
+
+export const HISTORY_TABLE = 'history';
+
+const trackedTables = ['books', 'segments', 'transactions', 'categories', 'recurringRules', 'exchangeRates', 'settings', 'trash', 'budgets', 'goals', 'parties', 'paymentModes', 'categorizationRules'];
+
+let currentActor = '';
+
+// Name stored with each change; set from the actorName setting on startup
+// and whenever it is edited.
+export const setHistoryActor = (actor: string): void => {
+  currentActor = actor;
+};
+
+// All changes made in one database transaction share an operationId, so a
+// book deletion and the transactions trashed with it read as one action.
+// The sequence numbers them in the order they were applied.
+interface Operation {
+  id: string;
+  sequence: number;
+}
+
+const operations = new WeakMap<DBCoreTransaction, Operation>();
+
+export const getOperationId = (trans: DBCoreTransaction): string | undefined => {
+  return operations.get(trans)?.id;
+};
+
+const isUnchanged = (before: unknown, after: unknown): boolean => {
+  return JSON.stringify(before) === JSON.stringify(after);
+};
+
+// Keys of the rows a write touches. Only a range delete has to read them.
+const getAffectedKeys = (table: DBCoreTable, req: DBCoreMutateRequest): Promise<IndexableType[]> => {
+  switch (req.type) {
+    case 'add':
+    case 'put':
+      return Dexie.Promise.resolve(req.keys || req.values.map(value => table.schema.primaryKey.extractKey!(value)));
+    case 'delete':
+      return Dexie.Promise.resolve(req.keys);
+    case 'deleteRange':
+      return table.query({
+        trans: req.trans,
+        values: false,
+        query: { index: table.schema.primaryKey, range: req.range }
+      }).then(({ result }) => result as IndexableType[]);
+  }
+};
+
+// The reads, the write and the history entries are chained on Dexie's own
+// promises. A native await here would drop Dexie's transaction zone, and
+// the layers below this one look the transaction up in that zone.
+const createHistoryTable = (down: DBCore, table: DBCoreTable): DBCoreTable => ({
+  ...table,
+  mutate: req => {
+    const operation = operations.get(req.trans);
+    // Upgrade transactions run before the history table exists
+    if (!operation) return table.mutate(req);
+
+    return getAffectedKeys(table, req).then(keys =>
+      table.getMany({ trans: req.trans, keys }).then((before: unknown[]) =>
+        table.mutate(req).then(response => {
+          const createdAt = new Date();
+
+          const entries: HistoryEntry[] = [];
+          keys.forEach((key, i) => {
+            if (response.failures[i]) return;
+
+            const previous = before[i];
+            const next: unknown = req.type === 'add' || req.type === 'put' ? req.values[i] : undefined;
+            if (!previous && !next) return;
+            if (previous && next && isUnchanged(previous, next)) return;
+
+            entries.push({
+              id: generateId(),
+              table: table.name,
+              recordId: String(key),
+              action: !previous ? 'create' : next ? 'update' : 'delete',
+              before: previous,
+              after: next,
+              actor: currentActor,
+              operationId: operation.id,
+              sequence: operation.sequence++,
+              createdAt
+            });
+          });
+
+          if (entries.length === 0) return response;
+          return down.table(HISTORY_TABLE)
+            .mutate({ type: 'add', trans: req.trans, values: entries })
+            .then(() => response);
+        })
+      )
+    );
+  }
+});
+
+export const historyMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'history',
+  create: down => {
+    const hasHistory = down.schema.tables.some(table => table.name === HISTORY_TABLE);
+
+    return {
+      ...down,
+      transaction: (stores, mode, options) => {
+        const tracked = hasHistory && mode === 'readwrite' && stores.some(store => trackedTables.includes(store));
+        const scope = tracked && !stores.includes(HISTORY_TABLE) ? [...stores, HISTORY_TABLE] : stores;
+        const trans = down.transaction(scope, mode, options);
+
+        if (tracked) {
+          operations.set(trans, { id: generateId(), sequence: 0 });
+        }
+        return trans;
+      },
+      table: name => {
+        const table = down.table(name);
+        return trackedTables.includes(name) ? createHistoryTable(down, table) : table;
+      }
+    };
+  }
+};
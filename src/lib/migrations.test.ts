@@ -0,0 +1,146 @@
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LATEST_VERSION, MIGRATION_LOG_KEY, migrations } from './migrations';
+
+const DB_NAME = 'CashLiteDB';
+
+// Creates the database as an older release of the app left it, declaring
+// the schema of every version up to `version` without their upgrades
+const createInstalled = async (version: number, seed: (installed: Dexie) => Promise<void>): Promise<void> => {
+  await Dexie.delete(DB_NAME);
+  const installed = new Dexie(DB_NAME);
+  for (const migration of migrations.filter(m => m.version <= version)) {
+    installed.version(migration.version).stores(migration.stores);
+  }
+  await installed.open();
+  await seed(installed);
+  installed.close();
+};
+
+// Every test gets a fresh `db`, as openDatabase only runs once per module
+const loadDatabase = async () => {
+  vi.resetModules();
+  return await import('./database');
+};
+
+describe('migrations', () => {
+  let close: (() => void) | undefined;
+
+  afterEach(() => {
+    close?.();
+    close = undefined;
+  });
+
+  it('are numbered in order', () => {
+    expect(migrations.map(m => m.version)).toEqual(migrations.map((_, index) => index + 1));
+  });
+
+  it('upgrade a first-release database to the latest version', async () => {
+    const createdAt = new Date(2023, 5, 1);
+    await createInstalled(1, async installed => {
+      await installed.table('books').add({ id: 'book-1', name: 'Cash', currency: 'BDT', segmentId: 'segment-1', color: '#3b82f6', icon: 'wallet', isActive: true, balance: -12.5, createdAt, updatedAt: createdAt });
+      await installed.table('segments').add({ id: 'segment-1', name: 'Home', color: '#3b82f6', isActive: true, totalBalance: -12.5, createdAt, updatedAt: createdAt });
+      await installed.table('categories').add({ id: 'cat-lunch', name: 'Lunch', type: 'expense', color: '#ef4444', icon: 'utensils', isDefault: false, isActive: true, createdAt, updatedAt: createdAt });
+      await installed.table('transactions').add({
+        id: 'transaction-1',
+        bookId: 'book-1',
+        type: 'expense',
+        amount: 12.5,
+        description: 'Café near office',
+        categoryId: 'cat-lunch',
+        date: createdAt,
+        createdAt,
+        updatedAt: createdAt,
+        isRecurring: false,
+        tags: ['work'],
+        isReversed: false
+      });
+      await installed.table('settings').add({ id: 'setting-1', key: 'baseCurrency', value: 'BDT', updatedAt: createdAt });
+    });
+
+    const { db, openDatabase } = await loadDatabase();
+    close = () => db.close();
+    const result = await openDatabase();
+
+    expect(result).toMatchObject({ success: true, fromVersion: 1, toVersion: LATEST_VERSION });
+    expect(result.applied.map(entry => entry.version)).toEqual(migrations.slice(1).map(m => m.version));
+    expect(result.backupId).toBeDefined();
+    expect(db.verno).toBe(LATEST_VERSION);
+
+    // v6: amounts in minor units
+    const transaction = await db.transactions.get('transaction-1');
+    expect(transaction).toMatchObject({ amount: 1250, description: 'Café near office', tags: ['work'] });
+    expect(await db.books.get('book-1')).toMatchObject({ balance: -1250 });
+    expect(await db.segments.get('segment-1')).toMatchObject({ totalBalance: -1250 });
+
+    // v7/v8: the same string ids, now as plain primary keys
+    for (const table of [db.books, db.segments, db.transactions, db.categories, db.settings, db.recurringRules, db.exchangeRates]) {
+      expect(table.schema.primKey.auto).toBe(false);
+    }
+    expect(db.tables.map(table => table.name).filter(name => name.startsWith('_'))).toEqual([]);
+    expect(await db.settings.where('key').equals('baseCurrency').first()).toMatchObject({ id: 'setting-1', value: 'BDT' });
+
+    // v12: search words, including the category name
+    expect(transaction?.searchWords).toEqual(expect.arrayContaining(['cafe', 'near', 'office', 'work', 'lunch']));
+    expect(await db.transactions.where('searchWords').startsWith('caf').primaryKeys()).toEqual(['transaction-1']);
+
+    const log = await db.settings.where('key').equals(MIGRATION_LOG_KEY).first();
+    expect(log?.value).toHaveLength(LATEST_VERSION - 1);
+  });
+
+  it('drop attachment history when upgrading past version 20', async () => {
+    const createdAt = new Date(2024, 0, 1);
+    const entry = (id: string, table: string) => ({ id, operationId: 'op-1', sequence: 0, table, recordId: 'record-1', action: 'create', actor: '', createdAt });
+    await createInstalled(20, async installed => {
+      await installed.table('history').bulkAdd([entry('history-1', 'attachments'), entry('history-2', 'transactions')]);
+    });
+
+    const { db, openDatabase } = await loadDatabase();
+    close = () => db.close();
+    const result = await openDatabase();
+
+    expect(result).toMatchObject({ success: true, fromVersion: 20, toVersion: LATEST_VERSION });
+    expect(await db.history.get('history-1')).toBeUndefined();
+    expect(await db.history.get('history-2')).toBeDefined();
+  });
+
+  it('recount balances from live transactions when upgrading past version 21', async () => {
+    const createdAt = new Date(2024, 0, 1);
+    const transaction = (id: string, bookId: string, type: string, amount: number, deletedAt?: Date) => ({
+      id, bookId, type, amount, description: 'Salary', date: createdAt, createdAt, updatedAt: createdAt, isRecurring: false, tags: [], isReversed: false, deletedAt
+    });
+    await createInstalled(21, async installed => {
+      await installed.table('segments').add({ id: 'segment-1', name: 'Family', color: '#3b82f6', isActive: true, totalBalance: 999, createdAt, updatedAt: createdAt });
+      await installed.table('books').bulkAdd([
+        { id: 'book-bdt', name: 'Cash', currency: 'BDT', segmentId: 'segment-1', color: '#3b82f6', icon: 'wallet', isActive: true, balance: 123, createdAt, updatedAt: createdAt },
+        { id: 'book-usd', name: 'Travel', currency: 'USD', segmentId: 'segment-1', color: '#3b82f6', icon: 'plane', isActive: true, balance: 0, createdAt, updatedAt: createdAt }
+      ]);
+      await installed.table('transactions').bulkAdd([
+        transaction('income', 'book-bdt', 'income', 50000),
+        transaction('expense', 'book-bdt', 'expense', 20000),
+        transaction('trashed', 'book-bdt', 'expense', 7000, createdAt),
+        transaction('travel', 'book-usd', 'income', 1000)
+      ]);
+      await installed.table('exchangeRates').add({ id: 'rate-1', fromCurrency: 'USD', toCurrency: 'BDT', rate: 110, date: createdAt, createdAt, updatedAt: createdAt });
+    });
+
+    const { db, openDatabase } = await loadDatabase();
+    close = () => db.close();
+    expect(await openDatabase()).toMatchObject({ success: true, fromVersion: 21 });
+
+    expect((await db.books.get('book-bdt'))?.balance).toBe(30000);
+    expect((await db.books.get('book-usd'))?.balance).toBe(1000);
+    expect((await db.segments.get('segment-1'))?.totalBalance).toBe(30000 + 110000);
+  });
+
+  it('leave an up-to-date database alone', async () => {
+    await createInstalled(LATEST_VERSION, async () => undefined);
+
+    const { db, openDatabase } = await loadDatabase();
+    close = () => db.close();
+    const result = await openDatabase();
+
+    expect(result).toMatchObject({ success: true, fromVersion: LATEST_VERSION, applied: [] });
+    expect(result.backupId).toBeUndefined();
+  });
+});
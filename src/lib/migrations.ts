@@ -0,0 +1,301 @@
+import { Transaction as DexieTransaction } from 'dexie';
+import { Book, Segment, Transaction, Category, RecurringRule, Settings, HistoryEntry, ExchangeRate } from '../types';
+import { convertMinorUnits, toMinorUnits } from './money';
+import { getSearchWords } from './search';
+
+// Every schema change is a new entry at the end of this list; entries are
+// never edited once released. `stores` only needs the tables that change
+// (null deletes a table), and `upgrade` runs inside the version-change
+// transaction to reshape or backfill existing rows.
+export interface Migration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  upgrade?: (tx: DexieTransaction) => Promise<void>;
+}
+
+export interface MigrationLogEntry {
+  version: number;
+  description: string;
+  appliedAt: Date;
+}
+
+export const MIGRATION_LOG_KEY = 'migrationLog';
+
+const tableNames = ['books', 'segments', 'transactions', 'categories', 'settings', 'recurringRules', 'exchangeRates'];
+
+const copyTable = async (tx: DexieTransaction, from: string, to: string): Promise<void> => {
+  const rows = await tx.table(from).toArray();
+  await tx.table(to).bulkAdd(rows);
+};
+
+// The rate in force today for the pair in either direction, as the
+// exchange rate service picks it. Kept here so the upgrade below does not
+// change if the service does.
+const getCurrentRate = (rates: ExchangeRate[], from: string, to: string): number | undefined => {
+  if (from === to) return 1;
+
+  const now = new Date();
+  const latest = (a: string, b: string) => rates
+    .filter(r => r.fromCurrency === a && r.toCurrency === b && r.date <= now)
+    .sort((x, y) => y.date.getTime() - x.date.getTime())[0];
+  const direct = latest(from, to);
+  const inverse = latest(to, from);
+
+  if (direct && (!inverse || direct.date >= inverse.date)) {
+    return direct.rate;
+  }
+  return inverse ? 1 / inverse.rate : undefined;
+};
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      books: '++id, name, segmentId, currency, isActive, createdAt, updatedAt',
+      segments: '++id, name, isActive, createdAt, updatedAt',
+      transactions: '++id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed',
+      categories: '++id, name, type, isDefault, isActive, createdAt, updatedAt',
+      settings: '++id, key, updatedAt'
+    }
+  },
+  {
+    version: 2,
+    description: 'Add recurring rules',
+    stores: {
+      recurringRules: '++id, bookId, frequency, nextDate, isPaused, isActive, createdAt, updatedAt'
+    }
+  },
+  {
+    version: 3,
+    description: 'Index reversal links',
+    stores: {
+      transactions: '++id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId'
+    }
+  },
+  {
+    version: 4,
+    description: 'Index transfer links',
+    stores: {
+      transactions: '++id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId, transferId'
+    }
+  },
+  {
+    version: 5,
+    description: 'Add exchange rates',
+    stores: {
+      exchangeRates: '++id, [fromCurrency+toCurrency], date, createdAt, updatedAt'
+    }
+  },
+  {
+    version: 6,
+    description: 'Store amounts as integer minor units',
+    stores: {},
+    upgrade: async tx => {
+      const books: Book[] = await tx.table('books').toArray();
+      const currencies: Record<string, string> = {};
+      for (const book of books) {
+        currencies[book.id] = book.currency;
+      }
+      const baseSetting: Settings | undefined = await tx.table('settings').where('key').equals('baseCurrency').first();
+      const baseCurrency = (baseSetting?.value as string | undefined) || 'BDT';
+
+      await tx.table('transactions').toCollection().modify((transaction: Transaction) => {
+        transaction.amount = toMinorUnits(transaction.amount, currencies[transaction.bookId] || 'BDT');
+      });
+      await tx.table('recurringRules').toCollection().modify((rule: RecurringRule) => {
+        rule.amount = toMinorUnits(rule.amount, currencies[rule.bookId] || 'BDT');
+      });
+      await tx.table('books').toCollection().modify((book: Book) => {
+        book.balance = toMinorUnits(book.balance, book.currency);
+      });
+      await tx.table('segments').toCollection().modify((segment: Segment) => {
+        segment.totalBalance = toMinorUnits(segment.totalBalance, baseCurrency);
+      });
+    }
+  },
+  // IndexedDB cannot change a primary key in place, so switching from
+  // auto-increment keys to the string IDs the services already write takes
+  // two steps: park every table in a copy, then recreate it.
+  {
+    version: 7,
+    description: 'Move tables aside to switch to string primary keys',
+    stores: Object.fromEntries(tableNames.flatMap(name => [[name, null], [`_${name}`, 'id']])),
+    upgrade: async tx => {
+      for (const name of tableNames) {
+        await copyTable(tx, name, `_${name}`);
+      }
+    }
+  },
+  {
+    version: 8,
+    description: 'Recreate tables with string primary keys',
+    stores: {
+      books: 'id, name, segmentId, currency, isActive, createdAt, updatedAt',
+      segments: 'id, name, isActive, createdAt, updatedAt',
+      transactions: 'id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId, transferId',
+      categories: 'id, name, type, isDefault, isActive, createdAt, updatedAt',
+      settings: 'id, key, updatedAt',
+      recurringRules: 'id, bookId, frequency, nextDate, isPaused, isActive, createdAt, updatedAt',
+      exchangeRates: 'id, [fromCurrency+toCurrency], date, createdAt, updatedAt',
+      ...Object.fromEntries(tableNames.map(name => [`_${name}`, null]))
+    },
+    upgrade: async tx => {
+      for (const name of tableNames) {
+        await copyTable(tx, `_${name}`, name);
+      }
+    }
+  },
+  {
+    version: 9,
+    description: 'Add trash for soft deletion',
+    stores: {
+      books: 'id, name, segmentId, currency, isActive, createdAt, updatedAt, trashId',
+      segments: 'id, name, isActive, createdAt, updatedAt, trashId',
+      transactions: 'id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId, transferId, trashId',
+      categories: 'id, name, type, isDefault, isActive, createdAt, updatedAt, trashId',
+      trash: 'id, itemType, deletedAt'
+    }
+  },
+  {
+    version: 10,
+    description: 'Add change history',
+    stores: {
+      history: 'id, [table+recordId], operationId, createdAt'
+    }
+  },
+  {
+    version: 11,
+    description: 'Add compound indexes for transaction queries',
+    stores: {
+      transactions: 'id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId, transferId, trashId, [bookId+date], [bookId+type+date], [categoryId+date]'
+    }
+  },
+  {
+    version: 12,
+    description: 'Add search word index',
+    stores: {
+      transactions: 'id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId, transferId, trashId, [bookId+date], [bookId+type+date], [categoryId+date], *searchWords'
+    },
+    upgrade: async tx => {
+      const categories: Category[] = await tx.table('categories').toArray();
+      const names = new Map(categories.map(category => [category.id, category.name]));
+
+      await tx.table('transactions').toCollection().modify((transaction: Transaction) => {
+        transaction.searchWords = getSearchWords(transaction, { categories: [transaction.categoryId && names.get(transaction.categoryId)] });
+      });
+    }
+  },
+  {
+    version: 13,
+    description: 'Add budgets',
+    stores: {
+      budgets: 'id, categoryId, bookId, segmentId, createdAt'
+    }
+  },
+  {
+    version: 14,
+    description: 'Add savings goals',
+    stores: {
+      goals: 'id, *bookIds, *categoryIds, createdAt'
+    }
+  },
+  {
+    version: 15,
+    description: 'Index split transaction categories',
+    stores: {
+      transactions: 'id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId, transferId, trashId, [bookId+date], [bookId+type+date], [categoryId+date], *searchWords, *splitCategoryIds'
+    }
+  },
+  {
+    version: 16,
+    description: 'Add attachments',
+    stores: {
+      attachments: 'id, transactionId, createdAt'
+    }
+  },
+  {
+    version: 17,
+    description: 'Add parties',
+    stores: {
+      parties: 'id, name, createdAt',
+      transactions: 'id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId, transferId, trashId, [bookId+date], [bookId+type+date], [categoryId+date], *searchWords, *splitCategoryIds, partyId'
+    }
+  },
+  {
+    version: 18,
+    description: 'Add payment modes',
+    stores: {
+      paymentModes: 'id, name, createdAt',
+      transactions: 'id, bookId, type, amount, date, categoryId, createdAt, updatedAt, isRecurring, recurringId, tags, isReversed, originalTransactionId, transferId, trashId, [bookId+date], [bookId+type+date], [categoryId+date], *searchWords, *splitCategoryIds, partyId, paymentModeId'
+    }
+  },
+  {
+    version: 19,
+    description: 'Add category parents',
+    stores: {
+      categories: 'id, name, type, isDefault, isActive, createdAt, updatedAt, trashId, parentId'
+    }
+  },
+  {
+    version: 20,
+    description: 'Add categorization rules',
+    stores: {
+      categorizationRules: 'id, priority, categoryId, paymentModeId, createdAt'
+    }
+  },
+  {
+    version: 21,
+    description: 'Drop attachment history',
+    stores: {},
+    // Attachments are no longer recorded; the copies of their files already
+    // in the history are removed to free the space
+    upgrade: async tx => {
+      await tx.table('history').filter((entry: HistoryEntry) => entry.table === 'attachments').delete();
+    }
+  },
+  {
+    version: 22,
+    description: 'Recompute stored balances',
+    stores: {},
+    // Balances are kept up to date by deltas since version 10, which carry
+    // forward any drift from before. They are counted once more from the
+    // live transactions, and segment totals from the books.
+    upgrade: async tx => {
+      const balances = new Map<string, number>();
+      await tx.table('transactions').each((transaction: Transaction) => {
+        if (transaction.deletedAt) return;
+        const effect = transaction.type === 'income' ? transaction.amount : -transaction.amount;
+        balances.set(transaction.bookId, (balances.get(transaction.bookId) ?? 0) + effect);
+      });
+      await tx.table('books').toCollection().modify((book: Book) => {
+        book.balance = balances.get(book.id) ?? 0;
+      });
+
+      const books: Book[] = await tx.table('books').toArray();
+      const rates: ExchangeRate[] = await tx.table('exchangeRates').toArray();
+      const baseSetting: Settings | undefined = await tx.table('settings').where('key').equals('baseCurrency').first();
+      const baseCurrency = (baseSetting?.value as string | undefined) || 'BDT';
+
+      // Summed per currency and converted, as the segment summary does;
+      // currencies without a rate to the base currency are left out
+      await tx.table('segments').toCollection().modify((segment: Segment) => {
+        const amounts = new Map<string, number>();
+        for (const book of books) {
+          if (book.segmentId !== segment.id || book.deletedAt) continue;
+          amounts.set(book.currency, (amounts.get(book.currency) ?? 0) + book.balance);
+        }
+
+        let total = 0;
+        for (const [currency, amount] of amounts) {
+          const rate = getCurrentRate(rates, currency, baseCurrency);
+          if (rate !== undefined) total += convertMinorUnits(amount, currency, baseCurrency, rate);
+        }
+        segment.totalBalance = total;
+      });
+    }
+  }
+];
+
+export const LATEST_VERSION = migrations[migrations.length - 1].version;
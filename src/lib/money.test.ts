@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { convertMinorUnits, getCurrencyPrecision, getInputStep, parseMoney, rescaleMinorUnits, toDecimalString, toMinorUnits } from './money';
+
+describe('getCurrencyPrecision', () => {
+  it('follows ISO 4217', () => {
+    expect(getCurrencyPrecision('BDT')).toBe(2);
+    expect(getCurrencyPrecision('JPY')).toBe(0);
+    expect(getCurrencyPrecision('KWD')).toBe(3);
+  });
+
+  it('falls back to 2 for unknown codes', () => {
+    expect(getCurrencyPrecision('not a currency')).toBe(2);
+  });
+});
+
+describe('parseMoney', () => {
+  it('reads grouped and signed input', () => {
+    expect(parseMoney('1,234.56', 'BDT')).toBe(123456);
+    expect(parseMoney(' -12.5 ', 'BDT')).toBe(-1250);
+    expect(parseMoney('+7', 'BDT')).toBe(700);
+    expect(parseMoney('.5', 'BDT')).toBe(50);
+    expect(parseMoney('3.', 'BDT')).toBe(300);
+  });
+
+  it('avoids floating-point noise', () => {
+    expect(parseMoney('0.29', 'USD')).toBe(29);
+    expect(parseMoney('1.15', 'USD')).toBe(115);
+    expect(parseMoney('19999999.99', 'BDT')).toBe(1999999999);
+  });
+
+  it('rounds extra decimals half up', () => {
+    expect(parseMoney('1.005', 'BDT')).toBe(101);
+    expect(parseMoney('1.004', 'BDT')).toBe(100);
+    expect(parseMoney('-1.005', 'BDT')).toBe(-101);
+    expect(parseMoney('12.5', 'JPY')).toBe(13);
+  });
+
+  it('keeps three decimals for KWD', () => {
+    expect(parseMoney('1.234', 'KWD')).toBe(1234);
+  });
+
+  it('rejects anything that is not a plain number', () => {
+    for (const input of ['', '.', '-', 'abc', '1.2.3', '1e3', '৳100']) {
+      expect(parseMoney(input, 'BDT')).toBeUndefined();
+    }
+  });
+});
+
+describe('toDecimalString', () => {
+  it('pads the minor units', () => {
+    expect(toDecimalString(123456, 'BDT')).toBe('1234.56');
+    expect(toDecimalString(5, 'BDT')).toBe('0.05');
+    expect(toDecimalString(-1250, 'BDT')).toBe('-12.50');
+    expect(toDecimalString(1234, 'KWD')).toBe('1.234');
+    expect(toDecimalString(1300, 'JPY')).toBe('1300');
+  });
+
+  it('round-trips through parseMoney', () => {
+    for (const amount of [0, 1, 99, 100, -4321, 1999999999]) {
+      expect(parseMoney(toDecimalString(amount, 'BDT'), 'BDT')).toBe(amount);
+    }
+  });
+});
+
+describe('conversions', () => {
+  it('scales to minor units', () => {
+    expect(toMinorUnits(12.5, 'BDT')).toBe(1250);
+    expect(toMinorUnits(12.5, 'JPY')).toBe(13);
+  });
+
+  it('rescales between precisions', () => {
+    expect(rescaleMinorUnits(1250, 'BDT', 'JPY')).toBe(13);
+    expect(rescaleMinorUnits(13, 'JPY', 'BDT')).toBe(1300);
+    expect(rescaleMinorUnits(1250, 'BDT', 'KWD')).toBe(12500);
+  });
+
+  it('rounds once when converting currencies', () => {
+    expect(convertMinorUnits(10000, 'USD', 'BDT', 109.5)).toBe(1095000);
+    expect(convertMinorUnits(10000, 'BDT', 'JPY', 1.3333)).toBe(133);
+  });
+
+  it('offers an input step per precision', () => {
+    expect(getInputStep('BDT')).toBe('0.01');
+    expect(getInputStep('KWD')).toBe('0.001');
+    expect(getInputStep('JPY')).toBe('1');
+  });
+});
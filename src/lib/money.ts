@@ -0,0 +1,95 @@
+// Amounts are stored as integers in the currency's minor unit (poisha,
+// cents, fils) so that sums and balances never pick up floating-point
+// noise. Everything that reads, writes or shows an amount goes through
+// this module.
+
+const precisionCache: Record<string, number> = {};
+
+// Number of decimals of a currency, taken from Intl's ISO 4217 data
+// (BDT and USD have 2, JPY has 0, KWD has 3).
+export const getCurrencyPrecision = (currency: string): number => {
+  if (!(currency in precisionCache)) {
+    try {
+      precisionCache[currency] = new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency
+      }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      precisionCache[currency] = 2;
+    }
+  }
+
+  return precisionCache[currency];
+};
+
+const getScale = (currency: string): number => {
+  return Math.pow(10, getCurrencyPrecision(currency));
+};
+
+export const toMinorUnits = (amount: number, currency: string): number => {
+  return Math.round(amount * getScale(currency));
+};
+
+export const fromMinorUnits = (amount: number, currency: string): number => {
+  return amount / getScale(currency);
+};
+
+// Parses user or CSV input such as "1,234.56" digit by digit rather than
+// through a float. Extra decimals are rounded half up. Returns undefined
+// when the input is not a plain number.
+export const parseMoney = (input: string, currency: string): number | undefined => {
+  const match = /^([-+])?(\d*)(?:\.(\d*))?$/.exec(input.replace(/[,\s]/g, ''));
+  if (!match || (!match[2] && !match[3])) return undefined;
+
+  const [, sign, whole, fraction = ''] = match;
+  const precision = getCurrencyPrecision(currency);
+  const kept = fraction.slice(0, precision).padEnd(precision, '0');
+
+  let amount = parseInt(whole || '0', 10) * getScale(currency) + parseInt(kept || '0', 10);
+  if (fraction.length > precision && parseInt(fraction[precision], 10) >= 5) {
+    amount += 1;
+  }
+
+  return sign === '-' ? -amount : amount;
+};
+
+// Plain decimal string without grouping, for form inputs and CSV export.
+export const toDecimalString = (amount: number, currency: string): string => {
+  const precision = getCurrencyPrecision(currency);
+  const scale = getScale(currency);
+  const sign = amount < 0 ? '-' : '';
+  const absolute = Math.abs(amount);
+  const whole = Math.floor(absolute / scale);
+
+  if (precision === 0) {
+    return `${sign}${whole}`;
+  }
+
+  const fraction = String(absolute % scale).padStart(precision, '0');
+  return `${sign}${whole}.${fraction}`;
+};
+
+// Smallest step for number inputs, e.g. "0.01" for BDT or "1" for JPY.
+export const getInputStep = (currency: string): string => {
+  const precision = getCurrencyPrecision(currency);
+  return precision === 0 ? '1' : `0.${'1'.padStart(precision, '0')}`;
+};
+
+export const formatMoney = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency
+  }).format(fromMinorUnits(amount, currency));
+};
+
+// Converts between currencies whose precisions may differ, rounding once
+// to the target currency's minor unit.
+export const convertMinorUnits = (amount: number, fromCurrency: string, toCurrency: string, rate: number): number => {
+  return Math.round(fromMinorUnits(amount, fromCurrency) * rate * getScale(toCurrency));
+};
+
+// Re-expresses an amount after a book switches to a currency with a
+// different number of decimals (e.g. BDT 12.50 becomes JPY 13).
+export const rescaleMinorUnits = (amount: number, fromCurrency: string, toCurrency: string): number => {
+  return Math.round(amount * getScale(toCurrency) / getScale(fromCurrency));
+};
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './database';
+import { queryTransactions } from './query';
+import { BookService, PartyService, TransactionService } from './services';
+import { Book, Party, Transaction } from '../types';
+
+const bookService = new BookService();
+const partyService = new PartyService();
+const transactionService = new TransactionService();
+
+const createBook = (name: string, currency: string) => bookService.create({ name, currency, color: '#3b82f6', icon: 'wallet', isActive: true });
+
+const createTransaction = (book: Book, party: Party, overrides: Partial<Transaction> = {}) => transactionService.create({
+  bookId: book.id,
+  type: 'expense',
+  amount: 10000,
+  description: 'Loan',
+  partyId: party.id,
+  date: new Date(2024, 0, 1),
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+beforeEach(async () => {
+  await db.parties.clear();
+});
+
+describe('PartyService', () => {
+  it('keeps names unique without regard to case or spaces', async () => {
+    const karim = await partyService.create({ name: '  Karim ' });
+
+    expect(karim.name).toBe('Karim');
+    await expect(partyService.create({ name: 'karim' })).rejects.toThrow('A party named "karim" already exists');
+    await expect(partyService.create({ name: ' ' })).rejects.toThrow('Party name is required');
+    expect((await partyService.getOrCreate('KARIM ')).id).toBe(karim.id);
+  });
+
+  it('makes transactions findable by the party name, also after a rename', async () => {
+    const book = await createBook('Cash', 'BDT');
+    const party = await partyService.create({ name: 'Rahim Traders' });
+    const transaction = await createTransaction(book, party);
+
+    expect((await queryTransactions({ searchText: 'rahim' })).map(t => t.id)).toEqual([transaction.id]);
+
+    await partyService.update(party.id, { name: 'Hossain Traders' });
+    expect(await queryTransactions({ searchText: 'rahim' })).toEqual([]);
+    expect((await queryTransactions({ searchText: 'hossain' })).map(t => t.id)).toEqual([transaction.id]);
+  });
+
+  it('sums the ledger per currency across books', async () => {
+    const cash = await createBook('Cash', 'BDT');
+    const travel = await createBook('Travel', 'USD');
+    const party = await partyService.create({ name: 'Karim' });
+
+    await createTransaction(cash, party, { amount: 10000 });
+    await createTransaction(cash, party, { type: 'income', amount: 4000, date: new Date(2024, 0, 5) });
+    await createTransaction(travel, party, { amount: 2500, date: new Date(2024, 0, 3) });
+    const trashed = await createTransaction(cash, party, { amount: 999 });
+    await transactionService.delete(trashed.id);
+
+    const ledger = await partyService.getLedger(party.id);
+    expect(ledger?.transactions.map(t => t.amount)).toEqual([4000, 2500, 10000]);
+    expect(ledger?.balances).toEqual([
+      { currency: 'BDT', amount: 6000 },
+      { currency: 'USD', amount: 2500 }
+    ]);
+    expect((await partyService.getBalances()).get(party.id)).toEqual(ledger?.balances);
+  });
+
+  it('leaves transactions in place when a party is deleted', async () => {
+    const book = await createBook('Cash', 'BDT');
+    const party = await partyService.create({ name: 'Karim' });
+    const transaction = await createTransaction(book, party);
+
+    await partyService.delete(party.id);
+
+    const stored = await db.transactions.get(transaction.id);
+    expect(stored).toBeDefined();
+    expect(stored?.partyId).toBeUndefined();
+    expect(await partyService.getById(party.id)).toBeUndefined();
+  });
+});
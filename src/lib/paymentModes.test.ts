@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './database';
+import { queryTransactions } from './query';
+import { BookService, ExportService, ImportService, PaymentModeService, TransactionService } from './services';
+import { Book, Transaction } from '../types';
+
+const bookService = new BookService();
+const paymentModeService = new PaymentModeService();
+const transactionService = new TransactionService();
+
+const createTransaction = (bookId: string, overrides: Partial<Transaction> = {}) => transactionService.create({
+  bookId,
+  type: 'expense',
+  amount: 5000,
+  description: 'Groceries',
+  date: new Date(2024, 0, 10),
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+describe('PaymentModeService', () => {
+  let book: Book;
+
+  beforeEach(async () => {
+    book = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+  });
+
+  it('starts with the common modes and keeps names unique', async () => {
+    expect((await paymentModeService.getAll()).map(m => m.name)).toEqual(expect.arrayContaining(['Cash', 'bKash', 'Card']));
+    await expect(paymentModeService.create(' cash ')).rejects.toThrow('A payment mode named "cash" already exists');
+
+    const rocket = await paymentModeService.create('Rocket');
+    await expect(paymentModeService.rename(rocket.id, 'Nagad')).rejects.toThrow('A payment mode named "Nagad" already exists');
+  });
+
+  it('filters and totals transactions by mode, leaving transfers out', async () => {
+    const other = await bookService.create({ name: 'Savings', currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+    const byCash = await createTransaction(book.id, { paymentModeId: 'mode-cash' });
+    await createTransaction(book.id, { type: 'income', amount: 20000, paymentModeId: 'mode-bkash' });
+    await createTransaction(book.id, { amount: 700 });
+    await transactionService.createTransfer({ fromBookId: book.id, toBookId: other.id, amount: 1000, description: 'Move', date: new Date(2024, 0, 12), tags: [] });
+
+    expect((await queryTransactions({ bookIds: [book.id], paymentModeIds: ['mode-cash'] })).map(t => t.id)).toEqual([byCash.id]);
+
+    const totals = await paymentModeService.getTotals(book.id, 2024, 1);
+    expect(totals).toHaveLength(3);
+    expect(totals).toEqual(expect.arrayContaining([
+      { paymentModeId: 'mode-cash', income: 0, expense: 5000 },
+      { paymentModeId: 'mode-bkash', income: 20000, expense: 0 },
+      { paymentModeId: undefined, income: 0, expense: 700 }
+    ]));
+  });
+
+  it('keeps transactions of a deleted mode', async () => {
+    const upay = await paymentModeService.create('Upay');
+    const transaction = await createTransaction(book.id, { paymentModeId: upay.id });
+
+    await paymentModeService.delete(upay.id);
+    expect((await db.transactions.get(transaction.id))?.paymentModeId).toBeUndefined();
+  });
+
+  it('reads and writes the mode in CSV files', async () => {
+    const csv = [
+      'Date,Time,Remark,Party,Category,Mode,Cash In,Cash Out,Balance',
+      '2024-01-10,10:00,Rice,,,CASH,,500,',
+      '2024-01-11,10:00,Fare,,,Rocket,,80,'
+    ].join('\n');
+
+    const result = await new ImportService().importCSV(csv, book.id);
+    expect(result.imported).toBe(2);
+
+    const rocket = await paymentModeService.findByName('rocket');
+    expect(result.transactions.map(t => t.paymentModeId)).toEqual(['mode-cash', rocket?.id]);
+    expect(result.transactions[0].notes).toBe('Rice');
+
+    const exported = (await new ExportService().exportToCSV(book.id)).split('\n');
+    expect(exported[0]).toBe('Date,Time,Type,Amount,Description,Notes,Category,Mode,Balance');
+    expect(exported.slice(1).some(row => row.includes(',Rocket,'))).toBe(true);
+  });
+});
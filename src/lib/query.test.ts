@@ -0,0 +1,95 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { db, openDatabase } from './database';
+import { queryTransactionPage, queryTransactions } from './query';
+import { FilterOptions, Transaction } from '../types';
+
+const makeTransaction = (index: number, overrides: Partial<Transaction> = {}): Transaction => ({
+  id: `t-${String(index).padStart(3, '0')}`,
+  bookId: index % 2 === 0 ? 'book-a' : 'book-b',
+  type: index % 3 === 0 ? 'income' : 'expense',
+  amount: 1000 + index,
+  // Three rows a day, so pages have to break ties on id
+  description: index % 4 === 0 ? 'Grocery run' : 'Bus fare',
+  date: new Date(2024, 0, 1 + Math.floor(index / 3)),
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+// Reads every page, checking that none comes back empty or oversized
+const readAllPages = async (filter: FilterOptions, pageSize: number): Promise<Transaction[]> => {
+  const rows: Transaction[] = [];
+  let page = await queryTransactionPage(filter, { pageSize });
+  rows.push(...page.transactions);
+
+  while (page.nextCursor) {
+    page = await queryTransactionPage(filter, { pageSize, cursor: page.nextCursor });
+    expect(page.transactions.length).toBeGreaterThan(0);
+    expect(page.transactions.length).toBeLessThanOrEqual(pageSize);
+    expect(page.total).toBeUndefined();
+    rows.push(...page.transactions);
+  }
+  return rows;
+};
+
+const ids = (transactions: Transaction[]) => transactions.map(t => t.id);
+
+describe('transaction pages', () => {
+  beforeAll(async () => {
+    const result = await openDatabase();
+    expect(result.error).toBeUndefined();
+
+    const now = new Date();
+    await db.books.bulkAdd(['book-a', 'book-b'].map(id => ({ id, name: id, currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true, balance: 0, createdAt: now, updatedAt: now })));
+    await db.transactions.bulkAdd(Array.from({ length: 40 }, (_, index) => makeTransaction(index)));
+    await db.transactions.add(makeTransaction(99, { deletedAt: now, trashId: 'trash-1' }));
+  });
+
+  const filters: [string, FilterOptions][] = [
+    ['no filter', {}],
+    ['one book', { bookIds: ['book-a'] }],
+    ['one type', { type: 'income' }],
+    ['a date range', { dateFrom: new Date(2024, 0, 3), dateTo: new Date(2024, 0, 9) }],
+    ['an amount range', { amountMin: 1005, amountMax: 1030 }],
+    ['search text', { searchText: 'grocery' }]
+  ];
+
+  for (const [name, filter] of filters) {
+    it(`covers every row once, in order, with ${name}`, async () => {
+      const expected = await queryTransactions(filter);
+      expect(expected.length).toBeGreaterThan(0);
+
+      for (const pageSize of [1, 4, 7, 50]) {
+        expect(ids(await readAllPages(filter, pageSize))).toEqual(ids(expected));
+      }
+    });
+  }
+
+  it('counts the matching rows on the first page only', async () => {
+    const page = await queryTransactionPage({ bookIds: ['book-b'] }, { pageSize: 5 });
+    expect(page.total).toBe(20);
+    expect(page.nextCursor).toEqual({ date: page.transactions[4].date, id: page.transactions[4].id });
+  });
+
+  it('leaves trashed rows out', async () => {
+    expect(ids(await readAllPages({}, 10))).not.toContain('t-099');
+  });
+
+  it('keeps later pages in place when rows are added above the cursor', async () => {
+    const first = await queryTransactionPage({}, { pageSize: 10 });
+    const expected = await queryTransactionPage({}, { pageSize: 10, cursor: first.nextCursor });
+
+    await db.transactions.add(makeTransaction(200, { date: new Date(2024, 5, 1) }));
+    const second = await queryTransactionPage({}, { pageSize: 10, cursor: first.nextCursor });
+
+    expect(ids(second.transactions)).toEqual(ids(expected.transactions));
+    await db.transactions.delete('t-200');
+  });
+
+  it('returns nothing for an empty book list', async () => {
+    expect(await queryTransactionPage({ bookIds: ['missing'] })).toEqual({ transactions: [], total: 0 });
+  });
+});
@@ -0,0 +1,276 @@
+import Dexie, { Collection, IndexableType } from 'dexie';
+import { db } from './database';
+import { Category, FilterOptions, PageOptions, Transaction, TransactionCursor, TransactionPage } from '../types';
+import { getSearchScore, getSearchWords, matchesSearch, tokenize } from './search';
+import { getCategoryIds } from './splits';
+import { withSubcategories } from './categories';
+
+// Turns FilterOptions into an index-backed query. Every filter that has an
+// index becomes a candidate plan; the one matching the fewest rows is read
+// and the remaining filters are applied in memory. Results come back newest
+// first, like the plain date scan they replace, or by relevance when
+// searching.
+
+interface QueryPlan {
+  // Rows come out in date order, so no sort is needed afterwards
+  ordered: boolean;
+  collection: () => Collection<Transaction>;
+}
+
+type KeyRange = [IndexableType, IndexableType];
+
+export const TRANSACTION_PAGE_SIZE = 50;
+
+// Same order as reading a date index backwards: newest first, then by id
+const compareNewestFirst = (a: Transaction, b: Transaction): number => {
+  return b.date.getTime() - a.date.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+};
+
+// Search results are ordered by score before date
+const isAfterCursor = (t: Transaction, cursor: TransactionCursor, score?: number): boolean => {
+  if (cursor.score !== undefined && score !== undefined && score !== cursor.score) {
+    return score < cursor.score;
+  }
+  return t.date < cursor.date || (t.date.getTime() === cursor.date.getTime() && t.id < cursor.id);
+};
+
+const matchesFilter = (t: Transaction, filter: FilterOptions, bookIds: string[] | undefined, queryWords: string[]): boolean => {
+  if (t.deletedAt) return false;
+  if (bookIds && !bookIds.includes(t.bookId)) return false;
+  if (filter.type && t.type !== filter.type) return false;
+  if (filter.dateFrom && t.date < filter.dateFrom) return false;
+  if (filter.dateTo && t.date > filter.dateTo) return false;
+  if (filter.categoryIds && filter.categoryIds.length > 0 && !getCategoryIds(t).some(id => filter.categoryIds!.includes(id))) return false;
+  if (filter.paymentModeIds && filter.paymentModeIds.length > 0 && !(t.paymentModeId && filter.paymentModeIds.includes(t.paymentModeId))) return false;
+  if (filter.amountMin !== undefined && t.amount < filter.amountMin) return false;
+  if (filter.amountMax !== undefined && t.amount > filter.amountMax) return false;
+
+  if (queryWords.length > 0 && !matchesSearch(t.searchWords ?? getSearchWords(t), queryWords)) return false;
+
+  if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => t.tags.includes(tag))) return false;
+
+  // Nested filters come from the search bar syntax; segments are not
+  // resolved inside them
+  const matchesNested = (nested: FilterOptions) => {
+    const nestedBookIds = nested.bookIds && nested.bookIds.length > 0 ? nested.bookIds : undefined;
+    return matchesFilter(t, nested, nestedBookIds, tokenize(nested.searchText));
+  };
+  if (filter.anyOf && !filter.anyOf.every(group => group.some(matchesNested))) return false;
+  if (filter.noneOf && filter.noneOf.some(matchesNested)) return false;
+
+  return true;
+};
+
+// bookIds and segmentIds narrow each other; undefined means any book
+const resolveBookIds = async (filter: FilterOptions): Promise<string[] | undefined> => {
+  let bookIds = filter.bookIds && filter.bookIds.length > 0 ? filter.bookIds : undefined;
+
+  if (filter.segmentIds && filter.segmentIds.length > 0) {
+    const books = await db.books.where('segmentId').anyOf(filter.segmentIds).toArray();
+    const segmentBookIds = books.map(b => b.id);
+    bookIds = bookIds ? bookIds.filter(id => segmentBookIds.includes(id)) : segmentBookIds;
+  }
+
+  return bookIds;
+};
+
+const hasCategoryFilter = (filter: FilterOptions): boolean => {
+  return (filter.categoryIds?.length ?? 0) > 0
+    || (filter.anyOf ?? []).some(group => group.some(hasCategoryFilter))
+    || (filter.noneOf ?? []).some(hasCategoryFilter);
+};
+
+const expandCategories = (filter: FilterOptions, categories: Category[]): FilterOptions => ({
+  ...filter,
+  categoryIds: filter.categoryIds && withSubcategories(categories, filter.categoryIds),
+  anyOf: filter.anyOf?.map(group => group.map(nested => expandCategories(nested, categories))),
+  noneOf: filter.noneOf?.map(nested => expandCategories(nested, categories))
+});
+
+// A category stands for its subcategories too, in nested filters as well
+const resolveCategories = async (filter: FilterOptions): Promise<FilterOptions> => {
+  if (!hasCategoryFilter(filter)) return filter;
+  return expandCategories(filter, await db.categories.toArray());
+};
+
+const getCandidatePlans = (filter: FilterOptions, bookIds: string[] | undefined, queryWords: string[]): QueryPlan[] => {
+  const from = filter.dateFrom ?? Dexie.minKey;
+  const to = filter.dateTo ?? Dexie.maxKey;
+  const inRanges = (index: string, ranges: KeyRange[]) => () =>
+    db.transactions.where(index).inAnyRange(ranges, { includeUppers: true });
+  const plans: QueryPlan[] = [];
+
+  // Ranges over several books or categories come out grouped by key first
+  if (bookIds && filter.type) {
+    const type = filter.type;
+    plans.push({
+      ordered: bookIds.length === 1,
+      collection: inRanges('[bookId+type+date]', bookIds.map(id => [[id, type, from], [id, type, to]]))
+    });
+  } else if (bookIds) {
+    plans.push({
+      ordered: bookIds.length === 1,
+      collection: inRanges('[bookId+date]', bookIds.map(id => [[id, from], [id, to]]))
+    });
+  }
+
+  // Split transactions are only found through their split categories, and
+  // joining those in loses the date order
+  if (filter.categoryIds && filter.categoryIds.length > 0) {
+    const categoryIds = filter.categoryIds;
+    plans.push({
+      ordered: false,
+      collection: () => inRanges('[categoryId+date]', categoryIds.map(id => [[id, from], [id, to]]))()
+        .or('splitCategoryIds').anyOf(categoryIds)
+        .distinct()
+    });
+  }
+
+  if (filter.paymentModeIds && filter.paymentModeIds.length > 0) {
+    const paymentModeIds = filter.paymentModeIds;
+    plans.push({
+      ordered: false,
+      collection: () => db.transactions.where('paymentModeId').anyOf(paymentModeIds)
+    });
+  }
+
+  if (filter.dateFrom || filter.dateTo) {
+    plans.push({
+      ordered: true,
+      collection: () => db.transactions.where('date').between(from, to, true, true)
+    });
+  }
+
+  if (filter.amountMin !== undefined || filter.amountMax !== undefined) {
+    plans.push({
+      ordered: false,
+      collection: () => db.transactions.where('amount').between(filter.amountMin ?? Dexie.minKey, filter.amountMax ?? Dexie.maxKey, true, true)
+    });
+  }
+
+  // The longest query word has the narrowest prefix range. A transaction
+  // can have several words with the prefix, hence distinct().
+  if (queryWords.length > 0) {
+    const longest = queryWords.reduce((a, b) => b.length > a.length ? b : a);
+    plans.push({
+      ordered: false,
+      collection: () => db.transactions.where('searchWords').startsWith(longest).distinct()
+    });
+  }
+
+  return plans;
+};
+
+const fullScan: QueryPlan = {
+  ordered: true,
+  collection: () => db.transactions.orderBy('date')
+};
+
+// Index counts are cheap, so candidates are compared on the actual number
+// of rows they would read rather than on a guess
+const choosePlan = async (plans: QueryPlan[]): Promise<QueryPlan> => {
+  if (plans.length === 0) return fullScan;
+  if (plans.length === 1) return plans[0];
+
+  const counts = await Promise.all(plans.map(plan => plan.collection().count()));
+  const best = counts.indexOf(Math.min(...counts));
+  return plans[best];
+};
+
+interface RankedTransaction {
+  transaction: Transaction;
+  score: number;
+}
+
+const rankBySearch = async (transactions: Transaction[], queryWords: string[]): Promise<RankedTransaction[]> => {
+  const categories = await db.categories.toArray();
+  const names = new Map(categories.map(c => [c.id, c.name]));
+  const parties = await db.parties.toArray();
+  const partyNames = new Map(parties.map(p => [p.id, p.name]));
+
+  return transactions
+    .map(transaction => ({
+      transaction,
+      score: getSearchScore(transaction, queryWords, {
+        categories: getCategoryIds(transaction).map(id => names.get(id)),
+        party: transaction.partyId && partyNames.get(transaction.partyId)
+      })
+    }))
+    .sort((a, b) => b.score - a.score || compareNewestFirst(a.transaction, b.transaction));
+};
+
+export const queryTransactions = async (filter: FilterOptions = {}): Promise<Transaction[]> => {
+  filter = await resolveCategories(filter);
+  const bookIds = await resolveBookIds(filter);
+  if (bookIds && bookIds.length === 0) return [];
+
+  const queryWords = tokenize(filter.searchText);
+  const plan = await choosePlan(getCandidatePlans(filter, bookIds, queryWords));
+  const collection = plan.ordered ? plan.collection().reverse() : plan.collection();
+  const transactions = await collection.filter(t => matchesFilter(t, filter, bookIds, queryWords)).toArray();
+
+  if (queryWords.length > 0) {
+    return (await rankBySearch(transactions, queryWords)).map(ranked => ranked.transaction);
+  }
+  return plan.ordered ? transactions : transactions.sort(compareNewestFirst);
+};
+
+const countTransactions = async (filter: FilterOptions, bookIds: string[] | undefined): Promise<number> => {
+  const plan = await choosePlan(getCandidatePlans(filter, bookIds, []));
+  return await plan.collection().filter(t => matchesFilter(t, filter, bookIds, [])).count();
+};
+
+// Search results are few enough to rank in full, so each page is cut from
+// the ranked list
+const querySearchPage = async (filter: FilterOptions, bookIds: string[] | undefined, queryWords: string[], options: PageOptions): Promise<TransactionPage> => {
+  const { cursor, pageSize = TRANSACTION_PAGE_SIZE } = options;
+
+  const plan = await choosePlan(getCandidatePlans(filter, bookIds, queryWords));
+  const matches = await plan.collection().filter(t => matchesFilter(t, filter, bookIds, queryWords)).toArray();
+  const ranked = (await rankBySearch(matches, queryWords))
+    .filter(({ transaction, score }) => !cursor || isAfterCursor(transaction, cursor, score));
+  const page = ranked.slice(0, pageSize);
+
+  const last = page[page.length - 1];
+  return {
+    transactions: page.map(({ transaction }) => transaction),
+    nextCursor: ranked.length > pageSize ? { date: last.transaction.date, id: last.transaction.id, score: last.score } : undefined,
+    total: cursor ? undefined : ranked.length
+  };
+};
+
+// Keyset pagination: each page starts strictly after the cursor, so rows
+// added or removed above it do not shift later pages.
+export const queryTransactionPage = async (filter: FilterOptions = {}, options: PageOptions = {}): Promise<TransactionPage> => {
+  const { cursor, pageSize = TRANSACTION_PAGE_SIZE } = options;
+  filter = await resolveCategories(filter);
+  const bookIds = await resolveBookIds(filter);
+  if (bookIds && bookIds.length === 0) return { transactions: [], total: 0 };
+
+  const queryWords = tokenize(filter.searchText);
+  if (queryWords.length > 0) {
+    return await querySearchPage(filter, bookIds, queryWords, options);
+  }
+
+  // Everything after the cursor is on or before its date, which lets the
+  // date part of the index skip the pages already read
+  const pageFilter = cursor && (!filter.dateTo || cursor.date < filter.dateTo)
+    ? { ...filter, dateTo: cursor.date }
+    : filter;
+  const matches = (t: Transaction) => matchesFilter(t, pageFilter, bookIds, []) && (!cursor || isAfterCursor(t, cursor));
+
+  // One row past the page tells whether there is another one, so a full
+  // last page does not hand out a cursor to an empty one
+  const plan = await choosePlan(getCandidatePlans(pageFilter, bookIds, []));
+  const rows = plan.ordered
+    ? await plan.collection().reverse().filter(matches).limit(pageSize + 1).toArray()
+    : (await plan.collection().filter(matches).toArray()).sort(compareNewestFirst).slice(0, pageSize + 1);
+  const transactions = rows.slice(0, pageSize);
+
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor: rows.length > pageSize ? { date: last.date, id: last.id } : undefined,
+    total: cursor ? undefined : await countTransactions(filter, bookIds)
+  };
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { applyQuery, getSuggestions, parseQuery, QueryContext } from './queryLanguage';
+import { Book, Category } from '../types';
+
+const createdAt = new Date(2024, 0, 1);
+
+const categories: Category[] = [
+  { id: 'cat-food', name: 'Food & Dining', type: 'expense', color: '#ef4444', icon: 'utensils', isDefault: true, isActive: true, createdAt, updatedAt: createdAt },
+  { id: 'cat-transport', name: 'Transportation', type: 'expense', color: '#f59e0b', icon: 'car', isDefault: true, isActive: true, createdAt, updatedAt: createdAt }
+];
+
+const books: Book[] = [
+  { id: 'book-shop', name: 'Shop', currency: 'BDT', color: '#3b82f6', icon: 'store', isActive: true, balance: 0, createdAt, updatedAt: createdAt },
+  { id: 'book-home', name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true, balance: 0, createdAt, updatedAt: createdAt }
+];
+
+const context: QueryContext = { categories, books, currency: 'BDT', now: new Date(2024, 2, 15, 12) };
+
+const parse = (query: string) => parseQuery(query, context);
+
+describe('parseQuery', () => {
+  it('ANDs keyed terms into one filter', () => {
+    expect(parse('amount>500 cat:food tag:trip book:shop type:expense')).toEqual({
+      filter: { amountMin: 50001, categoryIds: ['cat-food'], tags: ['trip'], bookIds: ['book-shop'], type: 'expense' },
+      errors: []
+    });
+  });
+
+  it('reads amounts in minor units of the given currency', () => {
+    expect(parse('amount>=500').filter).toEqual({ amountMin: 50000 });
+    expect(parse('amount<12.5').filter).toEqual({ amountMax: 1249 });
+    expect(parse('amount:1,000').filter).toEqual({ amountMin: 100000, amountMax: 100000 });
+  });
+
+  it('keeps words without a key as search text', () => {
+    expect(parse('coffee "corner shop"').filter).toEqual({ searchText: 'coffee corner shop' });
+  });
+
+  it('accepts key aliases and quoted values', () => {
+    expect(parse('category:"food & dining" tags:trip').filter).toEqual({ categoryIds: ['cat-food'], tags: ['trip'] });
+  });
+
+  it('negates terms and groups', () => {
+    expect(parse('-tag:work').filter).toEqual({ noneOf: [{ tags: ['work'] }] });
+    expect(parse('-(tag:a tag:b)').filter).toEqual({ noneOf: [{ tags: ['a'], anyOf: [[{ tags: ['b'] }]] }] });
+  });
+
+  it('matches either side of OR', () => {
+    expect(parse('tag:a OR tag:b | tag:c').filter).toEqual({ anyOf: [[{ tags: ['a'] }, { tags: ['b'] }, { tags: ['c'] }]] });
+    expect(parse('type:income (cat:food OR cat:transport)').filter).toEqual({
+      type: 'income',
+      anyOf: [[{ categoryIds: ['cat-food'] }, { categoryIds: ['cat-transport'] }]]
+    });
+  });
+
+  it('keeps clashing terms as separate conditions', () => {
+    expect(parse('tag:a tag:b').filter).toEqual({ tags: ['a'], anyOf: [[{ tags: ['b'] }]] });
+  });
+
+  it('turns dates into whole days', () => {
+    expect(parse('on:2024-01-05').filter).toEqual({ dateFrom: new Date(2024, 0, 5), dateTo: new Date(2024, 0, 5, 23, 59, 59, 999) });
+    expect(parse('after:2024-01-05').filter).toEqual({ dateFrom: new Date(2024, 0, 6) });
+    expect(parse('before:2024-01-05').filter).toEqual({ dateTo: new Date(2024, 0, 4, 23, 59, 59, 999) });
+  });
+
+  it('counts relative periods from now', () => {
+    expect(parse('last:7d').filter).toEqual({ dateFrom: new Date(2024, 2, 8), dateTo: new Date(2024, 2, 15, 23, 59, 59, 999) });
+    expect(parse('this:month').filter).toEqual({ dateFrom: new Date(2024, 2, 1), dateTo: new Date(2024, 2, 31, 23, 59, 59, 999) });
+  });
+
+  it('reports bad terms with their position and drops them', () => {
+    expect(parse('foo:bar coffee')).toEqual({
+      filter: { searchText: 'coffee' },
+      errors: [{ message: 'Unknown filter "foo"', start: 0, end: 7 }]
+    });
+    expect(parse('amount:abc').errors).toEqual([{ message: '"abc" is not an amount', start: 0, end: 10 }]);
+    expect(parse('cat:xyz').errors).toEqual([{ message: 'No category matches "xyz"', start: 0, end: 7 }]);
+    expect(parse('cat>food').errors).toEqual([{ message: '"cat" only supports ":"', start: 0, end: 8 }]);
+    expect(parse('on:2024-13-01').errors).toEqual([{ message: '"2024-13-01" is not a date; use YYYY-MM-DD', start: 0, end: 13 }]);
+    expect(parse('tag:').errors).toEqual([{ message: '"tag:" needs a value', start: 0, end: 4 }]);
+  });
+
+  it('reports unbalanced parentheses and dangling ORs', () => {
+    expect(parse('(tag:a').errors).toEqual([{ message: 'Missing closing parenthesis', start: 0, end: 1 }]);
+    expect(parse('tag:a) tag:b')).toEqual({
+      filter: { tags: ['a'], anyOf: [[{ tags: ['b'] }]] },
+      errors: [{ message: 'Unexpected closing parenthesis', start: 5, end: 6 }]
+    });
+    expect(parse('OR tag:a').errors).toEqual([{ message: 'OR needs a term on both sides', start: 0, end: 2 }]);
+    expect(parse('tag:a OR').errors).toEqual([{ message: 'OR needs a term on both sides', start: 6, end: 8 }]);
+  });
+
+  it('returns an empty filter for an empty query', () => {
+    expect(parse('   ')).toEqual({ filter: {}, errors: [] });
+  });
+});
+
+describe('applyQuery', () => {
+  it('lets the query win over the filter panel', () => {
+    expect(applyQuery({ type: 'income', tags: ['a'] }, { tags: ['b'] }, ['book-home'])).toEqual({ type: 'income', tags: ['b'], bookIds: ['book-home'] });
+  });
+
+  it('stays in the given books unless the query names one', () => {
+    expect(applyQuery({ bookIds: ['book-home'] }, {}, ['book-home']).bookIds).toEqual(['book-home']);
+    expect(applyQuery({ bookIds: ['book-home'] }, { bookIds: ['book-shop'] }, ['book-home']).bookIds).toEqual(['book-shop']);
+  });
+});
+
+describe('getSuggestions', () => {
+  const suggestionContext = { categories, books, tags: ['trip', 'travel', 'work'] };
+
+  it('suggests keys for a bare word', () => {
+    expect(getSuggestions('ca', 2, suggestionContext)).toEqual([{ label: 'cat:', text: 'cat:', start: 0, end: 2 }]);
+  });
+
+  it('suggests names once a key is typed, quoting them when needed', () => {
+    expect(getSuggestions('cat:fo', 6, suggestionContext)).toEqual([
+      { label: 'Food & Dining', text: 'cat:"Food & Dining" ', start: 0, end: 6 }
+    ]);
+  });
+
+  it('keeps the negation and replaces only the term at the caret', () => {
+    expect(getSuggestions('coffee -tag:tr', 14, suggestionContext).map(s => s.text)).toEqual(['-tag:trip ', '-tag:travel ']);
+    expect(getSuggestions('coffee -tag:tr', 14, suggestionContext)[0]).toMatchObject({ start: 7, end: 14 });
+  });
+
+  it('offers nothing between terms', () => {
+    expect(getSuggestions('tag:trip ', 9, suggestionContext)).toEqual([]);
+  });
+});
@@ -0,0 +1,375 @@
+import { addDays, endOfDay, endOfMonth, endOfWeek, endOfYear, isValid, parseISO, startOfDay, startOfMonth, startOfWeek, startOfYear, subDays, subMonths, subWeeks, subYears } from 'date-fns';
+import { Book, Category, FilterOptions } from '../types';
+import { parseMoney } from './money';
+import { matchesSearch, normalizeText, tokenize } from './search';
+
+// Search bar syntax, e.g.
+//
+//   amount>500 cat:food tag:trip -tag:work after:2024-01-01 book:Shop
+//
+// Terms are ANDed; `a OR b` matches either side and binds tighter than AND;
+// parentheses group terms and a leading `-` negates a term or group. Words
+// without a key are a full-text search. Values with spaces go in quotes.
+
+export interface QueryContext {
+  categories: Category[];
+  books: Book[];
+  currency: string; // Amounts are typed in this currency
+  now?: Date;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  filter: FilterOptions;
+  errors: QueryError[];
+}
+
+type Operator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+type Token =
+  | { kind: 'term'; negated: boolean; text: string; start: number; end: number }
+  | { kind: 'open'; negated: boolean; start: number; end: number }
+  | { kind: 'close' | 'or'; start: number; end: number };
+
+type TermNode = Extract<Token, { kind: 'term' }>;
+
+interface GroupNode {
+  kind: 'and' | 'or';
+  negated: boolean;
+  children: Node[];
+}
+
+type Node = TermNode | GroupNode;
+
+export const QUERY_KEYS = ['amount', 'cat', 'tag', 'book', 'type', 'after', 'before', 'on', 'last', 'this'];
+
+const keyAliases: Record<string, string> = { category: 'cat', tags: 'tag' };
+
+const periods = ['today', 'week', 'month', 'year'];
+
+const tokenizeQuery = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || (char === '-' && query[i + 1] === '(')) {
+      const negated = char === '-';
+      tokens.push({ kind: 'open', negated, start: i, end: i + (negated ? 2 : 1) });
+      i += negated ? 2 : 1;
+    } else if (char === ')') {
+      tokens.push({ kind: 'close', start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      let inQuotes = false;
+      while (i < query.length && (inQuotes || !/[\s()]/.test(query[i]))) {
+        if (query[i] === '"') inQuotes = !inQuotes;
+        i++;
+      }
+
+      const raw = query.slice(start, i);
+      if (raw === 'OR' || raw === '|') {
+        tokens.push({ kind: 'or', start, end: i });
+      } else {
+        const negated = raw.startsWith('-') && raw.length > 1;
+        tokens.push({ kind: 'term', negated, text: negated ? raw.slice(1) : raw, start, end: i });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// Recursive descent over: and := or*; or := unary (OR unary)*;
+// unary := term | '(' and ')'
+const parseTokens = (tokens: Token[], errors: QueryError[]): Node => {
+  let position = 0;
+
+  const parseAnd = (negated: boolean): GroupNode => {
+    const children: Node[] = [];
+    while (position < tokens.length && tokens[position].kind !== 'close') {
+      const token = tokens[position];
+      if (token.kind === 'or') {
+        errors.push({ message: 'OR needs a term on both sides', start: token.start, end: token.end });
+        position++;
+        continue;
+      }
+      children.push(parseOr());
+    }
+    return { kind: 'and', negated, children };
+  };
+
+  const parseOr = (): Node => {
+    const children = [parseUnary()];
+    while (tokens[position]?.kind === 'or') {
+      const or = tokens[position++];
+      const next = tokens[position];
+      if (!next || next.kind === 'close' || next.kind === 'or') {
+        errors.push({ message: 'OR needs a term on both sides', start: or.start, end: or.end });
+        break;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', negated: false, children };
+  };
+
+  const parseUnary = (): Node => {
+    const token = tokens[position++];
+    if (token.kind === 'term') {
+      return token;
+    }
+
+    // Only 'open' can get here; parseAnd stops at 'close' and skips 'or'
+    const open = token as Extract<Token, { kind: 'open' }>;
+    const group = parseAnd(open.negated);
+    if (tokens[position]?.kind === 'close') {
+      position++;
+    } else {
+      errors.push({ message: 'Missing closing parenthesis', start: open.start, end: open.end });
+    }
+    return group;
+  };
+
+  // A stray ')' is reported and parsing carries on after it
+  const root = parseAnd(false);
+  while (position < tokens.length) {
+    const stray = tokens[position++];
+    errors.push({ message: 'Unexpected closing parenthesis', start: stray.start, end: stray.end });
+    root.children.push(...parseAnd(false).children);
+  }
+  return root;
+};
+
+const unquote = (value: string): string => value.replace(/"/g, '');
+
+// Names match when every word typed starts a word of the name, so
+// `cat:food` finds "Food & Dining"
+const findByName = <T extends { id: string; name: string }>(items: T[], value: string): T[] => {
+  const queryWords = tokenize(value);
+  const exact = items.filter(item => normalizeText(item.name) === normalizeText(value));
+  if (exact.length > 0) return exact;
+  return queryWords.length === 0 ? [] : items.filter(item => matchesSearch(tokenize(item.name), queryWords));
+};
+
+const parseDate = (value: string): Date | undefined => {
+  const date = parseISO(value);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(date) ? date : undefined;
+};
+
+const termToFilter = (term: TermNode, context: QueryContext): FilterOptions | string => {
+  const match = /^([a-zA-Z]+)(>=|<=|:|=|>|<)(.*)$/.exec(term.text);
+  if (!match || term.text.startsWith('"')) {
+    return { searchText: unquote(term.text) };
+  }
+
+  const [, rawKey, op, rawValue] = match;
+  const key = keyAliases[rawKey.toLowerCase()] ?? rawKey.toLowerCase();
+  const operator = op as Operator;
+  const value = unquote(rawValue);
+  const now = context.now ?? new Date();
+
+  if (!QUERY_KEYS.includes(key)) return `Unknown filter "${rawKey}"`;
+  if (!value) return `"${rawKey}${op}" needs a value`;
+  if (key !== 'amount' && operator !== ':' && operator !== '=') return `"${rawKey}" only supports ":"`;
+
+  switch (key) {
+    case 'amount': {
+      const amount = parseMoney(value, context.currency);
+      if (amount === undefined || amount < 0) return `"${value}" is not an amount`;
+      switch (operator) {
+        case '>': return { amountMin: amount + 1 };
+        case '>=': return { amountMin: amount };
+        case '<': return { amountMax: amount - 1 };
+        case '<=': return { amountMax: amount };
+        default: return { amountMin: amount, amountMax: amount };
+      }
+    }
+    case 'cat': {
+      const categories = findByName(context.categories, value);
+      return categories.length > 0 ? { categoryIds: categories.map(c => c.id) } : `No category matches "${value}"`;
+    }
+    case 'book': {
+      const books = findByName(context.books, value);
+      return books.length > 0 ? { bookIds: books.map(b => b.id) } : `No book matches "${value}"`;
+    }
+    case 'tag':
+      return { tags: [value] };
+    case 'type': {
+      const type = value.toLowerCase();
+      return type === 'income' || type === 'expense' ? { type } : 'Type is "income" or "expense"';
+    }
+    case 'after':
+    case 'before':
+    case 'on': {
+      const date = parseDate(value);
+      if (!date) return `"${value}" is not a date; use YYYY-MM-DD`;
+      if (key === 'after') return { dateFrom: startOfDay(addDays(date, 1)) };
+      if (key === 'before') return { dateTo: endOfDay(addDays(date, -1)) };
+      return { dateFrom: startOfDay(date), dateTo: endOfDay(date) };
+    }
+    case 'last': {
+      const period = /^(\d+)([dwmy])$/.exec(value.toLowerCase());
+      if (!period) return `"${value}" is not a period; use e.g. 30d, 2w, 6m or 1y`;
+      const count = parseInt(period[1], 10);
+      const subtract = { d: subDays, w: subWeeks, m: subMonths, y: subYears }[period[2] as 'd' | 'w' | 'm' | 'y'];
+      return { dateFrom: startOfDay(subtract(now, count)), dateTo: endOfDay(now) };
+    }
+    case 'this': {
+      switch (value.toLowerCase()) {
+        case 'today': return { dateFrom: startOfDay(now), dateTo: endOfDay(now) };
+        case 'week': return { dateFrom: startOfWeek(now), dateTo: endOfWeek(now) };
+        case 'month': return { dateFrom: startOfMonth(now), dateTo: endOfMonth(now) };
+        case 'year': return { dateFrom: startOfYear(now), dateTo: endOfYear(now) };
+        default: return `"${value}" is not a period; use ${periods.join(', ')}`;
+      }
+    }
+  }
+
+  return `Unknown filter "${rawKey}"`;
+};
+
+// ANDs filters into one. Plain fields are merged while they do not clash;
+// anything else is kept as a group of its own so both conditions apply.
+const combineAll = (filters: FilterOptions[]): FilterOptions => {
+  const combined: FilterOptions = {};
+
+  for (const filter of filters) {
+    const { anyOf, noneOf, searchText, ...fields } = filter;
+    if (anyOf) combined.anyOf = [...(combined.anyOf || []), ...anyOf];
+    if (noneOf) combined.noneOf = [...(combined.noneOf || []), ...noneOf];
+    if (searchText) combined.searchText = combined.searchText ? `${combined.searchText} ${searchText}` : searchText;
+
+    const keys = Object.keys(fields) as (keyof FilterOptions)[];
+    if (keys.length === 0) continue;
+
+    if (keys.some(key => combined[key] !== undefined)) {
+      combined.anyOf = [...(combined.anyOf || []), [fields]];
+    } else {
+      Object.assign(combined, fields);
+    }
+  }
+
+  return combined;
+};
+
+const nodeToFilter = (node: Node, context: QueryContext, errors: QueryError[]): FilterOptions | undefined => {
+  let filter: FilterOptions | undefined;
+
+  if (node.kind === 'term') {
+    const result = termToFilter(node, context);
+    if (typeof result === 'string') {
+      errors.push({ message: result, start: node.start, end: node.end });
+      return undefined;
+    }
+    filter = result;
+  } else {
+    const children = node.children
+      .map(child => nodeToFilter(child, context, errors))
+      .filter((child): child is FilterOptions => !!child);
+    if (children.length === 0) return undefined;
+
+    filter = node.kind === 'or' && children.length > 1
+      ? { anyOf: [children] }
+      : combineAll(children);
+  }
+
+  return node.negated ? { noneOf: [filter] } : filter;
+};
+
+export const parseQuery = (query: string, context: QueryContext): ParsedQuery => {
+  const errors: QueryError[] = [];
+  const root = parseTokens(tokenizeQuery(query), errors);
+  const filter = nodeToFilter(root, context, errors) ?? {};
+  return { filter, errors: errors.sort((a, b) => a.start - b.start) };
+};
+
+// Search bar terms win over the filter panel; without a book: term the
+// query stays in the given books
+export const applyQuery = (filter: FilterOptions, parsed: FilterOptions, defaultBookIds: string[]): FilterOptions => {
+  const { bookIds, ...rest } = parsed;
+  return { ...filter, ...rest, bookIds: bookIds || defaultBookIds };
+};
+
+export interface QuerySuggestion {
+  label: string;
+  // Replaces query.slice(start, end)
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SuggestionContext {
+  categories: Category[];
+  books: Book[];
+  tags: string[];
+}
+
+const SUGGESTION_LIMIT = 8;
+
+const keyHints: Record<string, string> = {
+  amount: 'amount>',
+  cat: 'cat:',
+  tag: 'tag:',
+  book: 'book:',
+  type: 'type:',
+  after: 'after:',
+  before: 'before:',
+  on: 'on:',
+  last: 'last:',
+  this: 'this:'
+};
+
+const quoteIfNeeded = (value: string): string => /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+// Suggestions for the term the caret is in: filter keys while typing a
+// bare word, and names once a key is typed
+export const getSuggestions = (query: string, caret: number, context: SuggestionContext): QuerySuggestion[] => {
+  let start = caret;
+  while (start > 0 && !/[\s()]/.test(query[start - 1])) start--;
+  let end = caret;
+  while (end < query.length && !/[\s()]/.test(query[end])) end++;
+
+  const term = query.slice(start, caret);
+  const negation = term.startsWith('-') ? '-' : '';
+  const text = term.slice(negation.length);
+  if (!text) return [];
+
+  const suggest = (labels: string[], prefix: string, typed: string): QuerySuggestion[] => {
+    const normalized = normalizeText(typed);
+    return labels
+      .filter(label => normalizeText(label) !== normalized && (!normalized || tokenize(label).some(word => word.startsWith(normalized)) || normalizeText(label).startsWith(normalized)))
+      .slice(0, SUGGESTION_LIMIT)
+      .map(label => ({ label, text: `${negation}${prefix}${quoteIfNeeded(label)} `, start, end }));
+  };
+
+  const match = /^([a-zA-Z]+):(.*)$/.exec(text);
+  if (match) {
+    const [, rawKey, rawValue] = match;
+    const key = keyAliases[rawKey.toLowerCase()] ?? rawKey.toLowerCase();
+    const value = unquote(rawValue);
+    const prefix = `${rawKey}:`;
+
+    switch (key) {
+      case 'cat': return suggest(context.categories.map(c => c.name), prefix, value);
+      case 'book': return suggest(context.books.map(b => b.name), prefix, value);
+      case 'tag': return suggest(context.tags, prefix, value);
+      case 'type': return suggest(['income', 'expense'], prefix, value);
+      case 'this': return suggest(periods, prefix, value);
+      case 'last': return suggest(['7d', '30d', '90d', '1y'], prefix, value);
+      default: return [];
+    }
+  }
+
+  const lower = text.toLowerCase();
+  return QUERY_KEYS
+    .filter(key => key.startsWith(lower))
+    .map(key => ({ label: keyHints[key], text: `${negation}${keyHints[key]}`, start, end }));
+};
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { db, openDatabase } from './database';
+import { queryTransactions } from './query';
+import { FilterOptions, Transaction } from '../types';
+
+const makeTransaction = (index: number, overrides: Partial<Transaction> = {}): Transaction => ({
+  id: `t-${String(index).padStart(3, '0')}`,
+  bookId: ['book-a', 'book-b', 'book-c'][index % 3],
+  type: index % 2 === 0 ? 'income' : 'expense',
+  amount: 1000 + index,
+  description: index % 4 === 0 ? 'Grocery run' : 'Bus fare',
+  categoryId: index % 5 === 0 ? 'cat-food' : undefined,
+  date: new Date(2024, 0, 1 + index),
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+const ids = (transactions: Transaction[]) => transactions.map(t => t.id);
+
+describe('queryTransactions', () => {
+  const rows = Array.from({ length: 30 }, (_, index) => makeTransaction(index));
+
+  beforeAll(async () => {
+    const result = await openDatabase();
+    expect(result.error).toBeUndefined();
+
+    const now = new Date();
+    await db.books.bulkAdd(['book-a', 'book-b', 'book-c'].map(id => ({
+      id,
+      name: id,
+      segmentId: id === 'book-c' ? undefined : 'segment-1',
+      currency: 'BDT',
+      color: '#3b82f6',
+      icon: 'wallet',
+      isActive: true,
+      balance: 0,
+      createdAt: now,
+      updatedAt: now
+    })));
+    await db.transactions.bulkAdd(rows);
+    await db.transactions.add(makeTransaction(99, { bookId: 'book-a', deletedAt: now, trashId: 'trash-1' }));
+  });
+
+  // What a full scan with every filter applied in memory returns
+  const expected = (match: (t: Transaction) => boolean) => ids(rows.filter(match).reverse());
+
+  const cases: [string, FilterOptions, (t: Transaction) => boolean][] = [
+    ['no filter', {}, () => true],
+    ['one book', { bookIds: ['book-a'] }, t => t.bookId === 'book-a'],
+    ['several books', { bookIds: ['book-a', 'book-c'] }, t => t.bookId !== 'book-b'],
+    ['a book and a type', { bookIds: ['book-b'], type: 'expense' }, t => t.bookId === 'book-b' && t.type === 'expense'],
+    ['a category', { categoryIds: ['cat-food'] }, t => t.categoryId === 'cat-food'],
+    ['a date range', { dateFrom: new Date(2024, 0, 5), dateTo: new Date(2024, 0, 12) }, t => t.date >= new Date(2024, 0, 5) && t.date <= new Date(2024, 0, 12)],
+    ['an amount range', { amountMin: 1010, amountMax: 1020 }, t => t.amount >= 1010 && t.amount <= 1020],
+    ['a segment', { segmentIds: ['segment-1'] }, t => t.bookId !== 'book-c'],
+    ['a segment and a book', { segmentIds: ['segment-1'], bookIds: ['book-b', 'book-c'] }, t => t.bookId === 'book-b'],
+    ['search text and a book', { bookIds: ['book-a'], searchText: 'grocery' }, t => t.bookId === 'book-a' && t.description === 'Grocery run']
+  ];
+
+  for (const [name, filter, match] of cases) {
+    it(`matches a full scan, newest first, with ${name}`, async () => {
+      expect(ids(await queryTransactions(filter))).toEqual(expected(match));
+    });
+  }
+
+  it('returns nothing when the segment has none of the books', async () => {
+    expect(await queryTransactions({ segmentIds: ['segment-1'], bookIds: ['book-c'] })).toEqual([]);
+  });
+});
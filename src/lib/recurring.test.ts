@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { db } from './database';
+import { BookService, RecurringService } from './services';
+
+const recurringService = new RecurringService();
+
+const createRule = async (overrides: { startDate?: Date; endDate?: Date; isPaused?: boolean } = {}) => {
+  const book = await new BookService().create({ name: 'Cash', currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+  return await recurringService.create({
+    bookId: book.id,
+    type: 'expense',
+    amount: 5000,
+    description: 'Rent',
+    tags: [],
+    frequency: 'monthly',
+    interval: 1,
+    startDate: new Date(2024, 0, 1),
+    isPaused: false,
+    ...overrides
+  });
+};
+
+const getGenerated = (ruleId: string) => db.transactions.where('recurringId').equals(ruleId).sortBy('date');
+
+describe('processDue', () => {
+  it('creates each due occurrence and advances the rule', async () => {
+    const rule = await createRule();
+    const created = await recurringService.processDue(new Date(2024, 2, 15), rule.id);
+
+    expect(created.map(t => t.date)).toEqual([new Date(2024, 0, 1), new Date(2024, 1, 1), new Date(2024, 2, 1)]);
+    expect(created.every(t => t.isRecurring && t.recurringId === rule.id)).toBe(true);
+    expect(await recurringService.getById(rule.id)).toMatchObject({ occurrenceIndex: 3, nextDate: new Date(2024, 3, 1) });
+  });
+
+  it('keeps monthly rules started on the 31st at month ends', async () => {
+    const rule = await createRule({ startDate: new Date(2024, 0, 31) });
+    const created = await recurringService.processDue(new Date(2024, 3, 30), rule.id);
+
+    expect(created.map(t => t.date)).toEqual([new Date(2024, 0, 31), new Date(2024, 1, 29), new Date(2024, 2, 31), new Date(2024, 3, 30)]);
+  });
+
+  it('stops at the end date and deactivates the rule', async () => {
+    const rule = await createRule({ endDate: new Date(2024, 1, 15) });
+    await recurringService.processDue(new Date(2024, 5, 1), rule.id);
+
+    expect(await getGenerated(rule.id)).toHaveLength(2);
+    expect((await recurringService.getById(rule.id))?.isActive).toBe(false);
+  });
+
+  it('leaves paused rules alone', async () => {
+    const rule = await createRule({ isPaused: true });
+    expect(await recurringService.processDue(new Date(2024, 2, 15), rule.id)).toEqual([]);
+  });
+
+  it('skips the next occurrence without creating it', async () => {
+    const rule = await createRule();
+    await recurringService.skipNext(rule.id);
+    const created = await recurringService.processDue(new Date(2024, 1, 15), rule.id);
+
+    expect(created.map(t => t.date)).toEqual([new Date(2024, 1, 1)]);
+  });
+
+  it('creates each occurrence once when runs overlap', async () => {
+    const rule = await createRule();
+    const asOf = new Date(2024, 2, 15);
+    const runs = await Promise.all([
+      recurringService.processDue(asOf, rule.id),
+      recurringService.processDue(asOf, rule.id)
+    ]);
+
+    expect(runs.map(created => created.length)).toEqual([3, 0]);
+    expect(await getGenerated(rule.id)).toHaveLength(3);
+  });
+
+  it('skips occurrences already generated for a date', async () => {
+    const rule = await createRule();
+    await recurringService.processDue(new Date(2024, 1, 15), rule.id);
+
+    // As if the rule's progress had been lost after its occurrences were saved
+    await db.recurringRules.update(rule.id, { occurrenceIndex: 0, nextDate: rule.startDate });
+    const created = await recurringService.processDue(new Date(2024, 2, 15), rule.id);
+
+    expect(created.map(t => t.date)).toEqual([new Date(2024, 2, 1)]);
+    expect(await getGenerated(rule.id)).toHaveLength(3);
+  });
+});
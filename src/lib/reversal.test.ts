@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BookService, TransactionService } from './services';
+import { Book, Transaction } from '../types';
+
+const bookService = new BookService();
+const transactionService = new TransactionService();
+
+const createBook = (name: string) => bookService.create({ name, currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+
+describe('reverseTransaction', () => {
+  let book: Book;
+  let original: Transaction;
+
+  beforeEach(async () => {
+    book = await createBook('Cash');
+    original = await transactionService.create({
+      bookId: book.id,
+      type: 'income',
+      amount: 1000,
+      description: 'Refund',
+      date: new Date(2024, 0, 10),
+      isRecurring: false,
+      tags: ['shop'],
+      isReversed: false
+    });
+  });
+
+  it('flips the type and links back to the original', async () => {
+    const reversal = await transactionService.reverseTransaction(original.id, book.id);
+
+    expect(reversal).toMatchObject({
+      bookId: book.id,
+      type: 'expense',
+      amount: 1000,
+      description: 'Refund',
+      tags: ['shop'],
+      originalTransactionId: original.id,
+      isReversed: true
+    });
+    expect(await bookService.getBalance(book.id)).toBe(0);
+    expect((await transactionService.getReversal(original.id))?.id).toBe(reversal.id);
+  });
+
+  it('can land in another book', async () => {
+    const other = await createBook('Bank');
+    await transactionService.reverseTransaction(original.id, other.id);
+
+    expect(await bookService.getBalance(book.id)).toBe(1000);
+    expect(await bookService.getBalance(other.id)).toBe(-1000);
+  });
+
+  it('links both sides of a reversal', async () => {
+    const reversal = await transactionService.reverseTransaction(original.id, book.id);
+    const links = await transactionService.getReversalLinks([original, reversal]);
+
+    expect(links[original.id].id).toBe(reversal.id);
+    expect(links[reversal.id].id).toBe(original.id);
+  });
+
+  it('refuses a second reversal of the same transaction', async () => {
+    await transactionService.reverseTransaction(original.id, book.id);
+    await expect(transactionService.reverseTransaction(original.id, book.id)).rejects.toThrow('This transaction has already been reversed');
+  });
+
+  it('refuses to reverse a reversal entry', async () => {
+    const reversal = await transactionService.reverseTransaction(original.id, book.id);
+    await expect(transactionService.reverseTransaction(reversal.id, book.id)).rejects.toThrow('A reversal entry cannot be reversed again');
+  });
+
+  it('allows reversing again once the reversal is in the trash', async () => {
+    const reversal = await transactionService.reverseTransaction(original.id, book.id);
+    await transactionService.delete(reversal.id);
+
+    expect(await transactionService.getReversal(original.id)).toBeUndefined();
+    expect((await transactionService.getReversalLinks([original]))[original.id]).toBeUndefined();
+
+    const again = await transactionService.reverseTransaction(original.id, book.id);
+    expect(again.originalTransactionId).toBe(original.id);
+    expect(await bookService.getBalance(book.id)).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './database';
+import { BookService, SavedViewService, TransactionService } from './services';
+import { Book, Transaction } from '../types';
+
+const bookService = new BookService();
+const transactionService = new TransactionService();
+const savedViewService = new SavedViewService();
+
+const createBook = (name: string) => bookService.create({ name, currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+
+const createTransaction = (bookId: string, amount: number, overrides: Partial<Transaction> = {}) => transactionService.create({
+  bookId,
+  type: 'expense',
+  amount,
+  description: 'Supplies',
+  date: new Date(2024, 0, 10),
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+const createView = (query: string, overrides = {}) => savedViewService.create({ name: query, query, filter: {}, isPinned: false, ...overrides });
+
+describe('SavedViewService', () => {
+  let shop: Book;
+  let home: Book;
+
+  beforeEach(async () => {
+    await db.settings.clear();
+    shop = await createBook('Shop');
+    home = await createBook('Home');
+  });
+
+  it('keeps views in settings in the order they were made', async () => {
+    const first = await createView('type:expense');
+    const second = await createView('tag:trip');
+    await savedViewService.update(first.id, { name: 'Expenses', isPinned: true });
+    await savedViewService.delete(second.id);
+
+    expect(await savedViewService.getAll()).toEqual([expect.objectContaining({ id: first.id, name: 'Expenses', isPinned: true })]);
+  });
+
+  it('counts and totals the current book unless the query names one', async () => {
+    await createTransaction(shop.id, 150000);
+    await createTransaction(shop.id, 50000);
+    await createTransaction(shop.id, 90000, { type: 'income' });
+    await createTransaction(home.id, 200000);
+    const view = await createView('type:expense amount>1000');
+
+    expect(await savedViewService.getSummary(view, shop)).toEqual({ count: 1, totals: [{ currency: 'BDT', amount: -150000 }] });
+    expect(await savedViewService.getSummary(view, home)).toEqual({ count: 1, totals: [{ currency: 'BDT', amount: -200000 }] });
+
+    const shopView = await createView('book:shop');
+    expect((await savedViewService.getSummary(shopView, home)).count).toBe(3);
+  });
+
+  it('imports exported views as new copies', async () => {
+    const view = await createView('this:month', { isPinned: true });
+    const file = await savedViewService.exportViews();
+
+    expect(await savedViewService.importViews(file)).toBe(1);
+    const views = await savedViewService.getAll();
+    expect(views).toHaveLength(2);
+    expect(views[1]).toMatchObject({ name: 'this:month', query: 'this:month', isPinned: true });
+    expect(views[1].id).not.toBe(view.id);
+    expect(views[1].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects files that are not saved views', async () => {
+    await expect(savedViewService.importViews('not json')).rejects.toThrow('The file is not valid JSON');
+    await expect(savedViewService.importViews('{"app":"Other"}')).rejects.toThrow('The file does not contain CashLite saved views');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { db } from './database';
+import { BookService, CategoryService, PartyService, TransactionService, UndoService } from './services';
+
+const bookService = new BookService();
+const transactionService = new TransactionService();
+const undoService = new UndoService();
+
+const findIds = (prefix: string) => db.transactions.where('searchWords').startsWith(prefix).primaryKeys();
+
+describe('search index', () => {
+  it('indexes writes made inside an undoable step before the step ends', async () => {
+    const book = await bookService.create({ name: 'Cash', currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+
+    const transaction = await undoService.run('Add zebra crossing', async () => {
+      const category = await new CategoryService().create({ name: 'Roadworks', type: 'expense', color: '#ef4444', icon: 'tag', isDefault: false, isActive: true });
+      const party = await new PartyService().create({ name: 'Municipality' });
+      const created = await transactionService.create({
+        bookId: book.id,
+        type: 'expense',
+        amount: 1500,
+        description: 'Zebra crossing',
+        categoryId: category.id,
+        partyId: party.id,
+        date: new Date(2024, 0, 1),
+        isRecurring: false,
+        tags: [],
+        isReversed: false
+      });
+
+      // Still inside the step's transaction, reading names written in it
+      expect(await findIds('zebr')).toEqual([created.id]);
+      expect(await findIds('roadwork')).toEqual([created.id]);
+      expect(await findIds('municipal')).toEqual([created.id]);
+
+      await transactionService.update(created.id, { description: 'Pedestrian crossing' });
+      expect(await findIds('zebr')).toEqual([]);
+      expect(await findIds('pedestri')).toEqual([created.id]);
+      return created;
+    });
+
+    await undoService.undo();
+    expect(await db.transactions.get(transaction.id)).toBeUndefined();
+    expect(await findIds('pedestri')).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import Dexie, { DBCore, DBCoreTable, DBCoreTransaction, Middleware } from 'dexie';
+import { Transaction } from '../types';
+import { getCategoryIds } from './splits';
+
+// Transactions carry the words of their description, notes, tags, party
+// and category names (of every split line) in `searchWords`, a multiEntry
+// index that prefix queries run against. Words are kept accent- and case-free, and split on anything
+// that is not a letter, combining mark or digit so Bengali vowel signs stay
+// part of their word. The words are filled in by the middleware below on
+// every write, so no service has to remember to.
+
+const TRANSACTIONS_TABLE = 'transactions';
+const CATEGORIES_TABLE = 'categories';
+const PARTIES_TABLE = 'parties';
+
+// Latin accents are dropped after decomposition; other scripts keep their
+// marks and are composed back
+export const normalizeText = (text: string): string => {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').normalize('NFC').toLowerCase();
+};
+
+export const tokenize = (text: string | undefined): string[] => {
+  if (!text) return [];
+  return normalizeText(text).split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean);
+};
+
+type SearchableTransaction = Pick<Transaction, 'description' | 'notes' | 'tags' | 'splits'>;
+
+// Names of the records a transaction links to, which it is found by too
+export interface LinkedNames {
+  categories?: (string | undefined)[];
+  party?: string;
+}
+
+const getNotes = (transaction: SearchableTransaction): string[] => [
+  ...tokenize(transaction.notes),
+  ...(transaction.splits ?? []).flatMap(line => tokenize(line.notes))
+];
+
+export const getSearchWords = (transaction: SearchableTransaction, names: LinkedNames = {}): string[] => {
+  return [...new Set([
+    ...tokenize(transaction.description),
+    ...getNotes(transaction),
+    ...transaction.tags.flatMap(tag => tokenize(tag)),
+    ...tokenize(names.party),
+    ...(names.categories ?? []).flatMap(name => tokenize(name))
+  ])];
+};
+
+// Every query word has to start some word of the transaction
+export const matchesSearch = (words: string[], queryWords: string[]): boolean => {
+  return queryWords.every(queryWord => words.some(word => word.startsWith(queryWord)));
+};
+
+// Where a word is found matters more than whether it is: a match in the
+// description outranks one in the tags, party, category or notes, and a
+// whole-word match outranks a prefix.
+const fieldWeights = { description: 4, tags: 3, party: 3, category: 2, notes: 1 };
+
+export const getSearchScore = (transaction: Transaction, queryWords: string[], names: LinkedNames = {}): number => {
+  const fields: [number, string[]][] = [
+    [fieldWeights.description, tokenize(transaction.description)],
+    [fieldWeights.tags, transaction.tags.flatMap(tag => tokenize(tag))],
+    [fieldWeights.party, tokenize(names.party)],
+    [fieldWeights.category, (names.categories ?? []).flatMap(name => tokenize(name))],
+    [fieldWeights.notes, getNotes(transaction)]
+  ];
+
+  return queryWords.reduce((score, queryWord) => {
+    let best = 0;
+    for (const [weight, words] of fields) {
+      if (words.includes(queryWord)) {
+        best = Math.max(best, weight * 2);
+      } else if (words.some(word => word.startsWith(queryWord))) {
+        best = Math.max(best, weight);
+      }
+    }
+    return score + best;
+  }, 0);
+};
+
+// Names of the given categories or parties by id. Read on Dexie's own
+// promises like everything in the write path below: a native await would
+// drop Dexie's transaction zone, which the layers underneath rely on.
+const getNames = (down: DBCore, tableName: string, trans: DBCoreTransaction, ids: string[]): Promise<Map<string, string>> => {
+  if (ids.length === 0) return Dexie.Promise.resolve(new Map<string, string>());
+
+  return down.table(tableName).getMany({ trans, keys: ids }).then((records: ({ id: string; name: string } | undefined)[]) =>
+    new Map(records.filter(record => !!record).map(record => [record!.id, record!.name]))
+  );
+};
+
+const createSearchTable = (down: DBCore, table: DBCoreTable): DBCoreTable => ({
+  ...table,
+  mutate: req => {
+    if (req.type !== 'add' && req.type !== 'put') return table.mutate(req);
+
+    const categoryIds = [...new Set(req.values.flatMap(value => getCategoryIds(value)))];
+    // Upgrades from before parties existed never set a partyId, so the
+    // store is only read once there is one
+    const partyIds = [...new Set(req.values.map(value => value.partyId).filter(Boolean))];
+
+    return getNames(down, CATEGORIES_TABLE, req.trans, categoryIds).then(names =>
+      getNames(down, PARTIES_TABLE, req.trans, partyIds).then(partyNames => {
+        const values = req.values.map(value => ({
+          ...value,
+          searchWords: getSearchWords(value, {
+            categories: getCategoryIds(value).map(id => names.get(id)),
+            party: value.partyId && partyNames.get(value.partyId)
+          })
+        }));
+        return table.mutate({ ...req, values });
+      })
+    );
+  }
+});
+
+export const searchMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'search',
+  // Above the history middleware, so recorded versions include the words
+  level: 11,
+  create: down => ({
+    ...down,
+    // Category and party names are read while indexing, so writes to
+    // transactions need those stores in scope
+    transaction: (stores, mode, options) => {
+      if (mode !== 'readwrite' || !stores.includes(TRANSACTIONS_TABLE)) {
+        return down.transaction(stores, mode, options);
+      }
+      const missing = [CATEGORIES_TABLE, PARTIES_TABLE].filter(store => !stores.includes(store));
+      return down.transaction([...stores, ...missing], mode, options);
+    },
+    table: name => {
+      const table = down.table(name);
+      return name === TRANSACTIONS_TABLE ? createSearchTable(down, table) : table;
+    }
+  })
+};
@@ -1,301 +1,2475 @@
+import Dexie, { Collection, DBCoreTransaction, Transaction as DexieTransaction } from 'dexie';
+import { addDays, addWeeks, addMonths, addYears, differenceInCalendarMonths, differenceInDays, startOfDay, subMonths } from 'date-fns';
 import { db } from './database';
-import { Book, Segment, Transaction, Category, FilterOptions, ImportResult, ExportOptions, CSVRow } from '../types';
-import { generateId } from './utils';
+import { Book, Segment, Transaction, TransferInput, Category, RecurringRule, ExchangeRate, TrashEntry, TrashItemType, HistoryEntry, SegmentBalanceSummary, CurrencySubtotal, FilterOptions, PageOptions, TransactionPage, ImportResult, ExportOptions, CSVRow, SavedView, SavedViewSummary, Budget, BudgetStatus, BudgetWarning, CategoryUsage, SavingsGoal, GoalStatus, Attachment, Party, PartyLedger, PaymentMode, PaymentModeTotal, CategorizationRule, RuleSuggestion, RuleChange, TagSummary } from '../types';
+import { generateId, groupBy } from './utils';
+import { MIGRATION_LOG_KEY, MigrationLogEntry } from './migrations';
+import { setHistoryActor, getOperationId } from './history';
+import { queryTransactions, queryTransactionPage } from './query';
+import { getSearchWords } from './search';
+import { getAmountInCategories, getCategoryIds, getCategoryLines, validateSplits } from './splits';
+import { getAncestorIds, getSubtreeIds, withSubcategories } from './categories';
+import { applyQuery, parseQuery } from './queryLanguage';
+import { exportDatabase, encodeValue, decodeValue, serializeBackup, downloadBackup, getStoredBackups, downloadStoredBackup, StoredBackup } from './backup';
+import { applyRules, RuleSubject } from './categorization';
+import { ATTACHMENT_MAX_BYTES, createThumbnail, formatFileSize, isImage } from './attachments';
+import { convertMinorUnits, getCurrencyPrecision, parseMoney, rescaleMinorUnits, toDecimalString } from './money';
+
+interface UndoableOperation {
+  operationId: string;
+  label: string;
+}
+
+const UNDO_LIMIT = 50;
+const undoStack: UndoableOperation[] = [];
+const redoStack: UndoableOperation[] = [];
+
+// Step made by the last top-level mutation; unset when it wrote nothing
+let lastOperationId: string | undefined;
+
+const getUndoableTables = () => [
+  db.books, db.segments, db.transactions, db.categories,
+  db.recurringRules, db.exchangeRates, db.settings, db.trash, db.budgets, db.goals, db.attachments, db.parties, db.paymentModes, db.categorizationRules
+];
+
+// Runs a service mutation in one database transaction, so everything it
+// writes shares one history operation that can be undone as a whole.
+// Mutations called from inside another one become part of the outer step.
+const undoable = async <T>(label: string, mutation: () => Promise<T>): Promise<T> => {
+  if (Dexie.currentTransaction) {
+    return await mutation();
+  }
+
+  lastOperationId = undefined;
+  let operationId: string | undefined;
+  const result = await db.transaction('rw', getUndoableTables(), async tx => {
+    const value = await mutation();
+    // idbtrans is the storage-level transaction the history middleware saw
+    operationId = getOperationId((tx as DexieTransaction & { idbtrans: DBCoreTransaction }).idbtrans);
+    return value;
+  });
+
+  if (operationId && await db.history.where('operationId').equals(operationId).count() > 0) {
+    undoStack.push({ operationId, label });
+    undoStack.splice(0, undoStack.length - UNDO_LIMIT);
+    redoStack.length = 0;
+    lastOperationId = operationId;
+  }
+
+  return result;
+};
+
+// Part of a transaction spent in the given categories, counting only its
+// split lines there; income in them counts against the spending
+const getSpentInCategories = (transaction: Transaction, categoryIds: string[]): number => {
+  if (transaction.deletedAt) return 0;
+  const amount = getAmountInCategories(transaction, categoryIds);
+  return transaction.type === 'expense' ? amount : -amount;
+};
+
+export const isCategoryInUse = (usage: CategoryUsage): boolean => {
+  return usage.transactions + usage.budgets + usage.recurringRules + usage.goals + usage.categorizationRules > 0;
+};
+
+// Rewrites search words after a category or party the transactions link to
+// was renamed; the new name has to be saved first
+const reindexSearchWords = async (transactions: Collection<Transaction>): Promise<void> => {
+  const categoryNames = new Map((await db.categories.toArray()).map(c => [c.id, c.name]));
+  const partyNames = new Map((await db.parties.toArray()).map(p => [p.id, p.name]));
+
+  await transactions.modify(t => {
+    t.searchWords = getSearchWords(t, {
+      categories: getCategoryIds(t).map(id => categoryNames.get(id)),
+      party: t.partyId && partyNames.get(t.partyId)
+    });
+  });
+};
+
+// Signed effect of a transaction on its book's balance; trashed ones count
+// for nothing
+const getBalanceEffect = (transaction: Transaction): number => {
+  if (transaction.deletedAt) return 0;
+  return transaction.type === 'income' ? transaction.amount : -transaction.amount;
+};
+
+interface BalanceChange {
+  before?: Transaction;
+  after?: Transaction;
+}
+
+// Applies the difference a set of transaction writes makes to each book,
+// instead of recounting the books from scratch. Callers run this inside the
+// transaction that makes the writes.
+const applyBalanceChanges = async (changes: BalanceChange[]): Promise<void> => {
+  const deltas = new Map<string, number>();
+  const add = (bookId: string, amount: number) => deltas.set(bookId, (deltas.get(bookId) || 0) + amount);
+
+  for (const { before, after } of changes) {
+    if (before) add(before.bookId, -getBalanceEffect(before));
+    if (after) add(after.bookId, getBalanceEffect(after));
+  }
+
+  const bookService = new BookService();
+  for (const [bookId, delta] of deltas) {
+    await bookService.adjustBalance(bookId, delta);
+  }
+};
 
 export class BookService {
   async getAll(): Promise<Book[]> {
-    return await db.books.orderBy('name').toArray();
+    return await db.books.orderBy('name').filter(b => !b.deletedAt).toArray();
+  }
+
+  async getById(id: string): Promise<Book | undefined> {
+    return await db.books.get(id);
+  }
+
+  async create(book: Omit<Book, 'id' | 'createdAt' | 'updatedAt' | 'balance'>): Promise<Book> {
+    return await undoable('Add book', async () => {
+      const newBook: Book = {
+        ...book,
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        balance: 0
+      };
+    
+      await db.books.add(newBook);
+      return newBook;
+    });
+  }
+
+  async update(id: string, updates: Partial<Book>): Promise<void> {
+    await undoable('Edit book', async () => {
+      const book = await db.books.get(id);
+      if (!book) return;
+
+      const newCurrency = updates.currency;
+      const needsRescale = !!newCurrency &&
+        getCurrencyPrecision(newCurrency) !== getCurrencyPrecision(book.currency);
+
+      if (!needsRescale) {
+        await db.books.update(id, { ...updates, updatedAt: new Date() });
+        if (newCurrency && newCurrency !== book.currency) {
+          await db.budgets.where('bookId').equals(id).modify({ currency: newCurrency });
+        }
+      } else {
+        // Stored minor units depend on the currency's decimals, so switching
+        // e.g. from BDT to JPY has to rescale every amount in the book. The
+        // balance is summed from the rescaled amounts so rounding matches.
+        const rescale = (amount: number) => rescaleMinorUnits(amount, book.currency, newCurrency);
+        let balance = 0;
+
+        await db.transactions.where('bookId').equals(id).modify(t => {
+          t.amount = rescale(t.amount);
+          balance += getBalanceEffect(t);
+          // The last split line absorbs the rounding so the lines still add up
+          if (t.splits && t.splits.length > 0) {
+            const lines = t.splits.map(line => ({ ...line, amount: rescale(line.amount) }));
+            const last = lines[lines.length - 1];
+            last.amount += t.amount - lines.reduce((sum, line) => sum + line.amount, 0);
+            t.splits = lines;
+          }
+        });
+        await db.recurringRules.where('bookId').equals(id).modify(rule => {
+          rule.amount = rescale(rule.amount);
+        });
+        await db.budgets.where('bookId').equals(id).modify(budget => {
+          budget.amount = rescale(budget.amount);
+          budget.currency = newCurrency;
+        });
+        await db.books.update(id, { ...updates, balance, updatedAt: new Date() });
+      }
+
+      // The book's balance counts towards its segment in its own currency
+      const segmentIds = new Set([book.segmentId, 'segmentId' in updates ? updates.segmentId : book.segmentId]);
+      if ((newCurrency && newCurrency !== book.currency) || segmentIds.size > 1) {
+        for (const segmentId of segmentIds) {
+          if (segmentId) await new SegmentService().updateTotalBalance(segmentId);
+        }
+      }
+    });
+  }
+
+  // Moves the book and its transactions to the trash. The other legs of its
+  // transfers go too, so no book is left holding half a transfer.
+  async delete(id: string): Promise<void> {
+    await undoable('Delete book', async () => {
+      const book = await db.books.get(id);
+      if (!book || book.deletedAt) return;
+
+      const transactions = await db.transactions
+        .where('bookId')
+        .equals(id)
+        .filter(t => !t.deletedAt)
+        .toArray();
+      const transferIds = transactions.filter(t => t.transferId).map(t => t.transferId!);
+      const counterparts = transferIds.length === 0 ? [] : await db.transactions
+        .where('transferId')
+        .anyOf(transferIds)
+        .filter(t => t.bookId !== id && !t.deletedAt)
+        .toArray();
+
+      await new TrashService().moveToTrash('book', id, book.name, [...transactions, ...counterparts].map(t => t.id));
+    });
+  }
+
+  async getBalance(bookId: string): Promise<number> {
+    const transactions = await db.transactions
+      .where('bookId')
+      .equals(bookId)
+      .filter(t => !t.deletedAt)
+      .toArray();
+    
+    return transactions.reduce((total, transaction) => total + getBalanceEffect(transaction), 0);
+  }
+
+  // Moves the stored balance by `delta` and carries it through to the
+  // book's segment. Callers run this inside their own transaction.
+  async adjustBalance(bookId: string, delta: number): Promise<void> {
+    if (delta === 0) return;
+
+    const book = await db.books.get(bookId);
+    if (!book) return;
+
+    await db.books.update(bookId, { balance: book.balance + delta });
+    if (book.segmentId) {
+      await new SegmentService().updateTotalBalance(book.segmentId);
+    }
+  }
+
+  // Full recount, for repairing a balance after writes that bypass the
+  // services, such as undo and redo
+  async updateBalance(bookId: string): Promise<void> {
+    const book = await db.books.get(bookId);
+    if (!book) return;
+
+    const balance = await this.getBalance(bookId);
+    await this.adjustBalance(bookId, balance - book.balance);
+  }
+}
+
+export class SegmentService {
+  async getAll(): Promise<Segment[]> {
+    return await db.segments.orderBy('name').filter(s => !s.deletedAt).toArray();
+  }
+
+  async getById(id: string): Promise<Segment | undefined> {
+    return await db.segments.get(id);
+  }
+
+  async create(segment: Omit<Segment, 'id' | 'createdAt' | 'updatedAt' | 'totalBalance'>): Promise<Segment> {
+    return await undoable('Add segment', async () => {
+      const newSegment: Segment = {
+        ...segment,
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        totalBalance: 0
+      };
+    
+      await db.segments.add(newSegment);
+      return newSegment;
+    });
+  }
+
+  async update(id: string, updates: Partial<Segment>): Promise<void> {
+    await undoable('Edit segment', async () => {
+      await db.segments.update(id, { ...updates, updatedAt: new Date() });
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await undoable('Delete segment', async () => {
+      const segment = await db.segments.get(id);
+      if (!segment || segment.deletedAt) return;
+
+      await new TrashService().moveToTrash('segment', id, segment.name);
+    });
+  }
+
+  // Books in a segment may use different currencies, so balances are
+  // subtotalled per currency and converted to the base currency before
+  // being added up.
+  async getBalanceSummary(segmentId: string): Promise<SegmentBalanceSummary> {
+    const books = await db.books.where('segmentId').equals(segmentId).filter(b => !b.deletedAt).toArray();
+    const baseCurrency = await new SettingsService().getBaseCurrency();
+    const exchangeRateService = new ExchangeRateService();
+    const amounts: Record<string, number> = {};
+    
+    for (const book of books) {
+      amounts[book.currency] = (amounts[book.currency] || 0) + book.balance;
+    }
+
+    const subtotals: CurrencySubtotal[] = [];
+    const missingRates: string[] = [];
+    let total = 0;
+
+    for (const [currency, amount] of Object.entries(amounts)) {
+      const convertedAmount = await exchangeRateService.convert(amount, currency, baseCurrency);
+      if (convertedAmount === undefined) {
+        missingRates.push(currency);
+      } else {
+        total += convertedAmount;
+      }
+      subtotals.push({ currency, amount, convertedAmount });
+    }
+    
+    return { baseCurrency, total, subtotals, missingRates };
+  }
+
+  async getTotalBalance(segmentId: string): Promise<number> {
+    const summary = await this.getBalanceSummary(segmentId);
+    return summary.total;
+  }
+
+  async updateTotalBalance(segmentId: string): Promise<SegmentBalanceSummary> {
+    const summary = await this.getBalanceSummary(segmentId);
+    await db.segments.update(segmentId, { totalBalance: summary.total });
+    return summary;
+  }
+}
+
+export class TransactionService {
+  // Planned against the indexes in ./query, so opening one book or a date
+  // range reads only the matching rows
+  async getAll(filter?: FilterOptions): Promise<Transaction[]> {
+    return await queryTransactions(filter);
+  }
+
+  // One page of getAll, for lists that load as they scroll
+  async getPage(filter?: FilterOptions, options?: PageOptions): Promise<TransactionPage> {
+    return await queryTransactionPage(filter, options);
+  }
+
+  async getById(id: string): Promise<Transaction | undefined> {
+    return await db.transactions.get(id);
+  }
+
+  async create(transaction: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>): Promise<Transaction> {
+    return await undoable('Add transaction', async () => {
+      const newTransaction: Transaction = {
+        ...transaction,
+        ...(transaction.splits?.length ? getSplitFields(transaction) : {}),
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    
+      await db.transactions.add(newTransaction);
+      await applyBalanceChanges([{ after: newTransaction }]);
+    
+      return newTransaction;
+    });
   }
 
-  async getById(id: string): Promise<Book | undefined> {
-    return await db.books.get(id);
+  async update(id: string, updates: Partial<Transaction>): Promise<void> {
+    await undoable('Edit transaction', async () => {
+      const transaction = await db.transactions.get(id);
+      if (!transaction) return;
+
+      // Transfer legs are always edited together
+      if (transaction.transferId) {
+        const { amount, ...shared } = pickTransferFields(updates);
+        await this.updateTransfer(transaction.transferId, {
+          ...shared,
+          ...(amount === undefined ? {} : transaction.type === 'expense' ? { amount } : { receivedAmount: amount })
+        });
+        return;
+      }
+    
+      const splitFields = getSplitFields({ ...transaction, ...updates });
+      await db.transactions.update(id, { ...updates, ...splitFields, updatedAt: new Date() });
+
+      // Covers both books when the transaction moved to another one
+      await applyBalanceChanges([{ before: transaction, after: { ...transaction, ...updates } }]);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await undoable('Delete transaction', async () => {
+      const transaction = await db.transactions.get(id);
+      if (!transaction) return;
+
+      if (transaction.transferId) {
+        await this.deleteTransfer(transaction.transferId);
+        return;
+      }
+    
+      await new TrashService().moveToTrash('transaction', id, transaction.description, [id]);
+    });
+  }
+
+  // Puts the transaction back the way it was after the given history entry.
+  // Fields added since then are cleared, and the revert is itself recorded
+  // as a new change.
+  async revertToVersion(historyEntryId: string): Promise<void> {
+    // History is outside the scope of undoable steps, so it is read first
+    const entry = await db.history.get(historyEntryId);
+    if (!entry || entry.table !== 'transactions' || !entry.after) {
+      throw new Error('This version cannot be restored');
+    }
+
+    await undoable('Revert transaction', async () => {
+      const current = await db.transactions.get(entry.recordId);
+      if (!current) throw new Error('Transaction not found');
+
+ // Entries of the transactions table hold transactions
+      const after = entry.after as Transaction;
+      // Attachments are not versioned, so their count stays as it is
+      const { id, createdAt, updatedAt, deletedAt, trashId, attachmentCount, ...version } = after;
+      const updates: Partial<Transaction> = { ...version };
+      for (const key of Object.keys(current) as (keyof Transaction)[]) {
+        if (!(key in after) && !['deletedAt', 'trashId', 'attachmentCount'].includes(key)) {
+          (updates as Record<string, unknown>)[key] = undefined;
+        }
+      }
+
+      await this.update(current.id, updates);
+    });
+  }
+
+  // A reversal flips income and expense into the same or another book and
+  // keeps originalTransactionId pointing back, so corrections leave an
+  // audit trail instead of overwriting the original entry.
+  async reverseTransaction(transactionId: string, targetBookId: string): Promise<Transaction> {
+    return await undoable('Reverse transaction', async () => {
+      const original = await db.transactions.get(transactionId);
+      if (!original) throw new Error('Transaction not found');
+
+      if (original.isReversed) {
+        throw new Error('A reversal entry cannot be reversed again');
+      }
+
+      if (original.transferId) {
+        throw new Error('Transfers cannot be reversed; edit or delete the transfer instead');
+      }
+
+      const existing = await this.getReversal(transactionId);
+      if (existing) {
+        throw new Error('This transaction has already been reversed');
+      }
+
+      const targetBook = await db.books.get(targetBookId);
+      if (!targetBook) throw new Error('Target book not found');
+
+      return await this.create({
+        bookId: targetBookId,
+        type: original.type === 'income' ? 'expense' : 'income',
+        amount: original.amount,
+        description: original.description,
+        notes: original.notes,
+        categoryId: original.categoryId,
+        splits: original.splits,
+        partyId: original.partyId,
+        paymentModeId: original.paymentModeId,
+        date: original.date,
+        isRecurring: false,
+        tags: original.tags,
+        originalTransactionId: original.id,
+        isReversed: true
+      });
+    });
+  }
+
+  async getReversal(transactionId: string): Promise<Transaction | undefined> {
+    return await db.transactions
+      .where('originalTransactionId')
+      .equals(transactionId)
+      .filter(t => t.isReversed && !t.deletedAt)
+      .first();
+  }
+
+  // Maps each given transaction to the other side of its reversal, whether
+  // it is the original or the reversal entry. Counterparts may live in
+  // other books.
+  async getReversalLinks(transactions: Transaction[]): Promise<Record<string, Transaction>> {
+    const links: Record<string, Transaction> = {};
+    const ids = transactions.map(t => t.id);
+
+    const reversals = await db.transactions
+      .where('originalTransactionId')
+      .anyOf(ids)
+      .filter(t => t.isReversed && !t.deletedAt)
+      .toArray();
+    for (const reversal of reversals) {
+      links[reversal.originalTransactionId!] = reversal;
+    }
+
+    const originalIds = transactions
+      .filter(t => t.isReversed && t.originalTransactionId)
+      .map(t => t.originalTransactionId!);
+    const originals = await db.transactions.bulkGet(originalIds);
+    for (const original of originals) {
+      if (original?.deletedAt) continue;
+      const reversal = original && transactions.find(t => t.originalTransactionId === original.id && t.isReversed);
+      if (original && reversal) {
+        links[reversal.id] = original;
+      }
+    }
+
+    return links;
+  }
+
+  // A transfer is an expense in the source book and an income in the target
+  // book that share one transferId. Both legs are written together.
+  async createTransfer(transfer: TransferInput): Promise<Transaction[]> {
+    return await undoable('Add transfer', async () => {
+      if (transfer.fromBookId === transfer.toBookId) {
+        throw new Error('Choose two different books for a transfer');
+      }
+
+      const transferId = generateId();
+      const shared = {
+        description: transfer.description,
+        notes: transfer.notes,
+        date: transfer.date,
+        tags: transfer.tags,
+        isRecurring: false,
+        isReversed: false,
+        transferId
+      };
+
+      const outgoing = await this.create({
+        ...shared,
+        bookId: transfer.fromBookId,
+        type: 'expense',
+        amount: transfer.amount,
+        transferBookId: transfer.toBookId
+      });
+      const incoming = await this.create({
+        ...shared,
+        bookId: transfer.toBookId,
+        type: 'income',
+        amount: transfer.receivedAmount ?? transfer.amount,
+        transferBookId: transfer.fromBookId
+      });
+      return [outgoing, incoming];
+    });
+  }
+
+  // Every tag in use, read from the unique tag lists in the index rather
+  // than from every transaction. A list only counts while a transaction
+  // outside the trash still carries it.
+  async getTags(): Promise<string[]> {
+    const keys = await db.transactions.orderBy('tags').uniqueKeys();
+    const lists = keys.map(key => (Array.isArray(key) ? key.map(String) : [])).filter(list => list.length > 0);
+    const live = await Promise.all(lists.map(list =>
+      db.transactions.where('tags').equals(list).filter(t => !t.deletedAt).first()
+    ));
+    const tags = lists.filter((_, index) => live[index]).flat();
+    return [...new Set(tags)].sort((a, b) => a.localeCompare(b));
+  }
+
+  async getTransferLegs(transferId: string): Promise<Transaction[]> {
+    return await db.transactions.where('transferId').equals(transferId).filter(t => !t.deletedAt).toArray();
+  }
+
+  async updateTransfer(transferId: string, updates: Partial<Omit<TransferInput, 'fromBookId' | 'toBookId'>>): Promise<void> {
+    await undoable('Edit transfer', async () => {
+      const legs = await this.getTransferLegs(transferId);
+      const { amount, receivedAmount, ...shared } = updates;
+
+      // Between books of the same currency both legs always carry the same amount
+      const books = await db.books.bulkGet(legs.map(leg => leg.bookId));
+      const sameCurrency = books[0]?.currency === books[1]?.currency;
+      const outgoingAmount = amount ?? (sameCurrency ? receivedAmount : undefined);
+      const incomingAmount = receivedAmount ?? (sameCurrency ? amount : undefined);
+
+      const changes: BalanceChange[] = [];
+      for (const leg of legs) {
+        const legAmount = leg.type === 'expense' ? outgoingAmount : incomingAmount;
+        const legUpdates = {
+          ...shared,
+          ...(legAmount === undefined ? {} : { amount: legAmount }),
+          updatedAt: new Date()
+        };
+        await db.transactions.update(leg.id, legUpdates);
+        changes.push({ before: leg, after: { ...leg, ...legUpdates } });
+      }
+      await applyBalanceChanges(changes);
+    });
+  }
+
+  async deleteTransfer(transferId: string): Promise<void> {
+    await undoable('Delete transfer', async () => {
+      const legs = await this.getTransferLegs(transferId);
+      if (legs.length === 0) return;
+
+      const outgoing = legs.find(leg => leg.type === 'expense') || legs[0];
+      await new TrashService().moveToTrash('transaction', outgoing.id, outgoing.description, legs.map(leg => leg.id));
+    });
+  }
+
+  async getMonthlyStats(bookId: string, year: number, month: number): Promise<{ income: number; expense: number }> {
+    const startDate = new Date(year, month - 1, 1);
+    const endDate = new Date(year, month, 0);
+    
+    // Transfers only move money between books, so they count as neither
+    const transactions = await db.transactions
+      .where('bookId')
+      .equals(bookId)
+      .filter(t => !t.transferId && !t.deletedAt && t.date >= startDate && t.date <= endDate)
+      .toArray();
+    
+    return transactions.reduce(
+      (stats, transaction) => {
+        if (transaction.type === 'income') {
+          stats.income += transaction.amount;
+        } else {
+          stats.expense += transaction.amount;
+        }
+        return stats;
+      },
+      { income: 0, expense: 0 }
+    );
+  }
+
+  // Income and expense per category in one month of a book, with every
+  // split line counted under its own category. A parent's totals include
+  // its subcategories.
+  async getCategoryTotals(bookId: string, year: number, month: number): Promise<Map<string, { income: number; expense: number }>> {
+    const transactions = await queryTransactions({
+      bookIds: [bookId],
+      dateFrom: new Date(year, month - 1, 1),
+      dateTo: new Date(new Date(year, month, 1).getTime() - 1)
+    });
+
+    const categories = await db.categories.toArray();
+
+    const totals = new Map<string, { income: number; expense: number }>();
+    for (const transaction of transactions) {
+      if (transaction.transferId) continue;
+      for (const line of getCategoryLines(transaction)) {
+        if (!line.categoryId) continue;
+        for (const categoryId of [line.categoryId, ...getAncestorIds(categories, line.categoryId)]) {
+          const total = totals.get(categoryId) ?? { income: 0, expense: 0 };
+          total[transaction.type] += line.amount;
+          totals.set(categoryId, total);
+        }
+      }
+    }
+    return totals;
+  }
+}
+
+export class AttachmentService {
+  async getForTransaction(transactionId: string): Promise<Attachment[]> {
+    return await db.attachments.where('transactionId').equals(transactionId).sortBy('createdAt');
+  }
+
+  // Checks the file and makes its thumbnail, ready to be stored with add().
+  // This awaits work outside the database, so it cannot run inside a
+  // database transaction and is done up front.
+  async prepare(file: File): Promise<Attachment> {
+    if (!isImage(file.type) && file.type !== 'application/pdf') {
+      throw new Error(`${file.name} is not an image or PDF`);
+    }
+    if (file.size > ATTACHMENT_MAX_BYTES) {
+      throw new Error(`${file.name} is larger than ${formatFileSize(ATTACHMENT_MAX_BYTES)}`);
+    }
+
+    return {
+      id: generateId(),
+      transactionId: '',
+      name: file.name || 'Attachment',
+      type: file.type,
+      size: file.size,
+      blob: file,
+      thumbnail: await createThumbnail(file),
+      createdAt: new Date()
+    };
+  }
+
+  // Attachments are kept out of the change history (see lib/history.ts), so
+  // adding and removing them cannot be undone
+  async add(transactionId: string, attachments: Attachment[]): Promise<void> {
+    if (attachments.length === 0) return;
+
+    await db.transaction('rw', db.attachments, db.transactions, async () => {
+      await db.attachments.bulkAdd(attachments.map(attachment => ({ ...attachment, transactionId })));
+      await this.updateCount(transactionId);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.transaction('rw', db.attachments, db.transactions, async () => {
+      const attachment = await db.attachments.get(id);
+      if (!attachment) return;
+
+      await db.attachments.delete(id);
+      await this.updateCount(attachment.transactionId);
+    });
+  }
+
+  // The count on the transaction lets lists show a paperclip without
+  // reading the attachments table
+  async updateCount(transactionId: string): Promise<void> {
+    const count = await db.attachments.where('transactionId').equals(transactionId).count();
+    await db.transactions.update(transactionId, { attachmentCount: count || undefined });
+  }
+
+  // Brings attachments back in line with transactions an undo or redo has
+  // put back or taken away; the attachments themselves are not restored
+  async reconcile(transactionIds: string[]): Promise<void> {
+    for (const transactionId of transactionIds) {
+      if (await db.transactions.get(transactionId)) {
+        await this.updateCount(transactionId);
+      } else {
+        await db.attachments.where('transactionId').equals(transactionId).delete();
+      }
+    }
+  }
+}
+
+// Split transactions have no categoryId of their own; their categories are
+// copied to splitCategoryIds so category filters can use an index.
+const getSplitFields = (transaction: Pick<Transaction, 'categoryId' | 'amount' | 'splits'>): Partial<Transaction> => {
+  if (!transaction.splits || transaction.splits.length === 0) {
+    return { splits: undefined, splitCategoryIds: undefined };
+  }
+
+  const error = validateSplits(transaction.splits, transaction.amount);
+  if (error) throw new Error(error);
+  return { categoryId: undefined, splitCategoryIds: getCategoryIds(transaction) };
+};
+
+// Picks only the fields a transfer shares between its legs, keeping keys
+// that were explicitly set so cleared notes are applied too.
+const pickTransferFields = (updates: Partial<Transaction>): Partial<Omit<TransferInput, 'fromBookId' | 'toBookId'>> => {
+  const fields: Partial<Omit<TransferInput, 'fromBookId' | 'toBookId'>> = {};
+  if ('amount' in updates) fields.amount = updates.amount;
+  if ('description' in updates) fields.description = updates.description;
+  if ('notes' in updates) fields.notes = updates.notes;
+  if ('date' in updates) fields.date = updates.date;
+  if ('tags' in updates) fields.tags = updates.tags;
+  return fields;
+};
+
+// Occurrences are always counted from the start date so that monthly rules
+// starting on the 31st keep landing on month ends instead of drifting.
+const getOccurrenceDate = (rule: Pick<RecurringRule, 'frequency' | 'interval' | 'startDate'>, index: number): Date => {
+  const steps = index * rule.interval;
+  switch (rule.frequency) {
+    case 'daily': return addDays(rule.startDate, steps);
+    case 'weekly': return addWeeks(rule.startDate, steps);
+    case 'monthly': return addMonths(rule.startDate, steps);
+    case 'yearly': return addYears(rule.startDate, steps);
+  }
+};
+
+const isWithinEndDate = (rule: Pick<RecurringRule, 'endDate'>, date: Date): boolean => {
+  return !rule.endDate || date <= rule.endDate;
+};
+
+// Last processDue run, which the next one waits for
+let pendingRecurringRun: Promise<unknown> = Promise.resolve();
+
+type RecurringRuleInput = Omit<RecurringRule, 'id' | 'createdAt' | 'updatedAt' | 'occurrenceIndex' | 'nextDate' | 'isActive'>;
+
+export class RecurringService {
+  async getAll(): Promise<RecurringRule[]> {
+    return await db.recurringRules.orderBy('nextDate').toArray();
+  }
+
+  async getById(id: string): Promise<RecurringRule | undefined> {
+    return await db.recurringRules.get(id);
+  }
+
+  async create(rule: RecurringRuleInput): Promise<RecurringRule> {
+    return await undoable('Add recurring rule', async () => {
+      const newRule: RecurringRule = {
+        ...rule,
+        id: generateId(),
+        occurrenceIndex: 0,
+        nextDate: rule.startDate,
+        isActive: isWithinEndDate(rule, rule.startDate),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await db.recurringRules.add(newRule);
+      return newRule;
+    });
+  }
+
+  // Edits apply to future occurrences only; transactions that were already
+  // generated keep their values. Schedule changes restart the count from
+  // the new start date (or the next pending occurrence).
+  async updateFuture(id: string, updates: Partial<RecurringRuleInput>): Promise<RecurringRule | undefined> {
+    return await undoable('Edit recurring rule', async () => {
+      const rule = await db.recurringRules.get(id);
+      if (!rule) return undefined;
+
+      const updated: RecurringRule = { ...rule, ...updates, updatedAt: new Date() };
+      const scheduleChanged =
+        updates.frequency !== undefined && updates.frequency !== rule.frequency ||
+        updates.interval !== undefined && updates.interval !== rule.interval ||
+        updates.startDate !== undefined && updates.startDate.getTime() !== rule.startDate.getTime();
+
+      if (scheduleChanged) {
+        updated.startDate = updates.startDate ?? rule.nextDate;
+        updated.occurrenceIndex = 0;
+        updated.nextDate = updated.startDate;
+      }
+      updated.isActive = isWithinEndDate(updated, updated.nextDate);
+
+      await db.recurringRules.put(updated);
+      return updated;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await undoable('Delete recurring rule', async () => {
+      await db.recurringRules.delete(id);
+    });
+  }
+
+  async pause(id: string): Promise<void> {
+    await undoable('Pause recurring rule', async () => {
+      await db.recurringRules.update(id, { isPaused: true, updatedAt: new Date() });
+    });
+  }
+
+  // Occurrences that fell due while the rule was paused are not back-filled.
+  async resume(id: string): Promise<void> {
+    await undoable('Resume recurring rule', async () => {
+      const rule = await db.recurringRules.get(id);
+      if (!rule) return;
+
+      const today = startOfDay(new Date());
+      let index = rule.occurrenceIndex;
+      while (getOccurrenceDate(rule, index) < today) {
+        index++;
+      }
+      const nextDate = getOccurrenceDate(rule, index);
+
+      await db.recurringRules.update(id, {
+        isPaused: false,
+        occurrenceIndex: index,
+        nextDate,
+        isActive: isWithinEndDate(rule, nextDate),
+        updatedAt: new Date()
+      });
+    });
+  }
+
+  async skipNext(id: string): Promise<void> {
+    await undoable('Skip recurring occurrence', async () => {
+      const rule = await db.recurringRules.get(id);
+      if (!rule) return;
+
+      const occurrenceIndex = rule.occurrenceIndex + 1;
+      const nextDate = getOccurrenceDate(rule, occurrenceIndex);
+
+      await db.recurringRules.update(id, {
+        occurrenceIndex,
+        nextDate,
+        isActive: isWithinEndDate(rule, nextDate),
+        updatedAt: new Date()
+      });
+    });
+  }
+
+  // Creates every occurrence that is due up to `asOf`, linking each one back
+  // to its rule through recurringId. Each rule is advanced in the same
+  // transaction as its occurrences, and an occurrence already generated for
+  // a date is never created twice.
+  async processDue(asOf: Date = new Date(), ruleId?: string): Promise<Transaction[]> {
+    // Inside a caller's transaction, which already keeps other writers out
+    if (Dexie.currentTransaction) {
+      return await this.createDue(asOf, ruleId);
+    }
+
+    // The app runs this on every start, twice under StrictMode; later runs
+    // wait for the one in flight and find nothing left to do
+    const run = pendingRecurringRun.catch(() => undefined).then(() => this.createDue(asOf, ruleId));
+    pendingRecurringRun = run;
+    return await run;
+  }
+
+  private async createDue(asOf: Date, ruleId?: string): Promise<Transaction[]> {
+    // Generated by the app rather than the user, so kept off the undo stack
+    // unless the caller groups it into a step of its own
+    return await db.transaction('rw', getUndoableTables(), async () => {
+      const dueRules = await db.recurringRules
+        .where('nextDate')
+        .belowOrEqual(asOf)
+        .filter(rule => rule.isActive && !rule.isPaused && (!ruleId || rule.id === ruleId))
+        .toArray();
+
+      const transactionService = new TransactionService();
+      const created: Transaction[] = [];
+
+      for (const rule of dueRules) {
+        // Rules of a trashed book wait; restoring the book catches them up
+        const book = await db.books.get(rule.bookId);
+        if (!book || book.deletedAt) continue;
+
+        // Trashed occurrences count too, so deleting one does not bring it back
+        const generated = await db.transactions.where('recurringId').equals(rule.id).toArray();
+        const generatedDates = new Set(generated.map(t => t.date.getTime()));
+
+        let index = rule.occurrenceIndex;
+        let date = getOccurrenceDate(rule, index);
+
+        while (date <= asOf && isWithinEndDate(rule, date)) {
+          if (!generatedDates.has(date.getTime())) {
+            created.push(await transactionService.create({
+              bookId: rule.bookId,
+              type: rule.type,
+              amount: rule.amount,
+              description: rule.description,
+              notes: rule.notes,
+              categoryId: rule.categoryId,
+              partyId: rule.partyId,
+              paymentModeId: rule.paymentModeId,
+              date,
+              isRecurring: true,
+              recurringId: rule.id,
+              tags: rule.tags,
+              isReversed: false
+            }));
+          }
+
+          index++;
+          date = getOccurrenceDate(rule, index);
+        }
+
+        await db.recurringRules.update(rule.id, {
+          occurrenceIndex: index,
+          nextDate: date,
+          isActive: isWithinEndDate(rule, date),
+          updatedAt: new Date()
+        });
+      }
+
+      return created;
+    });
+  }
+}
+
+// Shares of a budget's limit that warn when crossed, highest first
+export const BUDGET_WARNING_LEVELS = [1, 0.8];
+
+// Like recurring rules, periods are counted from the start date so monthly
+// budgets starting on the 31st keep ending at month ends
+const getPeriodStart = (budget: Budget, index: number): Date => {
+  return budget.period === 'weekly' ? addWeeks(budget.startDate, index) : addMonths(budget.startDate, index);
+};
+
+// Dates before the start fall in the first period; custom budgets only
+// have the one
+const getPeriodIndex = (budget: Budget, date: Date): number => {
+  if (budget.period === 'custom' || date < budget.startDate) return 0;
+
+  let index = budget.period === 'weekly'
+    ? Math.floor(differenceInDays(date, budget.startDate) / 7)
+    : differenceInCalendarMonths(date, budget.startDate);
+  while (index > 0 && getPeriodStart(budget, index) > date) index--;
+  while (getPeriodStart(budget, index + 1) <= date) index++;
+  return index;
+};
+
+// Start and exclusive end of a period
+const getPeriodBounds = (budget: Budget, index: number): [Date, Date] => {
+  if (budget.period === 'custom') {
+    return [budget.startDate, addDays(budget.endDate ?? budget.startDate, 1)];
+  }
+  return [getPeriodStart(budget, index), getPeriodStart(budget, index + 1)];
+};
+
+const getWarningLevel = (status: BudgetStatus): number | undefined => {
+  return BUDGET_WARNING_LEVELS.find(level => status.spent >= status.limit * level);
+};
+
+type BudgetInput = Omit<Budget, 'id' | 'currency' | 'createdAt' | 'updatedAt'>;
+
+export class BudgetService {
+  // Budgets whose category, book or segment is in the trash are left out
+  async getAll(): Promise<Budget[]> {
+    const budgets = await db.budgets.orderBy('createdAt').toArray();
+    const [categories, books, segments] = await Promise.all([
+      db.categories.bulkGet(budgets.map(b => b.categoryId)),
+      db.books.bulkGet(budgets.map(b => b.bookId ?? '')),
+      db.segments.bulkGet(budgets.map(b => b.segmentId ?? ''))
+    ]);
+
+    return budgets.filter((budget, i) => {
+      const owner = budget.bookId ? books[i] : segments[i];
+      return categories[i] && !categories[i]!.deletedAt && owner && !owner.deletedAt;
+    });
+  }
+
+  async getById(id: string): Promise<Budget | undefined> {
+    return await db.budgets.get(id);
+  }
+
+  // Book budgets are kept in the book's currency, segment budgets in the
+  // base currency at the time they are made
+  private async getCurrency(budget: Pick<Budget, 'bookId'>): Promise<string> {
+    if (budget.bookId) {
+      const book = await db.books.get(budget.bookId);
+      if (book) return book.currency;
+    }
+    return await new SettingsService().getBaseCurrency();
+  }
+
+  async create(budget: BudgetInput): Promise<Budget> {
+    return await undoable('Add budget', async () => {
+      const newBudget: Budget = {
+        ...budget,
+        id: generateId(),
+        currency: await this.getCurrency(budget),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await db.budgets.add(newBudget);
+      return newBudget;
+    });
+  }
+
+  async update(id: string, updates: Partial<BudgetInput>): Promise<void> {
+    await undoable('Edit budget', async () => {
+      const budget = await db.budgets.get(id);
+      if (!budget) return;
+
+      const updated: Budget = { ...budget, ...updates, updatedAt: new Date() };
+      if (updated.bookId !== budget.bookId || updated.segmentId !== budget.segmentId) {
+        updated.currency = await this.getCurrency(updated);
+      }
+      await db.budgets.put(updated);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await undoable('Delete budget', async () => {
+      await db.budgets.delete(id);
+    });
+  }
+
+  // Spending in the period containing `asOf`. With rollover, every earlier
+  // period is read too, since each one's leftover feeds the next. Refunds
+  // in the category or its subcategories count against spending, and other
+  // currencies are converted at the rate in force when each period ends.
+  async getStatus(budget: Budget, asOf: Date = new Date()): Promise<BudgetStatus> {
+    const categoryIds = getSubtreeIds(await db.categories.toArray(), budget.categoryId);
+    const current = getPeriodIndex(budget, asOf);
+    const first = budget.rollover ? 0 : current;
+    const [from] = getPeriodBounds(budget, first);
+    const [periodStart, periodEnd] = getPeriodBounds(budget, current);
+
+    const transactions = await queryTransactions({
+      bookIds: budget.bookId ? [budget.bookId] : undefined,
+      segmentIds: budget.segmentId ? [budget.segmentId] : undefined,
+      categoryIds,
+      dateFrom: from,
+      dateTo: new Date(periodEnd.getTime() - 1)
+    });
+    const books = await db.books.bulkGet([...new Set(transactions.map(t => t.bookId))]);
+    const currencies = new Map(books.filter((b): b is Book => !!b).map(b => [b.id, b.currency]));
+
+    const periods = Array.from({ length: current - first + 1 }, () => new Map<string, number>());
+    for (const transaction of transactions) {
+      const amounts = periods[getPeriodIndex(budget, transaction.date) - first];
+      const currency = currencies.get(transaction.bookId) ?? budget.currency;
+      amounts.set(currency, (amounts.get(currency) ?? 0) + getSpentInCategories(transaction, categoryIds));
+    }
+
+    const exchangeRateService = new ExchangeRateService();
+    const missingRates = new Set<string>();
+    let rolledOver = 0;
+    let spent = 0;
+
+    for (let i = 0; i < periods.length; i++) {
+      const [, end] = getPeriodBounds(budget, first + i);
+      spent = 0;
+      for (const [currency, amount] of periods[i]) {
+        const converted = await exchangeRateService.convert(amount, currency, budget.currency, new Date(end.getTime() - 1));
+        if (converted === undefined) {
+          missingRates.add(currency);
+        } else {
+          spent += converted;
+        }
+      }
+
+      // Overspending is not carried over, only what was left unspent
+      if (i < periods.length - 1) {
+        rolledOver = Math.max(0, budget.amount + rolledOver - spent);
+      }
+    }
+
+    return {
+      budget,
+      periodStart,
+      periodEnd: addDays(periodEnd, -1),
+      rolledOver,
+      limit: budget.amount + rolledOver,
+      spent,
+      missingRates: [...missingRates]
+    };
+  }
+
+  async getStatuses(asOf?: Date): Promise<BudgetStatus[]> {
+    const budgets = await this.getAll();
+    return await Promise.all(budgets.map(budget => this.getStatus(budget, asOf)));
+  }
+
+  // Statuses of the budgets a transaction in this book, categories and date
+  // would count towards
+  async getStatusesFor(bookId: string, categoryIds: string[], date: Date): Promise<BudgetStatus[]> {
+    const book = await db.books.get(bookId);
+    if (!book) return [];
+
+    // Budgets on a parent category count its subcategories too
+    const categories = await db.categories.toArray();
+    const budgets = (await this.getAll()).filter(budget =>
+      getSubtreeIds(categories, budget.categoryId).some(id => categoryIds.includes(id)) &&
+      (budget.bookId === bookId || (!!book.segmentId && budget.segmentId === book.segmentId)) &&
+      date >= budget.startDate &&
+      (budget.period !== 'custom' || !budget.endDate || date <= budget.endDate)
+    );
+    return await Promise.all(budgets.map(budget => this.getStatus(budget, date)));
+  }
+
+  // Budgets that reached a higher warning level between two readings
+  getWarnings(before: BudgetStatus[], after: BudgetStatus[]): BudgetWarning[] {
+    const warnings: BudgetWarning[] = [];
+
+    for (const status of after) {
+      const level = getWarningLevel(status);
+      if (level === undefined) continue;
+
+      const previous = before.find(s => s.budget.id === status.budget.id);
+      const previousLevel = previous && getWarningLevel(previous);
+      if (previousLevel === undefined || previousLevel < level) {
+        warnings.push({ status, level });
+      }
+    }
+    return warnings;
+  }
+}
+
+// Shares of a goal's target celebrated on the dashboard
+export const GOAL_MILESTONES = [0.25, 0.5, 0.75, 1];
+
+// Projections follow the average over this many recent months
+const GOAL_TREND_MONTHS = 3;
+
+type GoalInput = Omit<SavingsGoal, 'id' | 'createdAt' | 'updatedAt'>;
+
+export class GoalService {
+  async getAll(): Promise<SavingsGoal[]> {
+    return await db.goals.orderBy('createdAt').toArray();
+  }
+
+  async getById(id: string): Promise<SavingsGoal | undefined> {
+    return await db.goals.get(id);
+  }
+
+  async create(goal: GoalInput): Promise<SavingsGoal> {
+    return await undoable('Add goal', async () => {
+      const newGoal: SavingsGoal = {
+        ...goal,
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await db.goals.add(newGoal);
+      return newGoal;
+    });
+  }
+
+  async update(id: string, updates: Partial<GoalInput>): Promise<void> {
+    await undoable('Edit goal', async () => {
+      await db.goals.update(id, { ...updates, updatedAt: new Date() });
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await undoable('Delete goal', async () => {
+      await db.goals.delete(id);
+    });
+  }
+
+  // Savings are the linked books' balances plus what went into the linked
+  // categories from other books. The recent rate is how much both grew
+  // over the last few months, which is what the projection extends.
+  async getStatus(goal: SavingsGoal, asOf: Date = new Date()): Promise<GoalStatus> {
+    const books = new Map((await db.books.toArray()).map(book => [book.id, book]));
+    const linkedBooks = goal.bookIds.map(id => books.get(id)).filter((b): b is Book => !!b && !b.deletedAt);
+    const trendStart = subMonths(asOf, GOAL_TREND_MONTHS);
+
+    const savedAmounts = new Map<string, number>();
+    const recentAmounts = new Map<string, number>();
+    const add = (amounts: Map<string, number>, currency: string, amount: number) => {
+      amounts.set(currency, (amounts.get(currency) ?? 0) + amount);
+    };
+    const getCurrency = (t: Transaction) => books.get(t.bookId)?.currency ?? goal.currency;
+
+    for (const book of linkedBooks) {
+      add(savedAmounts, book.currency, book.balance);
+    }
+    if (linkedBooks.length > 0) {
+      const recent = await queryTransactions({ bookIds: linkedBooks.map(b => b.id), dateFrom: trendStart, dateTo: asOf });
+      for (const transaction of recent) {
+        add(recentAmounts, getCurrency(transaction), getBalanceEffect(transaction));
+      }
+    }
+
+    // Transactions in a linked book are already in its balance
+    if (goal.categoryIds.length > 0) {
+      const categoryIds = withSubcategories(await db.categories.toArray(), goal.categoryIds);
+      const contributions = (await queryTransactions({ categoryIds, dateFrom: goal.startDate, dateTo: asOf }))
+        .filter(t => !goal.bookIds.includes(t.bookId));
+      for (const transaction of contributions) {
+        const amount = getSpentInCategories(transaction, categoryIds);
+        add(savedAmounts, getCurrency(transaction), amount);
+        if (transaction.date >= trendStart) {
+          add(recentAmounts, getCurrency(transaction), amount);
+        }
+      }
+    }
+
+    const exchangeRateService = new ExchangeRateService();
+    const missingRates = new Set<string>();
+    const convertAll = async (amounts: Map<string, number>) => {
+      let total = 0;
+      for (const [currency, amount] of amounts) {
+        const converted = await exchangeRateService.convert(amount, currency, goal.currency, asOf);
+        if (converted === undefined) {
+          missingRates.add(currency);
+        } else {
+          total += converted;
+        }
+      }
+      return total;
+    };
+
+    const saved = await convertAll(savedAmounts);
+    const recentTotal = await convertAll(recentAmounts);
+    const remaining = Math.max(goal.targetAmount - saved, 0);
+
+    // A due date this month, or one already past, needs the rest at once
+    const requiredMonthly = goal.dueDate && remaining > 0
+      ? Math.ceil(remaining / Math.max(differenceInCalendarMonths(goal.dueDate, asOf), 1))
+      : undefined;
+    const projectedDate = remaining > 0 && recentTotal > 0
+      ? addDays(asOf, Math.ceil(remaining / recentTotal * differenceInDays(asOf, trendStart)))
+      : undefined;
+
+    return {
+      goal,
+      saved,
+      remaining,
+      monthlyRate: Math.round(recentTotal / GOAL_TREND_MONTHS),
+      requiredMonthly,
+      projectedDate,
+      milestones: GOAL_MILESTONES.filter(milestone => saved >= goal.targetAmount * milestone),
+      missingRates: [...missingRates]
+    };
+  }
+
+  async getStatuses(asOf?: Date): Promise<GoalStatus[]> {
+    const goals = await this.getAll();
+    return await Promise.all(goals.map(goal => this.getStatus(goal, asOf)));
+  }
+}
+
+export class CategoryService {
+  async getAll(): Promise<Category[]> {
+    return await db.categories.orderBy('name').filter(c => !c.deletedAt).toArray();
+  }
+
+  async getById(id: string): Promise<Category | undefined> {
+    return await db.categories.get(id);
+  }
+
+  async create(category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>): Promise<Category> {
+    return await undoable('Add category', async () => {
+      await this.checkParent(undefined, category.parentId);
+
+      const newCategory: Category = {
+        ...category,
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    
+      await db.categories.add(newCategory);
+      return newCategory;
+    });
+  }
+
+  async update(id: string, updates: Partial<Category>): Promise<void> {
+    await undoable('Edit category', async () => {
+      const category = await db.categories.get(id);
+      if (!category) return;
+      if ('parentId' in updates) {
+        await this.checkParent(id, updates.parentId);
+      }
+
+      await db.categories.update(id, { ...updates, updatedAt: new Date() });
+
+      // Category names are part of the transactions' search words
+      if (updates.name !== undefined && updates.name !== category.name) {
+        await reindexSearchWords(db.transactions.where('categoryId').equals(id).or('splitCategoryIds').equals(id));
+      }
+    });
+  }
+
+  // Hidden categories drop out of the pickers but keep their name on the
+  // transactions, budgets and rules already filed under them
+  async setHidden(id: string, hidden: boolean): Promise<void> {
+    await undoable(hidden ? 'Hide category' : 'Show category', async () => {
+      await db.categories.update(id, { isActive: !hidden, updatedAt: new Date() });
+    });
+  }
+
+  async getUsage(id: string): Promise<CategoryUsage> {
+    return {
+      transactions: await db.transactions.where('categoryId').equals(id).or('splitCategoryIds').equals(id).count(),
+      budgets: await db.budgets.where('categoryId').equals(id).count(),
+      recurringRules: await db.recurringRules.filter(rule => rule.categoryId === id).count(),
+      goals: await db.goals.where('categoryIds').equals(id).count(),
+      categorizationRules: await db.categorizationRules.where('categoryId').equals(id).count()
+    };
+  }
+
+  // Moves everything filed under the source categories to the target and
+  // puts the sources in the trash. Their subcategories move under the
+  // target.
+  async merge(sourceIds: string[], targetId: string): Promise<void> {
+    await undoable('Merge categories', async () => {
+      const target = await db.categories.get(targetId);
+      if (!target || target.deletedAt) {
+        throw new Error('Target category not found');
+      }
+
+      const sources = (await db.categories.bulkGet(sourceIds.filter(id => id !== targetId)))
+        .filter((c): c is Category => !!c && !c.deletedAt);
+      if (sources.length === 0) return;
+      const ids = sources.map(c => c.id);
+
+      await db.transactions.where('categoryId').anyOf(ids).modify(t => {
+        t.categoryId = targetId;
+      });
+      await db.transactions.where('splitCategoryIds').anyOf(ids).distinct().modify(t => {
+        t.splits = t.splits?.map(line =>
+          line.categoryId && ids.includes(line.categoryId) ? { ...line, categoryId: targetId } : line
+        );
+        t.splitCategoryIds = getCategoryIds(t);
+      });
+      await db.budgets.where('categoryId').anyOf(ids).modify(budget => {
+        budget.categoryId = targetId;
+      });
+      await db.goals.where('categoryIds').anyOf(ids).distinct().modify(goal => {
+        goal.categoryIds = [...new Set(goal.categoryIds.map(id => ids.includes(id) ? targetId : id))];
+      });
+      await db.recurringRules
+        .filter(rule => !!rule.categoryId && ids.includes(rule.categoryId))
+        .modify(rule => {
+          rule.categoryId = targetId;
+        });
+      await db.categorizationRules.where('categoryId').anyOf(ids).modify(rule => {
+        rule.categoryId = targetId;
+      });
+      await db.parties
+        .filter(party => !!party.defaultCategoryId && ids.includes(party.defaultCategoryId))
+        .modify(party => {
+          party.defaultCategoryId = targetId;
+        });
+
+      // A target that sat under a source takes the source's place in the tree
+      if (target.parentId && ids.includes(target.parentId)) {
+        const parentId = getAncestorIds(await db.categories.toArray(), targetId).find(id => !ids.includes(id));
+        await db.categories.update(targetId, { parentId, updatedAt: new Date() });
+      }
+      await db.categories.where('parentId').anyOf(ids).filter(c => c.id !== targetId).modify(category => {
+        category.parentId = targetId;
+      });
+
+      const trashService = new TrashService();
+      for (const source of sources) {
+        await trashService.moveToTrash('category', source.id, source.name);
+      }
+    });
+  }
+
+  // A category still in use is merged into its replacement, so nothing is
+  // left pointing at a category in the trash. Subcategories stay where they
+  // are and show at the top level meanwhile.
+  async delete(id: string, replacementId?: string): Promise<void> {
+    await undoable('Delete category', async () => {
+      const category = await db.categories.get(id);
+      if (!category || category.deletedAt) return;
+
+      if (replacementId) {
+        await this.merge([id], replacementId);
+        return;
+      }
+      if (isCategoryInUse(await this.getUsage(id))) {
+        throw new Error(`"${category.name}" is still in use; choose a category to move it to`);
+      }
+
+      await new TrashService().moveToTrash('category', id, category.name);
+    });
+  }
+
+  // A category cannot be placed under itself or its own subcategories
+  private async checkParent(id: string | undefined, parentId: string | undefined): Promise<void> {
+    if (!parentId) return;
+
+    const categories = await db.categories.toArray();
+    const parent = categories.find(c => c.id === parentId);
+    if (!parent || parent.deletedAt) {
+      throw new Error('Parent category not found');
+    }
+    if (id && getSubtreeIds(categories, id).includes(parentId)) {
+      throw new Error('A category cannot be placed under itself or its subcategories');
+    }
+  }
+}
+
+type CategorizationRuleInput = Omit<CategorizationRule, 'id' | 'createdAt' | 'updatedAt' | 'priority'>;
+
+const getRuleSubject = (transaction: Transaction, currency: string, party?: string): RuleSubject => ({
+  type: transaction.type,
+  description: transaction.description,
+  notes: transaction.notes,
+  party,
+  amount: transaction.amount,
+  currency
+});
+
+export class CategorizationRuleService {
+  // In the order they run
+  async getAll(): Promise<CategorizationRule[]> {
+    return await db.categorizationRules.orderBy('priority').toArray();
+  }
+
+  async create(rule: CategorizationRuleInput): Promise<CategorizationRule> {
+    return await undoable('Add rule', async () => {
+      this.validate(rule);
+      const last = await db.categorizationRules.orderBy('priority').last();
+
+      const newRule: CategorizationRule = {
+        ...rule,
+        name: rule.name.trim(),
+        id: generateId(),
+        priority: (last?.priority ?? -1) + 1,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await db.categorizationRules.add(newRule);
+      return newRule;
+    });
+  }
+
+  async update(id: string, updates: Partial<CategorizationRuleInput>): Promise<void> {
+    await undoable('Edit rule', async () => {
+      const rule = await db.categorizationRules.get(id);
+      if (!rule) throw new Error('Rule not found');
+
+      const updated = { ...rule, ...updates };
+      this.validate(updated);
+      await db.categorizationRules.update(id, { ...updates, name: updated.name.trim(), updatedAt: new Date() });
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await undoable('Delete rule', async () => {
+      await db.categorizationRules.delete(id);
+    });
+  }
+
+  // Swaps the rule with the one before (-1) or after (1) it
+  async move(id: string, offset: -1 | 1): Promise<void> {
+    await undoable('Reorder rules', async () => {
+      const rules = await this.getAll();
+      const index = rules.findIndex(rule => rule.id === id);
+      const other = rules[index + offset];
+      if (index < 0 || !other) return;
+
+      await db.categorizationRules.update(id, { priority: other.priority, updatedAt: new Date() });
+      await db.categorizationRules.update(other.id, { priority: rules[index].priority, updatedAt: new Date() });
+    });
+  }
+
+  async suggest(subject: RuleSubject): Promise<RuleSuggestion | undefined> {
+    return applyRules(await this.getAll(), subject);
+  }
+
+  // What running the rules over the matching transactions would change.
+  // Tags are only ever added. A category or payment mode already set is
+  // kept unless `overwrite` is on; transfers and split transactions keep
+  // their categories either way.
+  async preview(filter: FilterOptions, overwrite = false): Promise<RuleChange[]> {
+    const rules = await this.getAll();
+    if (!rules.some(rule => rule.isActive)) return [];
+
+    const transactions = await queryTransactions(filter);
+    const currencies = new Map((await db.books.toArray()).map(b => [b.id, b.currency]));
+    const partyNames = new Map((await db.parties.toArray()).map(p => [p.id, p.name]));
+
+    const changes: RuleChange[] = [];
+    for (const transaction of transactions) {
+      const suggestion = applyRules(rules, getRuleSubject(
+        transaction,
+        currencies.get(transaction.bookId) ?? 'BDT',
+        transaction.partyId && partyNames.get(transaction.partyId)
+      ));
+      if (!suggestion) continue;
+
+      const change: RuleChange = { transaction };
+      const canCategorize = !transaction.transferId && !transaction.splits?.length;
+      if (suggestion.categoryId && canCategorize && suggestion.categoryId !== transaction.categoryId && (overwrite || !transaction.categoryId)) {
+        change.categoryId = suggestion.categoryId;
+      }
+      if (suggestion.paymentModeId && suggestion.paymentModeId !== transaction.paymentModeId && (overwrite || !transaction.paymentModeId)) {
+        change.paymentModeId = suggestion.paymentModeId;
+      }
+      const newTags = suggestion.tags.filter(tag => !transaction.tags.includes(tag));
+      if (newTags.length > 0) {
+        change.tags = [...transaction.tags, ...newTags];
+      }
+
+      if (change.categoryId || change.paymentModeId || change.tags) {
+        changes.push(change);
+      }
+    }
+    return changes;
+  }
+
+  async apply(changes: RuleChange[]): Promise<void> {
+    await undoable('Apply rules', async () => {
+      for (const { transaction, categoryId, tags, paymentModeId } of changes) {
+        await db.transactions.update(transaction.id, {
+          ...(categoryId ? { categoryId } : {}),
+          ...(tags ? { tags } : {}),
+          ...(paymentModeId ? { paymentModeId } : {}),
+          updatedAt: new Date()
+        });
+      }
+    });
+  }
+
+  private validate(rule: CategorizationRuleInput): void {
+    if (!rule.name.trim()) {
+      throw new Error('Rule name is required');
+    }
+    if (rule.conditions.length === 0 || rule.conditions.some(condition => !condition.value.trim())) {
+      throw new Error('Every condition needs a value');
+    }
+    // Amounts are read in each book's own currency when the rule runs
+    if (rule.conditions.some(condition => condition.field === 'amount' && parseMoney(condition.value, 'USD') === undefined)) {
+      throw new Error('Amount conditions need a number');
+    }
+    if (!rule.categoryId && !rule.paymentModeId && rule.tags.length === 0) {
+      throw new Error('A rule has to set a category, tags or a payment mode');
+    }
+  }
+}
+
+// Tags are plain strings on transactions and rules, so renaming or merging
+// one rewrites every list that has it
+const replaceTags = (tags: string[], sources: string[], target?: string): string[] => {
+  return [...new Set(tags.flatMap(tag => !sources.includes(tag) ? [tag] : target ? [target] : []))];
+};
+
+export class TagService {
+  async getSummaries(): Promise<TagSummary[]> {
+    const transactions = await db.transactions.filter(t => !t.deletedAt && t.tags.length > 0).toArray();
+    const currencies = new Map((await db.books.toArray()).map(b => [b.id, b.currency]));
+
+    const summaries = new Map<string, TagSummary>();
+    for (const transaction of transactions) {
+      const currency = currencies.get(transaction.bookId) ?? 'BDT';
+      for (const tag of new Set(transaction.tags)) {
+        const summary = summaries.get(tag) ?? { tag, count: 0, totals: [] };
+        summary.count++;
+        if (!transaction.transferId) {
+          let total = summary.totals.find(t => t.currency === currency);
+          if (!total) {
+            total = { currency, income: 0, expense: 0 };
+            summary.totals.push(total);
+          }
+          total[transaction.type] += transaction.amount;
+        }
+        summaries.set(tag, summary);
+      }
+    }
+
+    return [...summaries.values()].sort((a, b) => a.tag.localeCompare(b.tag));
+  }
+
+  // Renaming to a tag that is already in use merges the two
+  async rename(tag: string, name: string): Promise<void> {
+    await this.merge([tag], name, 'Rename tag');
+  }
+
+  async merge(tags: string[], target: string, label = 'Merge tags'): Promise<void> {
+    const name = target.trim();
+    if (!name) throw new Error('Tag name is required');
+    if (name.includes(',')) throw new Error('Tags cannot contain commas');
+
+    await this.rewrite(label, tags.filter(tag => tag !== name), name);
+  }
+
+  // Removes the tag everywhere; the transactions themselves are kept
+  async delete(tag: string): Promise<void> {
+    await this.rewrite('Delete tag', [tag]);
+  }
+
+  // Transactions in the trash keep their tags as they were deleted with
+  private async rewrite(label: string, sources: string[], target?: string): Promise<void> {
+    if (sources.length === 0) return;
+
+    await undoable(label, async () => {
+      const hasSource = (tags: string[]) => tags.some(tag => sources.includes(tag));
+
+      await db.transactions.filter(t => !t.deletedAt && hasSource(t.tags)).modify(t => {
+        t.tags = replaceTags(t.tags, sources, target);
+      });
+      await db.recurringRules.filter(rule => hasSource(rule.tags)).modify(rule => {
+        rule.tags = replaceTags(rule.tags, sources, target);
+      });
+      await db.categorizationRules.filter(rule => hasSource(rule.tags)).modify(rule => {
+        rule.tags = replaceTags(rule.tags, sources, target);
+      });
+    });
+  }
+}
+
+export class SettingsService {
+  async get<T>(key: string, defaultValue: T): Promise<T> {
+    const setting = await db.settings.where('key').equals(key).first();
+    return setting ? setting.value as T : defaultValue;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const existing = await db.settings.where('key').equals(key).first();
+    
+    if (existing) {
+      await db.settings.update(existing.id, { value, updatedAt: new Date() });
+    } else {
+      await db.settings.add({ id: generateId(), key, value, updatedAt: new Date() });
+    }
+  }
+
+  async getBaseCurrency(): Promise<string> {
+    return await this.get('baseCurrency', 'BDT');
+  }
+
+  async setBaseCurrency(currency: string): Promise<void> {
+    await this.set('baseCurrency', currency);
+  }
+
+  async getMigrationLog(): Promise<MigrationLogEntry[]> {
+    return await this.get<MigrationLogEntry[]>(MIGRATION_LOG_KEY, []);
+  }
+
+  async getActorName(): Promise<string> {
+    return await this.get('actorName', '');
+  }
+
+  async setActorName(name: string): Promise<void> {
+    await this.set('actorName', name);
+    setHistoryActor(name);
+  }
+
+  async getTrashRetentionDays(): Promise<number> {
+    return await this.get('trashRetentionDays', 30);
+  }
+
+  async setTrashRetentionDays(days: number): Promise<void> {
+    await this.set('trashRetentionDays', days);
+  }
+}
+
+const SAVED_VIEWS_KEY = 'savedViews';
+
+interface SavedViewsFile {
+  app: 'CashLite';
+  savedViews: SavedView[];
+}
+
+// What was paid to a party minus what was received from them, per
+// currency; transactions are in their book's currency
+const getPartyBalances = async (transactions: Transaction[]): Promise<CurrencySubtotal[]> => {
+  const books = await db.books.bulkGet([...new Set(transactions.map(t => t.bookId))]);
+  const currencies = new Map(books.filter((b): b is Book => !!b).map(b => [b.id, b.currency]));
+
+  const balances = new Map<string, number>();
+  for (const transaction of transactions) {
+    const currency = currencies.get(transaction.bookId);
+    if (!currency) continue;
+    balances.set(currency, (balances.get(currency) ?? 0) - getBalanceEffect(transaction));
+  }
+  return [...balances].map(([currency, amount]) => ({ currency, amount }));
+};
+
+export class PartyService {
+  async getAll(): Promise<Party[]> {
+    const parties = await db.parties.toArray();
+    return parties.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getById(id: string): Promise<Party | undefined> {
+    return await db.parties.get(id);
+  }
+
+  // Names are matched without regard to case or surrounding spaces
+  async findByName(name: string): Promise<Party | undefined> {
+    const key = name.trim().toLowerCase();
+    return await db.parties.filter(party => party.name.toLowerCase() === key).first();
+  }
+
+  async create(party: Omit<Party, 'id' | 'createdAt' | 'updatedAt'>): Promise<Party> {
+    return await undoable('Add party', async () => {
+      const name = party.name.trim();
+      if (!name) throw new Error('Party name is required');
+      if (await this.findByName(name)) {
+        throw new Error(`A party named "${name}" already exists`);
+      }
+
+      const newParty: Party = {
+        ...party,
+        name,
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await db.parties.add(newParty);
+      return newParty;
+    });
   }
 
-  async create(book: Omit<Book, 'id' | 'createdAt' | 'updatedAt' | 'balance'>): Promise<Book> {
-    const newBook: Book = {
-      ...book,
-      id: generateId(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      balance: 0
-    };
-    
-    await db.books.add(newBook);
-    return newBook;
+  // Imports refer to parties by name only
+  async getOrCreate(name: string): Promise<Party> {
+    return await undoable('Add party', async () => {
+      return (await this.findByName(name)) ?? await this.create({ name });
+    });
   }
 
-  async update(id: string, updates: Partial<Book>): Promise<void> {
-    await db.books.update(id, { ...updates, updatedAt: new Date() });
+  async update(id: string, updates: Partial<Party>): Promise<void> {
+    await undoable('Edit party', async () => {
+      const party = await db.parties.get(id);
+      if (!party) return;
+
+      const name = updates.name?.trim();
+      if (name !== undefined) {
+        if (!name) throw new Error('Party name is required');
+        const existing = await this.findByName(name);
+        if (existing && existing.id !== id) {
+          throw new Error(`A party named "${name}" already exists`);
+        }
+      }
+
+      await db.parties.update(id, { ...updates, ...(name === undefined ? {} : { name }), updatedAt: new Date() });
+
+      // Party names are part of the transactions' search words
+      if (name !== undefined && name !== party.name) {
+        await reindexSearchWords(db.transactions.where('partyId').equals(id));
+      }
+    });
   }
 
+  // Transactions stay as they are and only lose the link to the party
   async delete(id: string): Promise<void> {
-    await db.books.delete(id);
+    await undoable('Delete party', async () => {
+      await db.transactions.where('partyId').equals(id).modify(t => {
+        delete t.partyId;
+      });
+      await db.recurringRules.filter(rule => rule.partyId === id).modify(rule => {
+        delete rule.partyId;
+      });
+      await db.parties.delete(id);
+    });
   }
 
-  async getBalance(bookId: string): Promise<number> {
-    const transactions = await db.transactions
-      .where('bookId')
-      .equals(bookId)
-      .toArray();
-    
-    return transactions.reduce((total, transaction) => {
-      return transaction.type === 'income' 
-        ? total + transaction.amount 
-        : total - transaction.amount;
-    }, 0);
+  // All of the party's transactions across books, newest first
+  async getLedger(id: string): Promise<PartyLedger | undefined> {
+    const party = await db.parties.get(id);
+    if (!party) return undefined;
+
+    const transactions = (await db.transactions.where('partyId').equals(id).filter(t => !t.deletedAt).toArray())
+      .sort((a, b) => b.date.getTime() - a.date.getTime() || b.createdAt.getTime() - a.createdAt.getTime());
+    return { party, transactions, balances: await getPartyBalances(transactions) };
   }
 
-  async updateBalance(bookId: string): Promise<void> {
-    const balance = await this.getBalance(bookId);
-    await db.books.update(bookId, { balance });
+  // Balances of every party that has transactions, by party id
+  async getBalances(): Promise<Map<string, CurrencySubtotal[]>> {
+    const transactions = await db.transactions.orderBy('partyId').filter(t => !t.deletedAt).toArray();
+    const byParty = groupBy(transactions, t => t.partyId!);
+
+    const balances = new Map<string, CurrencySubtotal[]>();
+    for (const [partyId, partyTransactions] of Object.entries(byParty)) {
+      balances.set(partyId, await getPartyBalances(partyTransactions));
+    }
+    return balances;
   }
 }
 
-export class SegmentService {
-  async getAll(): Promise<Segment[]> {
-    return await db.segments.orderBy('name').toArray();
+export class PaymentModeService {
+  async getAll(): Promise<PaymentMode[]> {
+    const modes = await db.paymentModes.toArray();
+    return modes.sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async getById(id: string): Promise<Segment | undefined> {
-    return await db.segments.get(id);
+  // Names are matched without regard to case or surrounding spaces
+  async findByName(name: string): Promise<PaymentMode | undefined> {
+    const key = name.trim().toLowerCase();
+    return await db.paymentModes.filter(mode => mode.name.toLowerCase() === key).first();
   }
 
-  async create(segment: Omit<Segment, 'id' | 'createdAt' | 'updatedAt' | 'totalBalance'>): Promise<Segment> {
-    const newSegment: Segment = {
-      ...segment,
-      id: generateId(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      totalBalance: 0
-    };
-    
-    await db.segments.add(newSegment);
-    return newSegment;
+  async create(name: string): Promise<PaymentMode> {
+    return await undoable('Add payment mode', async () => {
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error('Payment mode name is required');
+      if (await this.findByName(trimmed)) {
+        throw new Error(`A payment mode named "${trimmed}" already exists`);
+      }
+
+      const newMode: PaymentMode = {
+        id: generateId(),
+        name: trimmed,
+        isDefault: false,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await db.paymentModes.add(newMode);
+      return newMode;
+    });
   }
 
-  async update(id: string, updates: Partial<Segment>): Promise<void> {
-    await db.segments.update(id, { ...updates, updatedAt: new Date() });
+  // Imports refer to payment modes by name only
+  async getOrCreate(name: string): Promise<PaymentMode> {
+    return await undoable('Add payment mode', async () => {
+      return (await this.findByName(name)) ?? await this.create(name);
+    });
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    await undoable('Rename payment mode', async () => {
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error('Payment mode name is required');
+      const existing = await this.findByName(trimmed);
+      if (existing && existing.id !== id) {
+        throw new Error(`A payment mode named "${trimmed}" already exists`);
+      }
+
+      await db.paymentModes.update(id, { name: trimmed, updatedAt: new Date() });
+    });
   }
 
+  // Transactions and rules stay as they are, without a payment mode
   async delete(id: string): Promise<void> {
-    await db.segments.delete(id);
+    await undoable('Delete payment mode', async () => {
+      await db.transactions.where('paymentModeId').equals(id).modify(t => {
+        delete t.paymentModeId;
+      });
+      await db.recurringRules.filter(rule => rule.paymentModeId === id).modify(rule => {
+        delete rule.paymentModeId;
+      });
+      await db.categorizationRules.where('paymentModeId').equals(id).modify(rule => {
+        delete rule.paymentModeId;
+      });
+      await db.paymentModes.delete(id);
+    });
   }
 
-  async getTotalBalance(segmentId: string): Promise<number> {
-    const books = await db.books.where('segmentId').equals(segmentId).toArray();
-    let total = 0;
-    
-    for (const book of books) {
-      const balance = await new BookService().getBalance(book.id);
-      total += balance;
+  // Income and expense per payment mode in one month of a book. Transfers
+  // only move money between books, so they count as neither.
+  async getTotals(bookId: string, year: number, month: number): Promise<PaymentModeTotal[]> {
+    const transactions = await queryTransactions({
+      bookIds: [bookId],
+      dateFrom: new Date(year, month - 1, 1),
+      dateTo: new Date(new Date(year, month, 1).getTime() - 1)
+    });
+
+    const totals = new Map<string | undefined, PaymentModeTotal>();
+    for (const transaction of transactions) {
+      if (transaction.transferId) continue;
+      const total = totals.get(transaction.paymentModeId) ?? { paymentModeId: transaction.paymentModeId, income: 0, expense: 0 };
+      total[transaction.type] += transaction.amount;
+      totals.set(transaction.paymentModeId, total);
     }
-    
-    return total;
+    return [...totals.values()];
+  }
+}
+
+// Saved views are kept as one list in settings, in the order they were made
+export class SavedViewService {
+  private settings = new SettingsService();
+
+  async getAll(): Promise<SavedView[]> {
+    return await this.settings.get<SavedView[]>(SAVED_VIEWS_KEY, []);
+  }
+
+  async getById(id: string): Promise<SavedView | undefined> {
+    return (await this.getAll()).find(view => view.id === id);
   }
 
-  async updateTotalBalance(segmentId: string): Promise<void> {
-    const totalBalance = await this.getTotalBalance(segmentId);
-    await db.segments.update(segmentId, { totalBalance });
+  async create(view: Omit<SavedView, 'id' | 'createdAt' | 'updatedAt'>): Promise<SavedView> {
+    return await undoable('Save view', async () => {
+      const newView: SavedView = {
+        ...view,
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await this.settings.set(SAVED_VIEWS_KEY, [...await this.getAll(), newView]);
+      return newView;
+    });
+  }
+
+  async update(id: string, updates: Partial<SavedView>): Promise<void> {
+    await undoable('Edit view', async () => {
+      const views = await this.getAll();
+      await this.settings.set(SAVED_VIEWS_KEY, views.map(view =>
+        view.id === id ? { ...view, ...updates, updatedAt: new Date() } : view
+      ));
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await undoable('Delete view', async () => {
+      const views = await this.getAll();
+      await this.settings.set(SAVED_VIEWS_KEY, views.filter(view => view.id !== id));
+    });
+  }
+
+  // The filter a view stands for right now. Views without a book: term
+  // follow the current book, like the search bar does.
+  async getFilter(view: SavedView, currentBook: Book): Promise<FilterOptions> {
+    const [categories, books] = await Promise.all([
+      db.categories.filter(c => !c.deletedAt).toArray(),
+      db.books.filter(b => !b.deletedAt).toArray()
+    ]);
+    const { filter } = parseQuery(view.query, { categories, books, currency: currentBook.currency });
+    return applyQuery(view.filter, filter, [currentBook.id]);
+  }
+
+  async getSummary(view: SavedView, currentBook: Book): Promise<SavedViewSummary> {
+    const transactions = await queryTransactions(await this.getFilter(view, currentBook));
+    const books = await db.books.bulkGet([...new Set(transactions.map(t => t.bookId))]);
+    const currencies = new Map(books.filter((b): b is Book => !!b).map(b => [b.id, b.currency]));
+
+    const totals = new Map<string, number>();
+    for (const transaction of transactions) {
+      const currency = currencies.get(transaction.bookId) ?? currentBook.currency;
+      totals.set(currency, (totals.get(currency) ?? 0) + getBalanceEffect(transaction));
+    }
+
+    return {
+      count: transactions.length,
+      totals: [...totals].map(([currency, amount]) => ({ currency, amount }))
+    };
+  }
+
+  async exportViews(): Promise<string> {
+    const file: SavedViewsFile = { app: 'CashLite', savedViews: await this.getAll() };
+    return JSON.stringify(encodeValue(file), null, 2);
+  }
+
+  // Imported views get new ids, so importing the same file twice gives two
+  // copies rather than overwriting views edited since
+  async importViews(content: string): Promise<number> {
+    let file: SavedViewsFile;
+    try {
+      file = decodeValue(JSON.parse(content)) as SavedViewsFile;
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    if (!file || file.app !== 'CashLite' || !Array.isArray(file.savedViews)) {
+      throw new Error('The file does not contain CashLite saved views');
+    }
+
+    const imported = file.savedViews
+      .filter(view => typeof view.name === 'string' && typeof view.query === 'string')
+      .map(view => ({
+        id: generateId(),
+        name: view.name,
+        query: view.query,
+        filter: view.filter ?? {},
+        isPinned: !!view.isPinned,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }));
+
+    await undoable('Import views', async () => {
+      await this.settings.set(SAVED_VIEWS_KEY, [...await this.getAll(), ...imported]);
+    });
+    return imported.length;
   }
 }
 
-export class TransactionService {
-  async getAll(filter?: FilterOptions): Promise<Transaction[]> {
-    let query = db.transactions.orderBy('date').reverse();
-    
-    if (filter) {
-      if (filter.bookIds && filter.bookIds.length > 0) {
-        query = query.filter(t => filter.bookIds!.includes(t.bookId));
-      }
-      
-      if (filter.type) {
-        query = query.filter(t => t.type === filter.type);
-      }
-      
-      if (filter.dateFrom) {
-        query = query.filter(t => t.date >= filter.dateFrom!);
-      }
-      
-      if (filter.dateTo) {
-        query = query.filter(t => t.date <= filter.dateTo!);
-      }
-      
-      if (filter.categoryIds && filter.categoryIds.length > 0) {
-        query = query.filter(t => !!t.categoryId && filter.categoryIds!.includes(t.categoryId));
+// Books leave and rejoin their segment's total when trashed and restored
+const refreshSegmentTotals = async (bookIds: string[]): Promise<void> => {
+  const books = await db.books.bulkGet(bookIds);
+  const segmentIds = new Set(books.map(book => book?.segmentId).filter((id): id is string => !!id));
+  for (const segmentId of segmentIds) {
+    await new SegmentService().updateTotalBalance(segmentId);
+  }
+};
+
+export class TrashService {
+  async getAll(): Promise<TrashEntry[]> {
+    return await db.trash.orderBy('deletedAt').reverse().toArray();
+  }
+
+  // Marks the item, and any transactions removed along with it, as deleted
+  // under one trash entry. Callers run this inside their own transaction.
+  async moveToTrash(itemType: TrashItemType, itemId: string, name: string, transactionIds: string[] = []): Promise<TrashEntry> {
+    const entry: TrashEntry = {
+      id: generateId(),
+      itemType,
+      itemId,
+      name,
+      itemCount: Math.max(transactionIds.length + (itemType === 'transaction' ? 0 : 1), 1),
+      deletedAt: new Date()
+    };
+    const marker = { deletedAt: entry.deletedAt, trashId: entry.id };
+
+    switch (itemType) {
+      case 'book': await db.books.update(itemId, marker); break;
+      case 'segment': await db.segments.update(itemId, marker); break;
+      case 'category': await db.categories.update(itemId, marker); break;
+    }
+    if (transactionIds.length > 0) {
+      const transactions = await db.transactions.where('id').anyOf(transactionIds).toArray();
+      await db.transactions.where('id').anyOf(transactionIds).modify(marker);
+      await applyBalanceChanges(transactions.map(t => ({ before: t, after: { ...t, ...marker } })));
+    }
+    if (itemType === 'book') {
+      await refreshSegmentTotals([itemId]);
+    }
+
+    await db.trash.add(entry);
+    return entry;
+  }
+
+  async restore(trashId: string): Promise<void> {
+    await undoable('Restore from trash', async () => {
+      const clear = (item: { deletedAt?: Date; trashId?: string }) => {
+        delete item.deletedAt;
+        delete item.trashId;
+      };
+
+      const transactions = await db.transactions.where('trashId').equals(trashId).toArray();
+      const bookIds = (await db.books.where('trashId').equals(trashId).toArray()).map(b => b.id);
+
+      await db.transactions.where('trashId').equals(trashId).modify(clear);
+      await db.books.where('trashId').equals(trashId).modify(clear);
+      await db.segments.where('trashId').equals(trashId).modify(clear);
+      await db.categories.where('trashId').equals(trashId).modify(clear);
+      await db.trash.delete(trashId);
+
+      await applyBalanceChanges(transactions.map(t => {
+        const restored = { ...t };
+        clear(restored);
+        return { before: t, after: restored };
+      }));
+      await refreshSegmentTotals(bookIds);
+    });
+  }
+
+  async purge(trashId: string): Promise<void> {
+    await undoable('Delete permanently', async () => {
+      const books = await db.books.where('trashId').equals(trashId).toArray();
+      const bookIds = books.map(b => b.id);
+
+      // Transactions of the book that were trashed on their own, before the
+      // book was, cannot outlive it
+      const strays = bookIds.length === 0 ? [] : await db.transactions
+        .where('bookId')
+        .anyOf(bookIds)
+        .filter(t => !!t.trashId && t.trashId !== trashId)
+        .toArray();
+      const trashIds = [trashId, ...new Set(strays.map(t => t.trashId!))];
+
+      const segmentIds = await db.segments.where('trashId').anyOf(trashIds).primaryKeys();
+      const categoryIds = await db.categories.where('trashId').anyOf(trashIds).primaryKeys();
+      const transactionIds = await db.transactions.where('trashId').anyOf(trashIds).primaryKeys();
+
+      await db.attachments.where('transactionId').anyOf(transactionIds).delete();
+      await db.transactions.where('trashId').anyOf(trashIds).delete();
+      await db.books.where('trashId').anyOf(trashIds).delete();
+      await db.segments.where('trashId').anyOf(trashIds).delete();
+      await db.categories.where('trashId').anyOf(trashIds).delete();
+      await db.trash.bulkDelete(trashIds);
+
+      if (bookIds.length > 0) {
+        await db.recurringRules.where('bookId').anyOf(bookIds).delete();
+        await db.budgets.where('bookId').anyOf(bookIds).delete();
+        await db.goals.where('bookIds').anyOf(bookIds).distinct().modify(goal => {
+          goal.bookIds = goal.bookIds.filter(id => !bookIds.includes(id));
+        });
       }
-      
-      if (filter.amountMin !== undefined) {
-        query = query.filter(t => t.amount >= filter.amountMin!);
+      if (segmentIds.length > 0) {
+        await db.books.where('segmentId').anyOf(segmentIds).modify(book => {
+          delete book.segmentId;
+        });
+        await db.budgets.where('segmentId').anyOf(segmentIds).delete();
       }
-      
-      if (filter.amountMax !== undefined) {
-        query = query.filter(t => t.amount <= filter.amountMax!);
+      if (categoryIds.length > 0) {
+        // Subcategories left behind move up to the top level
+        await db.categories.where('parentId').anyOf(categoryIds).modify(category => {
+          delete category.parentId;
+        });
+        await db.budgets.where('categoryId').anyOf(categoryIds).delete();
+        await db.goals.where('categoryIds').anyOf(categoryIds).distinct().modify(goal => {
+          goal.categoryIds = goal.categoryIds.filter(id => !categoryIds.includes(id));
+        });
+        await db.transactions.where('categoryId').anyOf(categoryIds).modify(t => {
+          delete t.categoryId;
+        });
+        await db.transactions.where('splitCategoryIds').anyOf(categoryIds).distinct().modify(t => {
+          t.splits = t.splits?.map(line =>
+            line.categoryId && categoryIds.includes(line.categoryId) ? { ...line, categoryId: undefined } : line
+          );
+          t.splitCategoryIds = t.splits ? getCategoryIds(t) : undefined;
+        });
+        await db.recurringRules
+          .filter(rule => !!rule.categoryId && categoryIds.includes(rule.categoryId))
+          .modify(rule => {
+            delete rule.categoryId;
+          });
+        await db.categorizationRules.where('categoryId').anyOf(categoryIds).modify(rule => {
+          delete rule.categoryId;
+        });
+        await db.parties
+          .filter(party => !!party.defaultCategoryId && categoryIds.includes(party.defaultCategoryId))
+          .modify(party => {
+            delete party.defaultCategoryId;
+          });
       }
-      
-      if (filter.searchText) {
-        const searchLower = filter.searchText.toLowerCase();
-        query = query.filter(t => 
-          t.description.toLowerCase().includes(searchLower) ||
-          (t.notes ? t.notes.toLowerCase().includes(searchLower) : false)
-        );
+    });
+  }
+
+  async empty(): Promise<void> {
+    await undoable('Empty trash', async () => {
+      const entries = await db.trash.toArray();
+      for (const entry of entries) {
+        await this.purge(entry.id);
       }
-      
-      if (filter.tags && filter.tags.length > 0) {
-        query = query.filter(t => 
-          filter.tags!.some(tag => t.tags.includes(tag))
-        );
+    });
+  }
+
+  // Permanently deletes whatever has been in the trash longer than the
+  // retention period. Runs on startup.
+  async purgeExpired(asOf: Date = new Date()): Promise<number> {
+    // Clean-up is not something the user did, so it cannot be undone
+    return await db.transaction('rw', getUndoableTables(), async () => {
+      const days = await new SettingsService().getTrashRetentionDays();
+      const cutoff = addDays(asOf, -days);
+      const expired = await db.trash.where('deletedAt').below(cutoff).toArray();
+
+      for (const entry of expired) {
+        await this.purge(entry.id);
       }
+      return expired.length;
+    });
+  }
+}
+
+export class HistoryService {
+  // Newest first
+  async getForRecord(table: string, recordId: string): Promise<HistoryEntry[]> {
+    const entries = await db.history.where('[table+recordId]').equals([table, recordId]).toArray();
+    return entries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.sequence - a.sequence);
+  }
+
+  // Entries of the transactions table only ever hold transactions
+  async getForTransaction(transactionId: string): Promise<HistoryEntry<Transaction>[]> {
+    return await this.getForRecord('transactions', transactionId) as HistoryEntry<Transaction>[];
+  }
+}
+
+interface RecordChange {
+  table: string;
+  recordId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Collapses an operation's history into one change per record, from its
+// state before the first write to its state after the last.
+const getOperationChanges = async (operationId: string): Promise<RecordChange[]> => {
+  const entries = await db.history.where('operationId').equals(operationId).toArray();
+  entries.sort((a, b) => a.sequence - b.sequence);
+
+  const changes = new Map<string, RecordChange>();
+  for (const entry of entries) {
+    const key = `${entry.table}:${entry.recordId}`;
+    const change = changes.get(key);
+    if (change) {
+      change.after = entry.after;
+    } else {
+      changes.set(key, { table: entry.table, recordId: entry.recordId, before: entry.before, after: entry.after });
     }
-    
-    return await query.toArray();
   }
 
-  async getById(id: string): Promise<Transaction | undefined> {
-    return await db.transactions.get(id);
+  return [...changes.values()];
+};
+
+// Balances and attachment counts are derived and recomputed after every
+// undo, and search words are rewritten on every put, so none of them counts
+// as a conflicting change.
+const isSameRecord = (a: unknown, b: unknown): boolean => {
+  const strip = (record: unknown) => typeof record === 'object' && record !== null
+    ? { ...record, balance: undefined, totalBalance: undefined, searchWords: undefined, attachmentCount: undefined }
+    : record;
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+};
+
+// Book of a transaction read back from the history
+const getBookId = (record: unknown): string | undefined => {
+  if (typeof record !== 'object' || record === null || !('bookId' in record)) return undefined;
+  return typeof record.bookId === 'string' ? record.bookId : undefined;
+};
+
+export class UndoService {
+  // Groups several service calls into a single undoable step
+  async run<T>(label: string, mutation: () => Promise<T>): Promise<T> {
+    return await undoable(label, mutation);
   }
 
-  async create(transaction: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>): Promise<Transaction> {
-    const newTransaction: Transaction = {
-      ...transaction,
-      id: generateId(),
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    
-    await db.transactions.add(newTransaction);
-    
-    // Update book balance
-    await new BookService().updateBalance(transaction.bookId);
-    
-    return newTransaction;
+  canUndo(): boolean {
+    return undoStack.length > 0;
   }
 
-  async update(id: string, updates: Partial<Transaction>): Promise<void> {
-    const transaction = await db.transactions.get(id);
-    if (!transaction) return;
-    
-    await db.transactions.update(id, { ...updates, updatedAt: new Date() });
-    
-    // Update book balance
-    await new BookService().updateBalance(transaction.bookId);
+  // The step the mutation that just finished made, for a toast to undo that
+  // step and no other
+  getLastOperationId(): string | undefined {
+    return lastOperationId;
   }
 
-  async delete(id: string): Promise<void> {
-    const transaction = await db.transactions.get(id);
-    if (!transaction) return;
-    
-    await db.transactions.delete(id);
-    
-    // Update book balance
-    await new BookService().updateBalance(transaction.bookId);
+  isNextUndo(operationId: string): boolean {
+    return undoStack[undoStack.length - 1]?.operationId === operationId;
   }
 
-  async getMonthlyStats(bookId: string, year: number, month: number): Promise<{ income: number; expense: number }> {
-    const startDate = new Date(year, month - 1, 1);
-    const endDate = new Date(year, month, 0);
-    
-    const transactions = await db.transactions
-      .where('bookId')
-      .equals(bookId)
-      .filter(t => t.date >= startDate && t.date <= endDate)
-      .toArray();
-    
-    return transactions.reduce(
-      (stats, transaction) => {
-        if (transaction.type === 'income') {
-          stats.income += transaction.amount;
+  canRedo(): boolean {
+    return redoStack.length > 0;
+  }
+
+  // Returns the label of the undone step, or undefined when there is none.
+  // With an operationId, only that step is undone, and only while it is the
+  // latest one.
+  async undo(operationId?: string): Promise<string | undefined> {
+    if (operationId && !this.isNextUndo(operationId)) return undefined;
+    const operation = undoStack.pop();
+    if (!operation) return undefined;
+
+    await this.apply(operation, 'undo');
+    redoStack.push(operation);
+    return operation.label;
+  }
+
+  async redo(): Promise<string | undefined> {
+    const operation = redoStack.pop();
+    if (!operation) return undefined;
+
+    await this.apply(operation, 'redo');
+    undoStack.push(operation);
+    return operation.label;
+  }
+
+  // Puts every record the operation touched back to its state at the other
+  // end of it. Records changed again since cannot be rolled back safely, in
+  // which case the step is dropped.
+  private async apply(operation: UndoableOperation, direction: 'undo' | 'redo'): Promise<void> {
+    const changes = await getOperationChanges(operation.operationId);
+
+    await db.transaction('rw', getUndoableTables(), async () => {
+      const bookIds = new Set<string>();
+      const transactionIds = new Set<string>();
+
+      for (const change of changes) {
+        const [expected, target] = direction === 'undo'
+          ? [change.after, change.before]
+          : [change.before, change.after];
+        const table = db.table(change.table);
+        const current: unknown = await table.get(change.recordId);
+
+        if (!isSameRecord(current, expected)) {
+          throw new Error(`"${operation.label}" cannot be ${direction === 'undo' ? 'undone' : 'redone'} because the data has changed since`);
+        }
+
+        if (target) {
+          await table.put(target);
         } else {
-          stats.expense += transaction.amount;
+          await table.delete(change.recordId);
         }
-        return stats;
-      },
-      { income: 0, expense: 0 }
-    );
+
+        if (change.table === 'books') {
+          bookIds.add(change.recordId);
+        } else if (change.table === 'transactions') {
+          for (const bookId of [getBookId(current), getBookId(target)]) {
+            if (bookId) bookIds.add(bookId);
+          }
+          transactionIds.add(change.recordId);
+        }
+      }
+
+      await new AttachmentService().reconcile([...transactionIds]);
+
+      for (const bookId of bookIds) {
+        if (await db.books.get(bookId)) {
+          await new BookService().updateBalance(bookId);
+        }
+      }
+    });
   }
 }
 
-export class CategoryService {
-  async getAll(): Promise<Category[]> {
-    return await db.categories.orderBy('name').toArray();
+export class BackupService {
+  getSchemaVersion(): number {
+    return db.verno;
   }
 
-  async getById(id: string): Promise<Category | undefined> {
-    return await db.categories.get(id);
+  async downloadFullBackup(): Promise<void> {
+    const backup = await exportDatabase(db);
+    downloadBackup(serializeBackup(backup), backup.schemaVersion);
   }
 
-  async create(category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>): Promise<Category> {
-    const newCategory: Category = {
-      ...category,
-      id: generateId(),
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    
-    await db.categories.add(newCategory);
-    return newCategory;
+  async getStoredBackups(): Promise<StoredBackup[]> {
+    return await getStoredBackups();
   }
 
-  async update(id: string, updates: Partial<Category>): Promise<void> {
-    await db.categories.update(id, { ...updates, updatedAt: new Date() });
+  async downloadStoredBackup(id: string): Promise<void> {
+    await downloadStoredBackup(id);
+  }
+}
+
+export class ExchangeRateService {
+  async getAll(): Promise<ExchangeRate[]> {
+    return await db.exchangeRates.orderBy('date').reverse().toArray();
+  }
+
+  async create(rate: Omit<ExchangeRate, 'id' | 'createdAt' | 'updatedAt'>): Promise<ExchangeRate> {
+    return await undoable('Add exchange rate', async () => {
+      if (rate.fromCurrency === rate.toCurrency) {
+        throw new Error('Choose two different currencies');
+      }
+
+      if (!(rate.rate > 0)) {
+        throw new Error('Rate must be greater than 0');
+      }
+
+      const newRate: ExchangeRate = {
+        ...rate,
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await db.exchangeRates.add(newRate);
+      return newRate;
+    });
   }
 
   async delete(id: string): Promise<void> {
-    await db.categories.delete(id);
+    await undoable('Delete exchange rate', async () => {
+      await db.exchangeRates.delete(id);
+    });
+  }
+
+  // Uses the most recent rate entered for the pair on or before `asOf`,
+  // in either direction.
+  async getRate(fromCurrency: string, toCurrency: string, asOf: Date = new Date()): Promise<number | undefined> {
+    if (fromCurrency === toCurrency) return 1;
+
+    const latest = async (from: string, to: string) => {
+      const rates = await db.exchangeRates
+        .where('[fromCurrency+toCurrency]')
+        .equals([from, to])
+        .filter(r => r.date <= asOf)
+        .sortBy('date');
+      return rates[rates.length - 1];
+    };
+
+    const direct = await latest(fromCurrency, toCurrency);
+    const inverse = await latest(toCurrency, fromCurrency);
+
+    if (direct && (!inverse || direct.date >= inverse.date)) {
+      return direct.rate;
+    }
+    return inverse ? 1 / inverse.rate : undefined;
+  }
+
+  // Amounts are in minor units of their currency
+  async convert(amount: number, fromCurrency: string, toCurrency: string, asOf?: Date): Promise<number | undefined> {
+    const rate = await this.getRate(fromCurrency, toCurrency, asOf);
+    return rate === undefined ? undefined : convertMinorUnits(amount, fromCurrency, toCurrency, rate);
   }
 }
 
 export class ImportService {
   async importCSV(csvData: string, bookId: string): Promise<ImportResult> {
-    const lines = csvData.split('\n').filter(line => line.trim());
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
+    return await undoable('Import transactions', async () => {
+      const lines = csvData.split('\n').filter(line => line.trim());
+      const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
     
-    const result: ImportResult = {
-      success: false,
-      imported: 0,
-      skipped: 0,
-      errors: [],
-      transactions: []
-    };
+      const result: ImportResult = {
+        success: false,
+        imported: 0,
+        skipped: 0,
+        errors: [],
+        transactions: []
+      };
 
-    try {
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
+      try {
+        const book = await db.books.get(bookId);
+        if (!book) throw new Error('Book not found');
+        const rules = await new CategorizationRuleService().getAll();
+
+        for (let i = 1; i < lines.length; i++) {
+          const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
         
-        if (values.length !== headers.length) {
-          result.errors.push(`Line ${i + 1}: Invalid number of columns`);
-          result.skipped++;
-          continue;
-        }
+          if (values.length !== headers.length) {
+            result.errors.push(`Line ${i + 1}: Invalid number of columns`);
+            result.skipped++;
+            continue;
+          }
+
+          const row: CSVRow = headers.reduce((obj, header, index) => {
+            obj[header as keyof CSVRow] = values[index];
+            return obj;
+          }, {} as CSVRow);
 
-        const row: CSVRow = headers.reduce((obj, header, index) => {
-          obj[header as keyof CSVRow] = values[index];
-          return obj;
-        }, {} as CSVRow);
-
-        try {
-          const transaction = await this.parseCSVRow(row, bookId);
-          if (transaction) {
-            const created = await new TransactionService().create(transaction);
-            result.transactions.push(created);
-            result.imported++;
-          } else {
+          try {
+            const transaction = await this.parseCSVRow(row, book, rules);
+            if (transaction) {
+              const created = await new TransactionService().create(transaction);
+              result.transactions.push(created);
+              result.imported++;
+            } else {
+              result.skipped++;
+            }
+          } catch (error) {
+            result.errors.push(`Line ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
             result.skipped++;
           }
-        } catch (error) {
-          result.errors.push(`Line ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          result.skipped++;
         }
-      }
 
-      result.success = true;
-    } catch (error) {
-      result.errors.push(`General error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+        result.success = true;
+      } catch (error) {
+        result.errors.push(`General error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
 
-    return result;
+      return result;
+    });
   }
 
-  private async parseCSVRow(row: CSVRow, bookId: string): Promise<Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'> | null> {
+  private async parseCSVRow(row: CSVRow, book: Book, rules: CategorizationRule[]): Promise<Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'> | null> {
     if (!row.Date || (!row['Cash In'] && !row['Cash Out'])) {
       return null;
     }
@@ -308,8 +2482,12 @@ export class ImportService {
       throw new Error(`Invalid date format: ${dateStr} ${timeStr}`);
     }
 
-    const cashIn = parseFloat(row['Cash In'] || '0');
-    const cashOut = parseFloat(row['Cash Out'] || '0');
+    const cashIn = parseMoney(row['Cash In'] || '0', book.currency);
+    const cashOut = parseMoney(row['Cash Out'] || '0', book.currency);
+
+    if (cashIn === undefined || cashOut === undefined) {
+      throw new Error(`Invalid amount: ${row['Cash In'] || row['Cash Out']}`);
+    }
 
     if (cashIn === 0 && cashOut === 0) {
       return null;
@@ -318,15 +2496,30 @@ export class ImportService {
     const type: 'income' | 'expense' = cashIn > 0 ? 'income' : 'expense';
     const amount = type === 'income' ? cashIn : cashOut;
 
+    // Parties and payment modes are matched by name and created the first
+    // time they appear
+    const party = row.Party?.trim() ? await new PartyService().getOrCreate(row.Party) : undefined;
+    const paymentMode = row.Mode?.trim() ? await new PaymentModeService().getOrCreate(row.Mode) : undefined;
+
+    const description = row.Remark || row.Party || 'Imported transaction';
+    const notes = row.Remark || undefined;
+    const tags = row.Category ? [row.Category] : [];
+
+    // Categorization rules fill in whatever the row and party leave empty
+    const suggestion = applyRules(rules, { type, description, notes, party: party?.name, amount, currency: book.currency });
+
     return {
-      bookId,
+      bookId: book.id,
       type,
       amount,
-      description: row.Remark || row.Party || 'Imported transaction',
-      notes: [row.Remark, row.Party, row.Mode].filter(Boolean).join(' | '),
+      description,
+      notes,
+      categoryId: party?.defaultCategoryId ?? suggestion?.categoryId,
+      partyId: party?.id,
+      paymentModeId: paymentMode?.id ?? suggestion?.paymentModeId,
       date,
       isRecurring: false,
-      tags: row.Category ? [row.Category] : [],
+      tags: [...tags, ...(suggestion?.tags ?? []).filter(tag => !tags.includes(tag))],
       isReversed: false
     };
   }
@@ -342,18 +2535,21 @@ export class ExportService {
 
     const transactions = await new TransactionService().getAll(filter);
     const categories = await new CategoryService().getAll();
+    const paymentModes = await new PaymentModeService().getAll();
     const book = await new BookService().getById(bookId);
+    const currency = book?.currency || 'BDT';
 
-    const csvHeader = 'Date,Time,Type,Amount,Description,Notes,Category,Balance\n';
+    const csvHeader = 'Date,Time,Type,Amount,Description,Notes,Category,Mode,Balance\n';
     
+    // Split transactions get one row per category line
     let runningBalance = 0;
-    const csvRows = transactions.map(transaction => {
-      const category = categories.find(c => c.id === transaction.categoryId);
+    const csvRows = transactions.flatMap(transaction => getCategoryLines(transaction).map(line => {
+      const category = categories.find(c => c.id === line.categoryId);
       
       if (transaction.type === 'income') {
-        runningBalance += transaction.amount;
+        runningBalance += line.amount;
       } else {
-        runningBalance -= transaction.amount;
+        runningBalance -= line.amount;
       }
 
       const date = transaction.date.toISOString().split('T')[0];
@@ -363,13 +2559,14 @@ export class ExportService {
         date,
         time,
         transaction.type,
-        transaction.amount.toFixed(2),
+        toDecimalString(line.amount, currency),
         `"${transaction.description.replace(/"/g, '""')}"`,
-        `"${(transaction.notes || '').replace(/"/g, '""')}"`,
+        `"${(line.notes || transaction.notes || '').replace(/"/g, '""')}"`,
         category?.name || '',
-        runningBalance.toFixed(2)
+        paymentModes.find(m => m.id === transaction.paymentModeId)?.name || '',
+        toDecimalString(runningBalance, currency)
       ].join(',');
-    });
+    }));
 
     return csvHeader + csvRows.join('\n');
   }
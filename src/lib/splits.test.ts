@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './database';
+import { queryTransactions } from './query';
+import { BookService, BudgetService, CategoryService, TransactionService } from './services';
+import { getAmountInCategories, validateSplits } from './splits';
+import { Book, Category, Transaction, TransactionSplit } from '../types';
+
+const bookService = new BookService();
+const categoryService = new CategoryService();
+const transactionService = new TransactionService();
+
+const createCategory = (name: string) => categoryService.create({ name, type: 'expense', color: '#ef4444', icon: 'tag', isDefault: false, isActive: true });
+
+describe('validateSplits', () => {
+  it('needs two or more positive lines adding up to the total', () => {
+    expect(validateSplits([{ amount: 1000 }], 1000)).toBe('A split needs at least two lines');
+    expect(validateSplits([{ amount: 1000 }, { amount: 0 }], 1000)).toBe('Every split line needs an amount greater than 0');
+    expect(validateSplits([{ amount: 600 }, { amount: 300 }], 1000)).toBe('Split lines must add up to the total');
+    expect(validateSplits([{ amount: 600 }, { amount: 400 }], 1000)).toBeUndefined();
+  });
+});
+
+describe('split transactions', () => {
+  let book: Book;
+  let food: Category;
+  let household: Category;
+
+  beforeEach(async () => {
+    book = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+    food = await createCategory('Food');
+    household = await createCategory('Household');
+  });
+
+  const createSplit = (splits: TransactionSplit[], overrides: Partial<Transaction> = {}) => transactionService.create({
+    bookId: book.id,
+    type: 'expense',
+    amount: splits.reduce((sum, line) => sum + line.amount, 0),
+    description: 'Supermarket',
+    categoryId: food.id,
+    splits,
+    date: new Date(2024, 0, 10),
+    isRecurring: false,
+    tags: [],
+    isReversed: false,
+    ...overrides
+  });
+
+  it('index their line categories instead of a single one', async () => {
+    const transaction = await createSplit([{ categoryId: food.id, amount: 7000 }, { categoryId: household.id, amount: 3000 }]);
+    const stored = await db.transactions.get(transaction.id);
+
+    expect(stored?.categoryId).toBeUndefined();
+    expect(stored?.splitCategoryIds).toEqual([food.id, household.id]);
+    expect((await queryTransactions({ categoryIds: [household.id] })).map(t => t.id)).toEqual([transaction.id]);
+    expect(getAmountInCategories(stored!, [household.id])).toBe(3000);
+  });
+
+  it('refuse lines that do not add up', async () => {
+    await expect(createSplit([{ categoryId: food.id, amount: 7000 }, { categoryId: household.id, amount: 3000 }], { amount: 9000 }))
+      .rejects.toThrow('Split lines must add up to the total');
+    expect(await transactionService.getAll({ bookIds: [book.id] })).toEqual([]);
+  });
+
+  it('go back to one category when the split is removed', async () => {
+    const transaction = await createSplit([{ categoryId: food.id, amount: 7000 }, { categoryId: household.id, amount: 3000 }]);
+    await transactionService.update(transaction.id, { splits: undefined, categoryId: household.id });
+
+    const stored = await db.transactions.get(transaction.id);
+    expect(stored?.categoryId).toBe(household.id);
+    expect(stored?.splits).toBeUndefined();
+    expect(stored?.splitCategoryIds).toBeUndefined();
+  });
+
+  it('count each line under its own category in totals and budgets', async () => {
+    await createSplit([{ categoryId: food.id, amount: 7000 }, { categoryId: household.id, amount: 3000 }]);
+    const totals = await transactionService.getCategoryTotals(book.id, 2024, 1);
+
+    expect(totals.get(food.id)).toEqual({ income: 0, expense: 7000 });
+    expect(totals.get(household.id)).toEqual({ income: 0, expense: 3000 });
+
+    const budgetService = new BudgetService();
+    const budget = await budgetService.create({ categoryId: household.id, bookId: book.id, amount: 5000, period: 'monthly', startDate: new Date(2024, 0, 1), rollover: false });
+    expect((await budgetService.getStatus(budget, new Date(2024, 0, 20))).spent).toBe(3000);
+  });
+
+  it('keep their lines adding up when the book changes currency', async () => {
+    const transaction = await createSplit([{ categoryId: food.id, amount: 1250 }, { categoryId: household.id, amount: 1250 }]);
+    await bookService.update(book.id, { currency: 'JPY' });
+
+    const stored = await db.transactions.get(transaction.id);
+    expect(stored?.amount).toBe(25);
+    expect(stored?.splits?.reduce((sum, line) => sum + line.amount, 0)).toBe(25);
+  });
+});
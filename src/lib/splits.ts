@@ -0,0 +1,35 @@
+import { Transaction, TransactionSplit } from '../types';
+
+// A transaction counts towards categories line by line: its split lines if
+// it has any, otherwise one line for the whole amount. Category totals,
+// budgets and exports all go through these so splits are never counted
+// under a single category.
+
+type CategorizedTransaction = Pick<Transaction, 'categoryId' | 'amount' | 'splits'>;
+
+export const getCategoryLines = (transaction: CategorizedTransaction): TransactionSplit[] => {
+  if (transaction.splits && transaction.splits.length > 0) {
+    return transaction.splits;
+  }
+  return [{ categoryId: transaction.categoryId, amount: transaction.amount }];
+};
+
+export const getCategoryIds = (transaction: CategorizedTransaction): string[] => {
+  const ids = getCategoryLines(transaction).map(line => line.categoryId).filter((id): id is string => !!id);
+  return [...new Set(ids)];
+};
+
+// Part of the amount that falls in any of the categories
+export const getAmountInCategories = (transaction: CategorizedTransaction, categoryIds: string[]): number => {
+  return getCategoryLines(transaction)
+    .filter(line => !!line.categoryId && categoryIds.includes(line.categoryId))
+    .reduce((total, line) => total + line.amount, 0);
+};
+
+// Error message when split lines cannot stand for the total, else undefined
+export const validateSplits = (splits: TransactionSplit[], total: number): string | undefined => {
+  if (splits.length < 2) return 'A split needs at least two lines';
+  if (splits.some(line => line.amount <= 0)) return 'Every split line needs an amount greater than 0';
+  if (splits.reduce((sum, line) => sum + line.amount, 0) !== total) return 'Split lines must add up to the total';
+  return undefined;
+};
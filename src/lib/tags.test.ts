@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { db } from './database';
+import { BookService, CategorizationRuleService, TagService, TransactionService } from './services';
+import { Transaction } from '../types';
+
+const bookService = new BookService();
+const tagService = new TagService();
+const transactionService = new TransactionService();
+
+const createTransaction = (bookId: string, tags: string[], overrides: Partial<Transaction> = {}) => transactionService.create({
+  bookId,
+  type: 'expense',
+  amount: 1000,
+  description: 'Tea',
+  date: new Date(2024, 0, 1),
+  isRecurring: false,
+  tags,
+  isReversed: false,
+  ...overrides
+});
+
+describe('TagService', () => {
+  it('sums each tag per currency and leaves transfers out of the totals', async () => {
+    const cash = await bookService.create({ name: 'Cash', currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+    const travel = await bookService.create({ name: 'Travel', currency: 'USD', color: '#3b82f6', icon: 'plane', isActive: true });
+    await createTransaction(cash.id, ['trip']);
+    await createTransaction(cash.id, ['trip'], { type: 'income', amount: 500 });
+    await createTransaction(travel.id, ['trip', 'trip'], { amount: 2500 });
+    await transactionService.createTransfer({ fromBookId: cash.id, toBookId: travel.id, amount: 9000, receivedAmount: 75, description: 'Cash for trip', date: new Date(2024, 0, 2), tags: ['trip'] });
+
+    const trip = (await tagService.getSummaries()).find(summary => summary.tag === 'trip');
+    expect(trip?.count).toBe(5);
+    expect(trip?.totals).toEqual([
+      { currency: 'BDT', income: 500, expense: 1000 },
+      { currency: 'USD', income: 0, expense: 2500 }
+    ]);
+  });
+
+  it('merges a tag renamed to one already in use', async () => {
+    const book = await bookService.create({ name: 'Home', currency: 'BDT', color: '#3b82f6', icon: 'home', isActive: true });
+    const transaction = await createTransaction(book.id, ['groceries', 'bazar', 'weekly']);
+    const rule = await new CategorizationRuleService().create({ name: 'Bazar', conditions: [{ field: 'description', operator: 'contains', value: 'bazar' }], tags: ['bazar'], isActive: true });
+
+    await expect(tagService.rename('bazar', 'a,b')).rejects.toThrow('Tags cannot contain commas');
+    await tagService.rename('bazar', ' groceries ');
+
+    expect((await db.transactions.get(transaction.id))?.tags).toEqual(['groceries', 'weekly']);
+    expect((await db.categorizationRules.get(rule.id))?.tags).toEqual(['groceries']);
+  });
+
+  it('removes a deleted tag and keeps the transactions', async () => {
+    const book = await bookService.create({ name: 'Office', currency: 'BDT', color: '#3b82f6', icon: 'briefcase', isActive: true });
+    const transaction = await createTransaction(book.id, ['lunch', 'team']);
+
+    await tagService.delete('team');
+    expect((await db.transactions.get(transaction.id))?.tags).toEqual(['lunch']);
+  });
+
+  it('leaves trashed transactions out of tag lists and edits', async () => {
+    const book = await bookService.create({ name: 'Pocket', currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+    const live = await createTransaction(book.id, ['snacks', 'office']);
+    const trashed = await createTransaction(book.id, ['snacks', 'commute']);
+    const trashedTwin = await createTransaction(book.id, ['snacks', 'office']);
+    await transactionService.delete(trashed.id);
+    await transactionService.delete(trashedTwin.id);
+
+    const tags = await transactionService.getTags();
+    expect(tags).toEqual(expect.arrayContaining(['snacks', 'office']));
+    expect(tags).not.toContain('commute');
+
+    await tagService.rename('snacks', 'treats');
+    expect((await db.transactions.get(live.id))?.tags).toEqual(['treats', 'office']);
+    expect((await db.transactions.get(trashed.id))?.tags).toEqual(['snacks', 'commute']);
+  });
+});
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BookService, TransactionService } from './services';
+import { Book } from '../types';
+
+const bookService = new BookService();
+const transactionService = new TransactionService();
+
+const createBook = (name: string, currency = 'BDT') => bookService.create({ name, currency, color: '#3b82f6', icon: 'wallet', isActive: true });
+
+describe('transfers', () => {
+  let cash: Book;
+  let bank: Book;
+
+  beforeEach(async () => {
+    cash = await createBook('Cash');
+    bank = await createBook('Bank');
+  });
+
+  const transfer = (amount: number, receivedAmount?: number, to = bank) => transactionService.createTransfer({
+    fromBookId: cash.id,
+    toBookId: to.id,
+    amount,
+    receivedAmount,
+    description: 'Deposit',
+    date: new Date(2024, 2, 5),
+    tags: []
+  });
+
+  it('writes linked legs in both books', async () => {
+    const [outgoing, incoming] = await transfer(3000);
+
+    expect(outgoing).toMatchObject({ bookId: cash.id, type: 'expense', amount: 3000, transferBookId: bank.id });
+    expect(incoming).toMatchObject({ bookId: bank.id, type: 'income', amount: 3000, transferBookId: cash.id });
+    expect(outgoing.transferId).toBe(incoming.transferId);
+    expect(await bookService.getBalance(cash.id)).toBe(-3000);
+    expect(await bookService.getBalance(bank.id)).toBe(3000);
+  });
+
+  it('refuses a transfer into the same book', async () => {
+    await expect(transfer(3000, undefined, cash)).rejects.toThrow('Choose two different books for a transfer');
+  });
+
+  it('uses the received amount between currencies', async () => {
+    const wallet = await createBook('USD wallet', 'USD');
+    await transfer(11000, 100, wallet);
+
+    expect(await bookService.getBalance(cash.id)).toBe(-11000);
+    expect(await bookService.getBalance(wallet.id)).toBe(100);
+  });
+
+  it('edits both legs through either one', async () => {
+    const [outgoing] = await transfer(3000);
+    await transactionService.update(outgoing.id, { amount: 4500, description: 'ATM deposit' });
+
+    const legs = await transactionService.getTransferLegs(outgoing.transferId!);
+    expect(legs.map(leg => [leg.amount, leg.description])).toEqual([[4500, 'ATM deposit'], [4500, 'ATM deposit']]);
+    expect(await bookService.getBalance(bank.id)).toBe(4500);
+  });
+
+  it('deletes both legs through either one', async () => {
+    const [, incoming] = await transfer(3000);
+    await transactionService.delete(incoming.id);
+
+    expect(await transactionService.getTransferLegs(incoming.transferId!)).toEqual([]);
+    expect(await bookService.getBalance(cash.id)).toBe(0);
+  });
+
+  it('is left out of monthly income and expense', async () => {
+    await transfer(3000);
+    expect(await transactionService.getMonthlyStats(cash.id, 2024, 3)).toEqual({ income: 0, expense: 0 });
+  });
+
+  it('cannot be reversed', async () => {
+    const [outgoing] = await transfer(3000);
+    await expect(transactionService.reverseTransaction(outgoing.id, cash.id)).rejects.toThrow('Transfers cannot be reversed');
+  });
+});
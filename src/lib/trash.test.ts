@@ -0,0 +1,102 @@
+import { addDays } from 'date-fns';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './database';
+import { BookService, CategoryService, SettingsService, TransactionService, TrashService } from './services';
+import { Book, Transaction } from '../types';
+
+const bookService = new BookService();
+const categoryService = new CategoryService();
+const transactionService = new TransactionService();
+const trashService = new TrashService();
+
+const createBook = (name: string) => bookService.create({ name, currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+
+const createTransaction = (bookId: string, amount: number, overrides: Partial<Transaction> = {}) => transactionService.create({
+  bookId,
+  type: 'income',
+  amount,
+  description: 'Salary',
+  date: new Date(2024, 0, 1),
+  isRecurring: false,
+  tags: [],
+  isReversed: false,
+  ...overrides
+});
+
+beforeEach(async () => {
+  await trashService.empty();
+});
+
+describe('TrashService', () => {
+  let book: Book;
+
+  beforeEach(async () => {
+    book = await createBook('Cash');
+  });
+
+  it('trashes a book with its transactions and restores them together', async () => {
+    await createTransaction(book.id, 5000);
+    await createTransaction(book.id, 2000);
+    await bookService.delete(book.id);
+
+    const [entry] = await trashService.getAll();
+    expect(entry).toMatchObject({ itemType: 'book', itemId: book.id, name: 'Cash', itemCount: 3 });
+    expect((await bookService.getAll()).map(b => b.id)).not.toContain(book.id);
+    expect(await transactionService.getAll({ bookIds: [book.id] })).toEqual([]);
+
+    await trashService.restore(entry.id);
+
+    expect(await trashService.getAll()).toEqual([]);
+    expect(await transactionService.getAll({ bookIds: [book.id] })).toHaveLength(2);
+    expect((await db.books.get(book.id))?.balance).toBe(7000);
+  });
+
+  it('takes the other leg of a transfer along with a trashed book', async () => {
+    const bank = await createBook('Bank');
+    await transactionService.createTransfer({ fromBookId: book.id, toBookId: bank.id, amount: 3000, description: 'Deposit', date: new Date(2024, 0, 2), tags: [] });
+
+    await bookService.delete(book.id);
+    expect(await transactionService.getAll({ bookIds: [bank.id] })).toEqual([]);
+    expect((await db.books.get(bank.id))?.balance).toBe(0);
+
+    await trashService.restore((await trashService.getAll())[0].id);
+    expect((await db.books.get(bank.id))?.balance).toBe(3000);
+  });
+
+  it('keeps categoryIds while a category is in the trash and clears them on purge', async () => {
+    const category = await categoryService.create({ name: 'Rent', type: 'expense', color: '#ef4444', icon: 'home', isDefault: false, isActive: true });
+    const transaction = await createTransaction(book.id, 1000, { type: 'expense', categoryId: category.id });
+
+    await trashService.moveToTrash('category', category.id, category.name);
+    expect((await db.transactions.get(transaction.id))?.categoryId).toBe(category.id);
+
+    await trashService.purge((await trashService.getAll())[0].id);
+    expect(await db.categories.get(category.id)).toBeUndefined();
+    expect((await db.transactions.get(transaction.id))?.categoryId).toBeUndefined();
+  });
+
+  it('purges transactions trashed on their own along with their book', async () => {
+    const transaction = await createTransaction(book.id, 1000);
+    await transactionService.delete(transaction.id);
+    await bookService.delete(book.id);
+
+    const bookEntry = (await trashService.getAll()).find(entry => entry.itemType === 'book')!;
+    await trashService.purge(bookEntry.id);
+
+    expect(await db.transactions.get(transaction.id)).toBeUndefined();
+    expect(await trashService.getAll()).toEqual([]);
+  });
+
+  it('purges only entries older than the retention period', async () => {
+    await new SettingsService().setTrashRetentionDays(7);
+    const old = await createTransaction(book.id, 1000);
+    const recent = await createTransaction(book.id, 2000);
+    await transactionService.delete(old.id);
+    await transactionService.delete(recent.id);
+    await db.trash.filter(entry => entry.itemId === old.id).modify({ deletedAt: addDays(new Date(), -8) });
+
+    expect(await trashService.purgeExpired()).toBe(1);
+    expect(await db.transactions.get(old.id)).toBeUndefined();
+    expect(await db.transactions.get(recent.id)).toBeDefined();
+  });
+});
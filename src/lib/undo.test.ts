@@ -0,0 +1,103 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { db, openDatabase } from './database';
+import { BookService, TransactionService, UndoService } from './services';
+import { Book, Transaction } from '../types';
+
+const bookService = new BookService();
+const transactionService = new TransactionService();
+const undoService = new UndoService();
+
+const createTransaction = (bookId: string, amount: number): Promise<Transaction> => transactionService.create({
+  bookId,
+  type: 'expense',
+  amount,
+  description: 'Groceries',
+  date: new Date(2024, 0, 10),
+  isRecurring: false,
+  tags: [],
+  isReversed: false
+});
+
+describe('undo and redo', () => {
+  let book: Book;
+
+  beforeAll(async () => {
+    const result = await openDatabase();
+    expect(result.error).toBeUndefined();
+  });
+
+  beforeEach(async () => {
+    book = await bookService.create({ name: 'Cash', currency: 'BDT', color: '#3b82f6', icon: 'wallet', isActive: true });
+  });
+
+  it('round-trips a create', async () => {
+    const transaction = await createTransaction(book.id, 12000);
+    expect(await bookService.getBalance(book.id)).toBe(-12000);
+
+    expect(await undoService.undo()).toBe('Add transaction');
+    expect(await db.transactions.get(transaction.id)).toBeUndefined();
+    expect(await bookService.getBalance(book.id)).toBe(0);
+
+    expect(await undoService.redo()).toBe('Add transaction');
+    expect(await db.transactions.get(transaction.id)).toMatchObject({ amount: 12000 });
+    expect(await bookService.getBalance(book.id)).toBe(-12000);
+  });
+
+  it('round-trips an update', async () => {
+    const transaction = await createTransaction(book.id, 12000);
+    await transactionService.update(transaction.id, { amount: 15000, description: 'Weekly groceries' });
+
+    await undoService.undo();
+    expect(await db.transactions.get(transaction.id)).toMatchObject({ amount: 12000, description: 'Groceries' });
+    expect(await bookService.getBalance(book.id)).toBe(-12000);
+
+    await undoService.redo();
+    expect(await db.transactions.get(transaction.id)).toMatchObject({ amount: 15000, description: 'Weekly groceries' });
+    expect(await bookService.getBalance(book.id)).toBe(-15000);
+  });
+
+  it('round-trips a delete', async () => {
+    const transaction = await createTransaction(book.id, 12000);
+    await transactionService.delete(transaction.id);
+    expect(await bookService.getBalance(book.id)).toBe(0);
+
+    await undoService.undo();
+    expect((await db.transactions.get(transaction.id))?.deletedAt).toBeUndefined();
+    expect(await bookService.getBalance(book.id)).toBe(-12000);
+
+    await undoService.redo();
+    expect((await db.transactions.get(transaction.id))?.deletedAt).toBeInstanceOf(Date);
+    expect(await bookService.getBalance(book.id)).toBe(0);
+  });
+
+  it('refuses to undo a step whose records were edited since', async () => {
+    const transaction = await createTransaction(book.id, 12000);
+    await transactionService.update(transaction.id, { amount: 15000 });
+
+    // A later write that is not on the undo stack
+    await db.transactions.update(transaction.id, { description: 'Edited elsewhere' });
+
+    await expect(undoService.undo()).rejects.toThrow('"Edit transaction" cannot be undone because the data has changed since');
+    expect(await db.transactions.get(transaction.id)).toMatchObject({ amount: 15000, description: 'Edited elsewhere' });
+  });
+
+  it('undoes a given step only while it is the latest', async () => {
+    const first = await createTransaction(book.id, 12000);
+    const firstOperationId = undoService.getLastOperationId()!;
+    const second = await createTransaction(book.id, 3000);
+
+    expect(await undoService.undo(firstOperationId)).toBeUndefined();
+    expect(await db.transactions.get(first.id)).toBeDefined();
+    expect(await db.transactions.get(second.id)).toBeDefined();
+
+    expect(await undoService.undo(undoService.getLastOperationId())).toBe('Add transaction');
+    expect(await db.transactions.get(second.id)).toBeUndefined();
+  });
+
+  it('has no step to offer after a mutation that wrote nothing', async () => {
+    await createTransaction(book.id, 12000);
+    await transactionService.delete('missing');
+
+    expect(undoService.getLastOperationId()).toBeUndefined();
+  });
+});
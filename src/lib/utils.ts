@@ -1,12 +1,17 @@
+import { RecurringFrequency } from '../types';
+import { formatMoney } from './money';
+
 export const generateId = (): string => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
+export const currencyOptions = [
+  'BDT', 'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'INR', 'BRL'
+];
+
+// Amounts are in minor units; see lib/money.ts
 export const formatCurrency = (amount: number, currency: string = 'BDT'): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency
-  }).format(amount);
+  return formatMoney(amount, currency);
 };
 
 export const formatDate = (date: Date): string => {
@@ -27,7 +32,20 @@ export const formatDateTime = (date: Date): string => {
   });
 };
 
-export const debounce = <T extends (...args: any[]) => void>(
+const frequencyUnits: Record<RecurringFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+};
+
+export const describeFrequency = (frequency: RecurringFrequency, interval: number): string => {
+  return interval === 1
+    ? `Every ${frequencyUnits[frequency]}`
+    : `Every ${interval} ${frequencyUnits[frequency]}s`;
+};
+
+export const debounce = <T extends (...args: never[]) => void>(
   func: T,
   delay: number
 ): ((...args: Parameters<T>) => void) => {
@@ -121,7 +139,7 @@ export const readFileAsText = (file: File): Promise<string> => {
   });
 };
 
-export const groupBy = <T, K extends keyof any>(
+export const groupBy = <T, K extends PropertyKey>(
   array: T[],
   key: (item: T) => K
 ): Record<K, T[]> => {
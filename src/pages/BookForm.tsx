@@ -3,7 +3,8 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { Save, ArrowLeft, BookOpen } from 'lucide-react';
 import { useStore } from '../store';
 import { BookService, SegmentService } from '../lib/services';
-import { Book, Segment } from '../types';
+import { currencyOptions } from '../lib/utils';
+import { toastWithUndo } from '../components/Undo';
 import toast from 'react-hot-toast';
 
 const bookService = new BookService();
@@ -85,11 +86,11 @@ export const BookForm: React.FC = () => {
       if (id) {
         await bookService.update(id, bookData);
         updateBook(id, bookData);
-        toast.success('Book updated successfully');
+        toastWithUndo('Book updated successfully');
       } else {
         const newBook = await bookService.create(bookData);
         addBook(newBook);
-        toast.success('Book created successfully');
+        toastWithUndo('Book created successfully');
       }
 
       navigate('/books');
@@ -107,10 +108,6 @@ export const BookForm: React.FC = () => {
     '#F97316', '#6B7280', '#1F2937', '#7C3AED'
   ];
 
-  const currencyOptions = [
-    'BDT', 'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'INR', 'BRL'
-  ];
-
   if (isLoading) {
     return (
       <div className="text-center py-12">
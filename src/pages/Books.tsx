@@ -2,28 +2,37 @@ import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Plus, Edit, Trash2, BookOpen } from 'lucide-react';
 import { useStore } from '../store';
-import { BookService } from '../lib/services';
+import { BookService, TransactionService } from '../lib/services';
 import { formatCurrency, formatDate } from '../lib/utils';
+import { toastWithUndo } from '../components/Undo';
 
 const bookService = new BookService();
+const transactionService = new TransactionService();
 
 export const Books: React.FC = () => {
-  const { books, setBooks, removeBook, currentBook, setCurrentBook } = useStore();
+  const { books, setBooks, setTransactions, currentBook, setCurrentBook } = useStore();
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
 
   const handleDelete = async (bookId: string) => {
-    if (!window.confirm('Are you sure you want to delete this book? This action cannot be undone.')) {
+    if (!window.confirm('Move this book and all of its transactions to the trash?')) {
       return;
     }
 
     try {
       setIsDeleting(bookId);
       await bookService.delete(bookId);
-      removeBook(bookId);
+
+      // Transfers into other books are trashed too, which changes their balances
+      const [remainingBooks, transactions] = await Promise.all([
+        bookService.getAll(),
+        transactionService.getAll()
+      ]);
+      setBooks(remainingBooks);
+      setTransactions(transactions);
+      toastWithUndo('Book moved to trash');
       
       // If we deleted the current book, set a new one
       if (currentBook?.id === bookId) {
-        const remainingBooks = books.filter(b => b.id !== bookId);
         setCurrentBook(remainingBooks.length > 0 ? remainingBooks[0] : null);
       }
     } catch (error) {
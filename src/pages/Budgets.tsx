@@ -0,0 +1,474 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, PiggyBank } from 'lucide-react';
+import { startOfMonth, startOfWeek } from 'date-fns';
+import { useStore } from '../store';
+import { BudgetService, CategoryService, SettingsService } from '../lib/services';
+import { Budget, BudgetPeriod, BudgetStatus } from '../types';
+import { formatCurrency, formatDate } from '../lib/utils';
+import { getInputStep, parseMoney, toDecimalString } from '../lib/money';
+import { toastWithUndo } from '../components/Undo';
+import { CategoryOptions } from '../components/CategoryOptions';
+import toast from 'react-hot-toast';
+
+const budgetService = new BudgetService();
+const categoryService = new CategoryService();
+const settingsService = new SettingsService();
+
+const periodLabels: Record<BudgetPeriod, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  custom: 'Custom period'
+};
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+// Built from local date parts, since toISOString would move local midnight
+// to the previous day east of UTC
+const getDefaultStart = (period: BudgetPeriod) => {
+  const now = new Date();
+  const start = period === 'weekly' ? startOfWeek(now) : startOfMonth(now);
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-${String(start.getDate()).padStart(2, '0')}`;
+};
+
+interface BudgetFormProps {
+  budget?: Budget;
+  baseCurrency: string;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const BudgetForm: React.FC<BudgetFormProps> = ({ budget, baseCurrency, onClose, onSave }) => {
+  const { books, segments, currentBook, categories } = useStore();
+  const [formData, setFormData] = useState({
+    categoryId: budget?.categoryId || '',
+    // "book:<id>" or "segment:<id>"
+    scope: budget?.segmentId ? `segment:${budget.segmentId}` : `book:${budget?.bookId || currentBook?.id || ''}`,
+    amount: budget ? toDecimalString(budget.amount, budget.currency) : '',
+    period: budget?.period || 'monthly' as BudgetPeriod,
+    startDate: budget ? toDateInput(budget.startDate) : getDefaultStart('monthly'),
+    endDate: budget?.endDate ? toDateInput(budget.endDate) : '',
+    rollover: budget?.rollover || false
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [scopeType, scopeId] = formData.scope.split(':');
+  // Amounts are in the book's currency; segment budgets keep the base
+  // currency they were made in
+  const currency = scopeType === 'book'
+    ? books.find(b => b.id === scopeId)?.currency || baseCurrency
+    : budget?.segmentId === scopeId ? budget.currency : baseCurrency;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.categoryId) {
+      toast.error('Please select a category');
+      return;
+    }
+
+    if (!scopeId) {
+      toast.error('Please select a book or segment');
+      return;
+    }
+
+    const amount = parseMoney(formData.amount, currency);
+    if (amount === undefined || amount <= 0) {
+      toast.error('Amount must be greater than 0');
+      return;
+    }
+
+    const startDate = new Date(formData.startDate);
+    const endDate = formData.period === 'custom' && formData.endDate ? new Date(formData.endDate) : undefined;
+
+    if (formData.period === 'custom' && !endDate) {
+      toast.error('A custom period needs an end date');
+      return;
+    }
+
+    if (endDate && endDate < startDate) {
+      toast.error('End date must be after the start date');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const budgetData = {
+        categoryId: formData.categoryId,
+        bookId: scopeType === 'book' ? scopeId : undefined,
+        segmentId: scopeType === 'segment' ? scopeId : undefined,
+        amount,
+        period: formData.period,
+        startDate,
+        endDate,
+        // A custom period has nothing to roll over into
+        rollover: formData.period !== 'custom' && formData.rollover
+      };
+
+      if (budget) {
+        await budgetService.update(budget.id, budgetData);
+        toastWithUndo('Budget updated');
+      } else {
+        await budgetService.create(budgetData);
+        toastWithUndo('Budget created');
+      }
+
+      onSave();
+      onClose();
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      toast.error('Failed to save budget');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const expenseCategories = categories.filter(cat => cat.type === 'expense' || cat.type === 'both');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6">
+            {budget ? 'Edit Budget' : 'Add Budget'}
+          </h2>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={formData.categoryId}
+                onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Select category</option>
+                <CategoryOptions categories={expenseCategories} value={formData.categoryId} />
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+              <select
+                value={formData.scope}
+                onChange={(e) => setFormData({ ...formData, scope: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <optgroup label="Books">
+                  {books.map(book => (
+                    <option key={book.id} value={`book:${book.id}`}>{book.name}</option>
+                  ))}
+                </optgroup>
+                {segments.length > 0 && (
+                  <optgroup label="Segments (all their books)">
+                    {segments.map(segment => (
+                      <option key={segment.id} value={`segment:${segment.id}`}>{segment.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Limit ({currency})</label>
+                <input
+                  type="number"
+                  step={getInputStep(currency)}
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+                <select
+                  value={formData.period}
+                  onChange={(e) => {
+                    const period = e.target.value as BudgetPeriod;
+                    setFormData({
+                      ...formData,
+                      period,
+                      startDate: budget || period === 'custom' ? formData.startDate : getDefaultStart(period)
+                    });
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="monthly">Monthly</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="custom">Custom period</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {formData.period === 'custom' ? 'Start Date' : 'First Period Starts'}
+                </label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  required
+                />
+              </div>
+              {formData.period === 'custom' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+                  <input
+                    type="date"
+                    value={formData.endDate}
+                    onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    required
+                  />
+                </div>
+              )}
+            </div>
+
+            {formData.period !== 'custom' && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.rollover}
+                  onChange={(e) => setFormData({ ...formData, rollover: e.target.checked })}
+                  className="mr-2"
+                />
+                Roll unspent amounts over to the next period
+              </label>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Budgets: React.FC = () => {
+  const { books, segments, categories, setCategories, dataVersion } = useStore();
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState('BDT');
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | undefined>();
+
+  const loadBudgets = async () => {
+    try {
+      const statusesData = await budgetService.getStatuses();
+      setStatuses(statusesData);
+    } catch (error) {
+      console.error('Error loading budgets:', error);
+      toast.error('Failed to load budgets');
+    }
+  };
+
+  useEffect(() => {
+    const loadCategories = async () => {
+      setCategories(await categoryService.getAll());
+    };
+
+    if (categories.length === 0) {
+      loadCategories();
+    }
+  }, [categories.length, setCategories]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      setBaseCurrency(await settingsService.getBaseCurrency());
+      await loadBudgets();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [dataVersion]);
+
+  const handleDelete = async (budget: Budget) => {
+    if (!window.confirm('Delete this budget? Transactions are not affected.')) {
+      return;
+    }
+
+    try {
+      await budgetService.delete(budget.id);
+      await loadBudgets();
+      toastWithUndo('Budget deleted');
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      toast.error('Failed to delete budget');
+    }
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setEditingBudget(budget);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingBudget(undefined);
+  };
+
+  const getScopeName = (budget: Budget) => {
+    if (budget.segmentId) {
+      return `${segments.find(s => s.id === budget.segmentId)?.name || 'Missing segment'} (segment)`;
+    }
+    return books.find(b => b.id === budget.bookId)?.name || 'Missing book';
+  };
+
+  const getProgressColor = (ratio: number) => {
+    if (ratio >= 1) return 'bg-red-500';
+    if (ratio >= 0.8) return 'bg-yellow-500';
+    return 'bg-green-500';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading budgets...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Budgets</h1>
+        <button
+          onClick={() => setShowForm(true)}
+          className="btn btn-primary"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Budget
+        </button>
+      </div>
+
+      {statuses.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <PiggyBank className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500 mb-4">No budgets yet</p>
+          <p className="text-gray-400 text-sm mb-6">
+            Set a spending limit for a category and see how much of it is left
+          </p>
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn btn-primary"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add your first budget
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {statuses.map(status => {
+            const { budget } = status;
+            const category = categories.find(c => c.id === budget.categoryId);
+            const ratio = status.limit > 0 ? Math.max(status.spent, 0) / status.limit : 0;
+            const remaining = status.limit - status.spent;
+
+            return (
+              <div key={budget.id} className="bg-white rounded-lg shadow p-6 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center">
+                      <div
+                        className="w-3 h-3 rounded-full mr-2"
+                        style={{ backgroundColor: category?.color || '#9ca3af' }}
+                      />
+                      <h3 className="text-lg font-medium text-gray-900">{category?.name || 'Missing category'}</h3>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {getScopeName(budget)} • {periodLabels[budget.period]}
+                      {budget.rollover && ' • Rollover'}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(budget)}
+                      className="text-blue-600 hover:text-blue-900"
+                      title="Edit"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(budget)}
+                      className="text-red-600 hover:text-red-900"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-700">
+                      {formatCurrency(status.spent, budget.currency)} of {formatCurrency(status.limit, budget.currency)}
+                    </span>
+                    <span className="text-gray-500">{Math.round(ratio * 100)}%</span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className={`h-2 rounded-full ${getProgressColor(ratio)}`}
+                      style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>{formatDate(status.periodStart)} – {formatDate(status.periodEnd)}</span>
+                  <span className={remaining < 0 ? 'text-red-600 font-medium' : ''}>
+                    {remaining < 0
+                      ? `${formatCurrency(-remaining, budget.currency)} over`
+                      : `${formatCurrency(remaining, budget.currency)} left`}
+                  </span>
+                </div>
+
+                {status.rolledOver > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Includes {formatCurrency(status.rolledOver, budget.currency)} rolled over from earlier periods
+                  </p>
+                )}
+                {status.missingRates.length > 0 && (
+                  <p className="text-xs text-yellow-700">
+                    Spending in {status.missingRates.join(', ')} is left out until an exchange rate to {budget.currency} is added
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Budget Form Modal */}
+      {showForm && (
+        <BudgetForm
+          budget={editingBudget}
+          baseCurrency={baseCurrency}
+          onClose={handleCloseForm}
+          onSave={loadBudgets}
+        />
+      )}
+    </div>
+  );
+};
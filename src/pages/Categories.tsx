@@ -1,24 +1,33 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Tag } from 'lucide-react';
+import { Plus, Edit, Trash2, Tag, CornerDownRight, Eye, EyeOff, GitMerge } from 'lucide-react';
 import { useStore } from '../store';
-import { CategoryService } from '../lib/services';
-import { Category } from '../types';
+import { CategoryService, TransactionService, isCategoryInUse } from '../lib/services';
+import { formatCurrency } from '../lib/utils';
+import { Category, CategoryUsage } from '../types';
+import { toastWithUndo } from '../components/Undo';
+import { CategoryOptions } from '../components/CategoryOptions';
+import { getCategoryTree, getSubtreeIds } from '../lib/categories';
 import toast from 'react-hot-toast';
 
 const categoryService = new CategoryService();
+const transactionService = new TransactionService();
 
 interface CategoryFormProps {
   category?: Category;
+  parentId?: string; // Preselected parent when adding a subcategory
+  categories: Category[];
   onClose: () => void;
   onSave: (category: Category) => void;
 }
 
-const CategoryForm: React.FC<CategoryFormProps> = ({ category, onClose, onSave }) => {
+const CategoryForm: React.FC<CategoryFormProps> = ({ category, parentId, categories, onClose, onSave }) => {
+  const parent = categories.find(c => c.id === (category?.parentId ?? parentId));
   const [formData, setFormData] = useState({
     name: category?.name || '',
-    type: category?.type || 'both' as 'income' | 'expense' | 'both',
-    color: category?.color || '#3B82F6',
-    icon: category?.icon || 'tag'
+    type: category?.type || parent?.type || 'both' as 'income' | 'expense' | 'both',
+    color: category?.color || parent?.color || '#3B82F6',
+    icon: category?.icon || 'tag',
+    parentId: parent?.id || ''
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -38,8 +47,7 @@ const CategoryForm: React.FC<CategoryFormProps> = ({ category, onClose, onSave }
         type: formData.type,
         color: formData.color,
         icon: formData.icon,
-        isDefault: false,
-        isActive: true
+        parentId: formData.parentId || undefined
       };
 
       let savedCategory: Category;
@@ -47,17 +55,17 @@ const CategoryForm: React.FC<CategoryFormProps> = ({ category, onClose, onSave }
       if (category) {
         await categoryService.update(category.id, categoryData);
         savedCategory = { ...category, ...categoryData, updatedAt: new Date() };
-        toast.success('Category updated successfully');
+        toastWithUndo('Category updated successfully');
       } else {
-        savedCategory = await categoryService.create(categoryData);
-        toast.success('Category created successfully');
+        savedCategory = await categoryService.create({ ...categoryData, isDefault: false, isActive: true });
+        toastWithUndo('Category created successfully');
       }
 
       onSave(savedCategory);
       onClose();
     } catch (error) {
       console.error('Error saving category:', error);
-      toast.error('Failed to save category');
+      toast.error(error instanceof Error ? error.message : 'Failed to save category');
     } finally {
       setIsSubmitting(false);
     }
@@ -69,12 +77,16 @@ const CategoryForm: React.FC<CategoryFormProps> = ({ category, onClose, onSave }
     '#F97316', '#6B7280', '#1F2937', '#7C3AED'
   ];
 
+  // A category cannot move under itself or anything below it
+  const excludedIds = category ? getSubtreeIds(categories, category.id) : [];
+  const parentOptions = categories.filter(c => !excludedIds.includes(c.id));
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
         <div className="p-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-6">
-            {category ? 'Edit Category' : 'Add Category'}
+            {category ? 'Edit Category' : parent ? 'Add Subcategory' : 'Add Category'}
           </h2>
 
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -92,6 +104,20 @@ const CategoryForm: React.FC<CategoryFormProps> = ({ category, onClose, onSave }
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Parent Category
+              </label>
+              <select
+                value={formData.parentId}
+                onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">None (top level)</option>
+                <CategoryOptions categories={parentOptions} value={formData.parentId} />
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Type
@@ -149,11 +175,213 @@ const CategoryForm: React.FC<CategoryFormProps> = ({ category, onClose, onSave }
   );
 };
 
+interface MergeCategoriesFormProps {
+  categories: Category[];
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const MergeCategoriesForm: React.FC<MergeCategoriesFormProps> = ({ categories, onClose, onMerged }) => {
+  const [sourceIds, setSourceIds] = useState<string[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toggleSource = (id: string) => {
+    setSourceIds(sourceIds.includes(id) ? sourceIds.filter(sourceId => sourceId !== id) : [...sourceIds, id]);
+    if (id === targetId) setTargetId('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (sourceIds.length === 0 || !targetId) {
+      toast.error('Choose the categories to merge and the one to keep');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await categoryService.merge(sourceIds, targetId);
+      toastWithUndo(`Merged ${sourceIds.length} ${sourceIds.length === 1 ? 'category' : 'categories'}`);
+      onMerged();
+      onClose();
+    } catch (error) {
+      console.error('Error merging categories:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge categories');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6">Merge Categories</h2>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Merge</label>
+              <p className="text-xs text-gray-500 mb-2">
+                Their transactions, budgets, goals and rules move to the category below, and they go to the trash.
+              </p>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {getCategoryTree(categories).map(({ category, depth }) => (
+                  <label
+                    key={category.id}
+                    className="flex items-center text-sm text-gray-700"
+                    style={{ paddingLeft: `${depth * 1.25}rem` }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={sourceIds.includes(category.id)}
+                      onChange={() => toggleSource(category.id)}
+                      className="mr-2"
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Into</label>
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Select category</option>
+                <CategoryOptions categories={categories.filter(c => !sourceIds.includes(c.id))} value={targetId} />
+              </select>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Merging...' : 'Merge'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const describeUsage = (usage: CategoryUsage): string => {
+  const parts = [
+    [usage.transactions, 'transaction'],
+    [usage.budgets, 'budget'],
+    [usage.goals, 'goal'],
+    [usage.recurringRules, 'recurring rule'],
+    [usage.categorizationRules, 'categorization rule']
+  ] as const;
+  return parts
+    .filter(([count]) => count > 0)
+    .map(([count, noun]) => `${count} ${noun}${count === 1 ? '' : 's'}`)
+    .join(', ');
+};
+
+interface ReplaceCategoryFormProps {
+  category: Category;
+  usage: CategoryUsage;
+  categories: Category[];
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+// Shown when deleting a category that is still in use
+const ReplaceCategoryForm: React.FC<ReplaceCategoryFormProps> = ({ category, usage, categories, onClose, onDeleted }) => {
+  const [replacementId, setReplacementId] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!replacementId) {
+      toast.error('Please select a replacement category');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await categoryService.delete(category.id, replacementId);
+      toastWithUndo('Category moved to trash');
+      onDeleted();
+      onClose();
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete category');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Delete {category.name}</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            This category is used by {describeUsage(usage)}. Choose where to move them before it goes to the trash.
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Move to</label>
+              <select
+                value={replacementId}
+                onChange={(e) => setReplacementId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Select category</option>
+                <CategoryOptions categories={categories.filter(c => c.id !== category.id)} value={replacementId} />
+              </select>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Deleting...' : 'Move and delete'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export const Categories: React.FC = () => {
-  const { categories, setCategories } = useStore();
+  const { categories, setCategories, currentBook, dataVersion, bumpDataVersion } = useStore();
+  const [monthTotals, setMonthTotals] = useState<Map<string, { income: number; expense: number }>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | undefined>();
+  const [newParentId, setNewParentId] = useState<string | undefined>();
+  const [showMerge, setShowMerge] = useState(false);
+  const [replacing, setReplacing] = useState<{ category: Category; usage: CategoryUsage } | undefined>();
 
   useEffect(() => {
     const loadCategories = async () => {
@@ -172,26 +400,69 @@ export const Categories: React.FC = () => {
     loadCategories();
   }, [setCategories]);
 
-  const handleDelete = async (categoryId: string) => {
-    if (!window.confirm('Are you sure you want to delete this category?')) {
-      return;
-    }
+  useEffect(() => {
+    const loadMonthTotals = async () => {
+      if (!currentBook) return;
+      try {
+        const now = new Date();
+        setMonthTotals(await transactionService.getCategoryTotals(currentBook.id, now.getFullYear(), now.getMonth() + 1));
+      } catch (error) {
+        console.error('Error loading category totals:', error);
+      }
+    };
+
+    loadMonthTotals();
+  }, [currentBook, dataVersion]);
 
+  // Merging moves transactions and reparents subcategories, so the list
+  // and the totals are read again
+  const reloadCategories = async () => {
+    setCategories(await categoryService.getAll());
+    bumpDataVersion();
+  };
+
+  const handleDelete = async (category: Category) => {
     try {
-      await categoryService.delete(categoryId);
-      setCategories(categories.filter(c => c.id !== categoryId));
-      toast.success('Category deleted successfully');
+      const usage = await categoryService.getUsage(category.id);
+      if (isCategoryInUse(usage)) {
+        setReplacing({ category, usage });
+        return;
+      }
+
+      if (!window.confirm('Move this category to the trash?')) {
+        return;
+      }
+
+      await categoryService.delete(category.id);
+      setCategories(categories.filter(c => c.id !== category.id));
+      toastWithUndo('Category moved to trash');
     } catch (error) {
       console.error('Error deleting category:', error);
       toast.error('Failed to delete category');
     }
   };
 
+  const handleToggleHidden = async (category: Category) => {
+    try {
+      await categoryService.setHidden(category.id, category.isActive);
+      setCategories(categories.map(c => c.id === category.id ? { ...c, isActive: !category.isActive } : c));
+      toastWithUndo(category.isActive ? 'Category hidden' : 'Category shown');
+    } catch (error) {
+      console.error('Error hiding category:', error);
+      toast.error('Failed to update category');
+    }
+  };
+
   const handleEdit = (category: Category) => {
     setEditingCategory(category);
     setShowForm(true);
   };
 
+  const handleAddSubcategory = (parentId: string) => {
+    setNewParentId(parentId);
+    setShowForm(true);
+  };
+
   const handleSave = (category: Category) => {
     if (editingCategory) {
       setCategories(categories.map(c => c.id === category.id ? category : c));
@@ -204,6 +475,7 @@ export const Categories: React.FC = () => {
   const handleCloseForm = () => {
     setShowForm(false);
     setEditingCategory(undefined);
+    setNewParentId(undefined);
   };
 
   const getTypeColor = (type: string) => {
@@ -235,13 +507,23 @@ export const Categories: React.FC = () => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
-        <button
-          onClick={() => setShowForm(true)}
-          className="btn btn-primary"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Category
-        </button>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setShowMerge(true)}
+            disabled={categories.length < 2}
+            className="btn btn-secondary"
+          >
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge
+          </button>
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn btn-primary"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </button>
+        </div>
       </div>
 
       {categories.length === 0 ? (
@@ -258,28 +540,57 @@ export const Categories: React.FC = () => {
         </div>
       ) : (
         <div className="bg-white rounded-lg shadow overflow-hidden">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-6">
-            {categories.map((category) => (
-              <div
+          <ul className="divide-y divide-gray-200">
+            {getCategoryTree(categories).map(({ category, depth }) => (
+              <li
                 key={category.id}
-                className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow"
+                className={`flex items-center justify-between py-3 pr-6 hover:bg-gray-50 ${category.isActive ? '' : 'opacity-60'}`}
+                style={{ paddingLeft: `${1.5 + depth * 2}rem` }}
               >
-                <div className="flex items-center justify-between mb-3">
-                  <div className="flex items-center space-x-3">
-                    <div
-                      className="w-10 h-10 rounded-full flex items-center justify-center"
-                      style={{ backgroundColor: category.color }}
-                    >
-                      <Tag className="h-5 w-5 text-white" />
-                    </div>
-                    <div>
-                      <h3 className="font-medium text-gray-900">{category.name}</h3>
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getTypeColor(category.type)}`}>
-                        {getTypeLabel(category.type)}
+                <div className="flex items-center space-x-3">
+                  {depth > 0 && <CornerDownRight className="h-4 w-4 text-gray-400" />}
+                  <div
+                    className="w-10 h-10 rounded-full flex items-center justify-center"
+                    style={{ backgroundColor: category.color }}
+                  >
+                    <Tag className="h-5 w-5 text-white" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-gray-900">{category.name}</h3>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getTypeColor(category.type)}`}>
+                      {getTypeLabel(category.type)}
+                    </span>
+                    {!category.isActive && (
+                      <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                        Hidden
                       </span>
-                    </div>
+                    )}
                   </div>
+                </div>
+                <div className="flex items-center space-x-4">
+                  {currentBook && monthTotals.has(category.id) && (
+                    <div className="text-sm text-gray-700">
+                      This month:{' '}
+                      {monthTotals.get(category.id)!.income > 0 && (
+                        <span className="text-green-600 mr-2">
+                          +{formatCurrency(monthTotals.get(category.id)!.income, currentBook.currency)}
+                        </span>
+                      )}
+                      {monthTotals.get(category.id)!.expense > 0 && (
+                        <span className="text-red-600">
+                          -{formatCurrency(monthTotals.get(category.id)!.expense, currentBook.currency)}
+                        </span>
+                      )}
+                    </div>
+                  )}
                   <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleAddSubcategory(category.id)}
+                      className="text-gray-600 hover:text-gray-900"
+                      title="Add subcategory"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </button>
                     <button
                       onClick={() => handleEdit(category)}
                       className="text-blue-600 hover:text-blue-900"
@@ -287,19 +598,26 @@ export const Categories: React.FC = () => {
                       <Edit className="h-4 w-4" />
                     </button>
                     <button
-                      onClick={() => handleDelete(category.id)}
-                      className="text-red-600 hover:text-red-900"
+                      onClick={() => handleToggleHidden(category)}
+                      className="text-gray-600 hover:text-gray-900"
+                      title={category.isActive ? 'Hide from pickers' : 'Show in pickers'}
                     >
-                      <Trash2 className="h-4 w-4" />
+                      {category.isActive ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                     </button>
+                    {/* Default categories can be hidden but not deleted */}
+                    {!category.isDefault && (
+                      <button
+                        onClick={() => handleDelete(category)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
-                <div className="text-sm text-gray-500">
-                  Created: {category.createdAt.toLocaleDateString()}
-                </div>
-              </div>
+              </li>
             ))}
-          </div>
+          </ul>
         </div>
       )}
 
@@ -307,10 +625,30 @@ export const Categories: React.FC = () => {
       {showForm && (
         <CategoryForm
           category={editingCategory}
+          parentId={newParentId}
+          categories={categories}
           onClose={handleCloseForm}
           onSave={handleSave}
         />
       )}
+
+      {showMerge && (
+        <MergeCategoriesForm
+          categories={categories}
+          onClose={() => setShowMerge(false)}
+          onMerged={reloadCategories}
+        />
+      )}
+
+      {replacing && (
+        <ReplaceCategoryForm
+          category={replacing.category}
+          usage={replacing.usage}
+          categories={categories}
+          onClose={() => setReplacing(undefined)}
+          onDeleted={reloadCategories}
+        />
+      )}
     </div>
   );
 };
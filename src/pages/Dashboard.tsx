@@ -1,18 +1,25 @@
 import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, TrendingUp, TrendingDown, DollarSign, Calendar } from 'lucide-react';
+import { Plus, TrendingUp, TrendingDown, DollarSign, Calendar, Bookmark } from 'lucide-react';
 import { useStore } from '../store';
-import { BookService, TransactionService } from '../lib/services';
+import { TransactionService, SavedViewService, GoalService, PaymentModeService, GOAL_MILESTONES } from '../lib/services';
 import { formatCurrency, formatDate } from '../lib/utils';
-import { Transaction } from '../types';
+import { Transaction, SavedView, SavedViewSummary, GoalStatus, PaymentMode, PaymentModeTotal } from '../types';
+import { GoalProgress } from '../components/GoalProgress';
 
-const bookService = new BookService();
 const transactionService = new TransactionService();
+const savedViewService = new SavedViewService();
+const goalService = new GoalService();
+const paymentModeService = new PaymentModeService();
 
 export const Dashboard: React.FC = () => {
-  const { currentBook, transactions, categories } = useStore();
+  const { currentBook, categories, dataVersion } = useStore();
   const [monthlyStats, setMonthlyStats] = useState({ income: 0, expense: 0 });
   const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
+  const [pinnedViews, setPinnedViews] = useState<{ view: SavedView; summary: SavedViewSummary }[]>([]);
+  const [goals, setGoals] = useState<GoalStatus[]>([]);
+  const [paymentModes, setPaymentModes] = useState<PaymentMode[]>([]);
+  const [modeTotals, setModeTotals] = useState<PaymentModeTotal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -31,11 +38,28 @@ export const Dashboard: React.FC = () => {
         );
         setMonthlyStats(stats);
 
+        // Per payment mode, to reconcile cash against wallet and bank records
+        const [modes, totals] = await Promise.all([
+          paymentModeService.getAll(),
+          paymentModeService.getTotals(currentBook.id, now.getFullYear(), now.getMonth() + 1)
+        ]);
+        setPaymentModes(modes);
+        setModeTotals(totals);
+
         // Get recent transactions
-        const recent = await transactionService.getAll({
-          bookIds: [currentBook.id]
-        });
-        setRecentTransactions(recent.slice(0, 5));
+        const recent = await transactionService.getPage(
+          { bookIds: [currentBook.id] },
+          { pageSize: 5 }
+        );
+        setRecentTransactions(recent.transactions);
+
+        // Pinned saved views
+        const views = (await savedViewService.getAll()).filter(view => view.isPinned);
+        const summaries = await Promise.all(views.map(view => savedViewService.getSummary(view, currentBook)));
+        setPinnedViews(views.map((view, i) => ({ view, summary: summaries[i] })));
+
+        // Savings goals and their milestones
+        setGoals(await goalService.getStatuses());
       } catch (error) {
         console.error('Error loading dashboard data:', error);
       } finally {
@@ -44,7 +68,7 @@ export const Dashboard: React.FC = () => {
     };
 
     loadDashboardData();
-  }, [currentBook]);
+  }, [currentBook, dataVersion]);
 
   if (!currentBook) {
     return (
@@ -156,6 +180,120 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Payment Modes */}
+      {modeTotals.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="card-title">By Payment Mode (This Month)</h3>
+          </div>
+          <div className="card-content">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 font-medium">Mode</th>
+                  <th className="py-2 font-medium text-right">In</th>
+                  <th className="py-2 font-medium text-right">Out</th>
+                  <th className="py-2 font-medium text-right">Net</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {modeTotals.map(total => {
+                  const net = total.income - total.expense;
+
+                  return (
+                    <tr key={total.paymentModeId || 'none'}>
+                      <td className="py-2 text-gray-900">
+                        {total.paymentModeId
+                          ? paymentModes.find(m => m.id === total.paymentModeId)?.name || 'Deleted mode'
+                          : 'Not set'}
+                      </td>
+                      <td className="py-2 text-right text-green-600">{formatCurrency(total.income, currentBook.currency)}</td>
+                      <td className="py-2 text-right text-red-600">{formatCurrency(total.expense, currentBook.currency)}</td>
+                      <td className={`py-2 text-right font-medium ${net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(net, currentBook.currency)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Pinned Views */}
+      {pinnedViews.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {pinnedViews.map(({ view, summary }) => (
+            <Link
+              key={view.id}
+              to={`/transactions?view=${view.id}`}
+              className="card p-6 hover:bg-gray-50 transition-colors"
+            >
+              <div className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-600 truncate">{view.name}</p>
+                  {summary.totals.length === 0 ? (
+                    <p className="text-xl font-bold text-gray-900">
+                      {formatCurrency(0, currentBook.currency)}
+                    </p>
+                  ) : summary.totals.map(total => (
+                    <p
+                      key={total.currency}
+                      className={`text-xl font-bold ${total.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                    >
+                      {formatCurrency(total.amount, total.currency)}
+                    </p>
+                  ))}
+                  <p className="text-sm text-gray-500">
+                    {summary.count} transaction{summary.count !== 1 ? 's' : ''}
+                  </p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-full">
+                  <Bookmark className="h-6 w-6 text-gray-600" />
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Savings Goals */}
+      {goals.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <div className="flex items-center justify-between">
+              <h3 className="card-title">Savings Goals</h3>
+              <Link
+                to="/goals"
+                className="text-sm text-primary hover:text-primary/80"
+              >
+                View all
+              </Link>
+            </div>
+          </div>
+          <div className="card-content space-y-6">
+            {goals.map(status => {
+              const nextMilestone = GOAL_MILESTONES.find(milestone => !status.milestones.includes(milestone));
+
+              return (
+                <div key={status.goal.id}>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="font-medium text-gray-900">{status.goal.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {nextMilestone === undefined
+                        ? 'Goal reached'
+                        : `${formatCurrency(status.goal.targetAmount * nextMilestone - status.saved, status.goal.currency)} to ${nextMilestone * 100}%`}
+                    </p>
+                  </div>
+                  <GoalProgress status={status} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Recent Transactions */}
       <div className="card">
         <div className="card-header">
@@ -199,7 +337,7 @@ export const Dashboard: React.FC = () => {
                         <p className="font-medium text-gray-900">{transaction.description}</p>
                         <p className="text-sm text-gray-500">
                           {formatDate(transaction.date)}
-                          {category && ` • ${category.name}`}
+                          {transaction.splits?.length ? ' • Split' : category && ` • ${category.name}`}
                         </p>
                       </div>
                     </div>
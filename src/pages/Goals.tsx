@@ -0,0 +1,408 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Target } from 'lucide-react';
+import { useStore } from '../store';
+import { GoalService, CategoryService, SettingsService } from '../lib/services';
+import { SavingsGoal, GoalStatus } from '../types';
+import { currencyOptions, formatCurrency, formatDate } from '../lib/utils';
+import { getInputStep, parseMoney, toDecimalString } from '../lib/money';
+import { GoalProgress } from '../components/GoalProgress';
+import { toastWithUndo } from '../components/Undo';
+import toast from 'react-hot-toast';
+
+const goalService = new GoalService();
+const categoryService = new CategoryService();
+const settingsService = new SettingsService();
+
+interface GoalFormProps {
+  goal?: SavingsGoal;
+  baseCurrency: string;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const GoalForm: React.FC<GoalFormProps> = ({ goal, baseCurrency, onClose, onSave }) => {
+  const { books, categories } = useStore();
+  const [formData, setFormData] = useState({
+    name: goal?.name || '',
+    targetAmount: goal ? toDecimalString(goal.targetAmount, goal.currency) : '',
+    currency: goal?.currency || baseCurrency,
+    dueDate: goal?.dueDate ? goal.dueDate.toISOString().split('T')[0] : '',
+    startDate: (goal?.startDate || new Date()).toISOString().split('T')[0],
+    bookIds: goal?.bookIds || [],
+    categoryIds: goal?.categoryIds || []
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    const targetAmount = parseMoney(formData.targetAmount, formData.currency);
+    if (targetAmount === undefined || targetAmount <= 0) {
+      toast.error('Target must be greater than 0');
+      return;
+    }
+
+    if (formData.bookIds.length === 0 && formData.categoryIds.length === 0) {
+      toast.error('Link at least one book or category');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const goalData = {
+        name: formData.name.trim(),
+        targetAmount,
+        currency: formData.currency,
+        dueDate: formData.dueDate ? new Date(formData.dueDate) : undefined,
+        startDate: new Date(formData.startDate),
+        bookIds: formData.bookIds,
+        categoryIds: formData.categoryIds
+      };
+
+      if (goal) {
+        await goalService.update(goal.id, goalData);
+        toastWithUndo('Goal updated');
+      } else {
+        await goalService.create(goalData);
+        toastWithUndo('Goal created');
+      }
+
+      onSave();
+      onClose();
+    } catch (error) {
+      console.error('Error saving goal:', error);
+      toast.error('Failed to save goal');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6">
+            {goal ? 'Edit Goal' : 'Add Goal'}
+          </h2>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="Emergency fund, laptop..."
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Target</label>
+                <input
+                  type="number"
+                  step={getInputStep(formData.currency)}
+                  min="0"
+                  value={formData.targetAmount}
+                  onChange={(e) => setFormData({ ...formData, targetAmount: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+                <select
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {currencyOptions.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
+                <input
+                  type="date"
+                  value={formData.dueDate}
+                  onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Count From</label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Books</label>
+              <p className="text-xs text-gray-500 mb-2">Their whole balance counts towards the goal.</p>
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {books.map(book => (
+                  <label key={book.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.bookIds.includes(book.id)}
+                      onChange={() => setFormData({ ...formData, bookIds: toggle(formData.bookIds, book.id) })}
+                      className="mr-2"
+                    />
+                    {book.name} <span className="ml-1 text-gray-400">({book.currency})</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Categories</label>
+              <p className="text-xs text-gray-500 mb-2">
+                Expenses in these categories in other books count as saved, from the date above.
+              </p>
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {categories.filter(c => c.isActive || formData.categoryIds.includes(c.id)).map(category => (
+                  <label key={category.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.categoryIds.includes(category.id)}
+                      onChange={() => setFormData({ ...formData, categoryIds: toggle(formData.categoryIds, category.id) })}
+                      className="mr-2"
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Goals: React.FC = () => {
+  const { books, categories, setCategories, dataVersion } = useStore();
+  const [statuses, setStatuses] = useState<GoalStatus[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState('BDT');
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | undefined>();
+
+  const loadGoals = async () => {
+    try {
+      const statusesData = await goalService.getStatuses();
+      setStatuses(statusesData);
+    } catch (error) {
+      console.error('Error loading goals:', error);
+      toast.error('Failed to load goals');
+    }
+  };
+
+  useEffect(() => {
+    const loadCategories = async () => {
+      setCategories(await categoryService.getAll());
+    };
+
+    if (categories.length === 0) {
+      loadCategories();
+    }
+  }, [categories.length, setCategories]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      setBaseCurrency(await settingsService.getBaseCurrency());
+      await loadGoals();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [dataVersion]);
+
+  const handleDelete = async (goal: SavingsGoal) => {
+    if (!window.confirm(`Delete the goal "${goal.name}"? Its books and transactions are kept.`)) {
+      return;
+    }
+
+    try {
+      await goalService.delete(goal.id);
+      await loadGoals();
+      toastWithUndo('Goal deleted');
+    } catch (error) {
+      console.error('Error deleting goal:', error);
+      toast.error('Failed to delete goal');
+    }
+  };
+
+  const handleEdit = (goal: SavingsGoal) => {
+    setEditingGoal(goal);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingGoal(undefined);
+  };
+
+  const getLinkedNames = (goal: SavingsGoal) => [
+    ...goal.bookIds.map(id => books.find(b => b.id === id)?.name),
+    ...goal.categoryIds.map(id => categories.find(c => c.id === id)?.name)
+  ].filter(Boolean).join(', ');
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading goals...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Goals</h1>
+        <button
+          onClick={() => setShowForm(true)}
+          className="btn btn-primary"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Goal
+        </button>
+      </div>
+
+      {statuses.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Target className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500 mb-4">No savings goals yet</p>
+          <p className="text-gray-400 text-sm mb-6">
+            Link a book or category to a target and see when you will get there
+          </p>
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn btn-primary"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add your first goal
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {statuses.map(status => {
+            const { goal } = status;
+
+            return (
+              <div key={goal.id} className="bg-white rounded-lg shadow p-6 space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">{goal.name}</h3>
+                    <p className="text-sm text-gray-500">{getLinkedNames(goal) || 'Nothing linked'}</p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(goal)}
+                      className="text-blue-600 hover:text-blue-900"
+                      title="Edit"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(goal)}
+                      className="text-red-600 hover:text-red-900"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <GoalProgress status={status} />
+
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-gray-500">Due</dt>
+                    <dd className="text-gray-900">{goal.dueDate ? formatDate(goal.dueDate) : 'No due date'}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Needed per month</dt>
+                    <dd className="text-gray-900">
+                      {status.requiredMonthly !== undefined ? formatCurrency(status.requiredMonthly, goal.currency) : '—'}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Saving per month lately</dt>
+                    <dd className={status.monthlyRate < 0 ? 'text-red-600' : 'text-gray-900'}>
+                      {formatCurrency(status.monthlyRate, goal.currency)}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Projected</dt>
+                    <dd className={
+                      status.projectedDate && goal.dueDate && status.projectedDate > goal.dueDate ? 'text-red-600' : 'text-gray-900'
+                    }>
+                      {status.remaining === 0
+                        ? 'Reached'
+                        : status.projectedDate ? formatDate(status.projectedDate) : 'Not at the recent rate'}
+                    </dd>
+                  </div>
+                </dl>
+
+                {status.missingRates.length > 0 && (
+                  <p className="text-xs text-yellow-700">
+                    Amounts in {status.missingRates.join(', ')} are left out until an exchange rate to {goal.currency} is added
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Goal Form Modal */}
+      {showForm && (
+        <GoalForm
+          goal={editingGoal}
+          baseCurrency={baseCurrency}
+          onClose={handleCloseForm}
+          onSave={loadGoals}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Edit, Trash2, Users, Phone } from 'lucide-react';
+import { useStore } from '../store';
+import { PartyService, CategoryService } from '../lib/services';
+import { CurrencySubtotal, Party } from '../types';
+import { PartyBalance } from '../components/PartyBalance';
+import { toastWithUndo } from '../components/Undo';
+import { CategoryOptions } from '../components/CategoryOptions';
+import toast from 'react-hot-toast';
+
+const partyService = new PartyService();
+const categoryService = new CategoryService();
+
+interface PartyFormProps {
+  party?: Party;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const PartyForm: React.FC<PartyFormProps> = ({ party, onClose, onSave }) => {
+  const { categories } = useStore();
+  const [formData, setFormData] = useState({
+    name: party?.name || '',
+    phone: party?.phone || '',
+    notes: party?.notes || '',
+    defaultCategoryId: party?.defaultCategoryId || ''
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const partyData = {
+        name: formData.name.trim(),
+        phone: formData.phone.trim() || undefined,
+        notes: formData.notes.trim() || undefined,
+        defaultCategoryId: formData.defaultCategoryId || undefined
+      };
+
+      if (party) {
+        await partyService.update(party.id, partyData);
+        toastWithUndo('Party updated');
+      } else {
+        await partyService.create(partyData);
+        toastWithUndo('Party added');
+      }
+
+      onSave();
+      onClose();
+    } catch (error) {
+      console.error('Error saving party:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save party');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6">
+            {party ? 'Edit Party' : 'Add Party'}
+          </h2>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="Shop, landlord, colleague..."
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default Category</label>
+              <select
+                value={formData.defaultCategoryId}
+                onChange={(e) => setFormData({ ...formData, defaultCategoryId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">None</option>
+                <CategoryOptions categories={categories} value={formData.defaultCategoryId} />
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Filled in when this party is picked for a new transaction</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Parties: React.FC = () => {
+  const { categories, setCategories, dataVersion } = useStore();
+  const [parties, setParties] = useState<Party[]>([]);
+  const [balances, setBalances] = useState<Map<string, CurrencySubtotal[]>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingParty, setEditingParty] = useState<Party | undefined>();
+
+  const loadParties = async () => {
+    try {
+      const [partiesData, balancesData] = await Promise.all([partyService.getAll(), partyService.getBalances()]);
+      setParties(partiesData);
+      setBalances(balancesData);
+    } catch (error) {
+      console.error('Error loading parties:', error);
+      toast.error('Failed to load parties');
+    }
+  };
+
+  useEffect(() => {
+    const loadCategories = async () => {
+      setCategories(await categoryService.getAll());
+    };
+
+    if (categories.length === 0) {
+      loadCategories();
+    }
+  }, [categories.length, setCategories]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await loadParties();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [dataVersion]);
+
+  const handleDelete = async (party: Party) => {
+    if (!window.confirm(`Delete "${party.name}"? Its transactions are kept without a party.`)) {
+      return;
+    }
+
+    try {
+      await partyService.delete(party.id);
+      await loadParties();
+      toastWithUndo('Party deleted');
+    } catch (error) {
+      console.error('Error deleting party:', error);
+      toast.error('Failed to delete party');
+    }
+  };
+
+  const handleEdit = (party: Party) => {
+    setEditingParty(party);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingParty(undefined);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading parties...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Parties</h1>
+        <button
+          onClick={() => setShowForm(true)}
+          className="btn btn-primary"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Party
+        </button>
+      </div>
+
+      {parties.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500 mb-4">No parties yet</p>
+          <p className="text-gray-400 text-sm mb-6">
+            Keep track of who you pay and who pays you, across all your books
+          </p>
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn btn-primary"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add your first party
+          </button>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {parties.map(party => (
+              <li key={party.id} className="flex items-center justify-between px-6 py-4 hover:bg-gray-50">
+                <Link to={`/parties/${party.id}`} className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900">{party.name}</p>
+                  <p className="text-sm text-gray-500">
+                    {party.phone && (
+                      <span className="mr-3">
+                        <Phone className="h-3 w-3 inline mr-1" />
+                        {party.phone}
+                      </span>
+                    )}
+                    {categories.find(c => c.id === party.defaultCategoryId)?.name}
+                  </p>
+                </Link>
+                <div className="flex items-center space-x-6">
+                  <PartyBalance balances={balances.get(party.id) || []} />
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(party)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(party)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {showForm && (
+        <PartyForm
+          party={editingParty}
+          onClose={handleCloseForm}
+          onSave={loadParties}
+        />
+      )}
+    </div>
+  );
+};
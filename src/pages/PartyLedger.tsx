@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Phone, Users } from 'lucide-react';
+import { useStore } from '../store';
+import { PartyService } from '../lib/services';
+import { PartyLedger as Ledger, Transaction } from '../types';
+import { formatCurrency, formatDate } from '../lib/utils';
+import { PartyBalance } from '../components/PartyBalance';
+import toast from 'react-hot-toast';
+
+const partyService = new PartyService();
+
+// Everything recorded with one party, across all books
+export const PartyLedger: React.FC = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { books, categories, dataVersion } = useStore();
+  const [ledger, setLedger] = useState<Ledger | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadLedger = async () => {
+      if (!id) return;
+
+      try {
+        setIsLoading(true);
+        setLedger(await partyService.getLedger(id));
+      } catch (error) {
+        console.error('Error loading ledger:', error);
+        toast.error('Failed to load ledger');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLedger();
+  }, [id, dataVersion]);
+
+  const getCategoryName = (transaction: Transaction) => {
+    if (transaction.splits && transaction.splits.length > 0) {
+      return `Split (${transaction.splits.length})`;
+    }
+    return categories.find(c => c.id === transaction.categoryId)?.name || 'Uncategorized';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading ledger...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <button
+          onClick={() => navigate('/parties')}
+          className="flex items-center text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Parties
+        </button>
+        {ledger && (
+          <div className="flex items-start justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{ledger.party.name}</h1>
+              {ledger.party.phone && (
+                <p className="text-sm text-gray-500 mt-1">
+                  <Phone className="h-3 w-3 inline mr-1" />
+                  {ledger.party.phone}
+                </p>
+              )}
+              {ledger.party.notes && <p className="text-sm text-gray-500 mt-1">{ledger.party.notes}</p>}
+            </div>
+            <PartyBalance balances={ledger.balances} />
+          </div>
+        )}
+      </div>
+
+      {!ledger ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">This party no longer exists</p>
+        </div>
+      ) : ledger.transactions.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <p className="text-gray-500">No transactions with {ledger.party.name} yet</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Book</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Paid</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {ledger.transactions.map(transaction => {
+                  const currency = books.find(b => b.id === transaction.bookId)?.currency;
+
+                  return (
+                    <tr key={transaction.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(transaction.date)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {books.find(b => b.id === transaction.bookId)?.name || 'Deleted book'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{transaction.description}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getCategoryName(transaction)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                        {transaction.type === 'expense' && formatCurrency(transaction.amount, currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
+                        {transaction.type === 'income' && formatCurrency(transaction.amount, currency)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
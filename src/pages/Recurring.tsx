@@ -0,0 +1,533 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Repeat, Pause, Play, SkipForward } from 'lucide-react';
+import { useStore } from '../store';
+import { RecurringService, CategoryService, BookService, UndoService } from '../lib/services';
+import { RecurringRule, RecurringFrequency } from '../types';
+import { formatCurrency, formatDate, describeFrequency } from '../lib/utils';
+import { getInputStep, parseMoney, toDecimalString } from '../lib/money';
+import { toastWithUndo } from '../components/Undo';
+import { CategoryOptions } from '../components/CategoryOptions';
+import toast from 'react-hot-toast';
+
+const recurringService = new RecurringService();
+const categoryService = new CategoryService();
+const bookService = new BookService();
+const undoService = new UndoService();
+
+interface RecurringRuleFormProps {
+  rule?: RecurringRule;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const RecurringRuleForm: React.FC<RecurringRuleFormProps> = ({ rule, onClose, onSave }) => {
+  const { books, currentBook, categories, setBooks } = useStore();
+  const getBookCurrency = (bookId?: string) => books.find(b => b.id === bookId)?.currency || 'BDT';
+  const [formData, setFormData] = useState({
+    bookId: rule?.bookId || currentBook?.id || '',
+    type: rule?.type || 'expense' as 'income' | 'expense',
+    amount: rule ? toDecimalString(rule.amount, getBookCurrency(rule.bookId)) : '',
+    description: rule?.description || '',
+    notes: rule?.notes || '',
+    categoryId: rule?.categoryId || '',
+    tags: rule?.tags.join(', ') || '',
+    frequency: rule?.frequency || 'monthly' as RecurringFrequency,
+    interval: rule?.interval || 1,
+    startDate: (rule?.nextDate || new Date()).toISOString().split('T')[0],
+    endDate: rule?.endDate ? rule.endDate.toISOString().split('T')[0] : ''
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.bookId) {
+      toast.error('Please select a book');
+      return;
+    }
+
+    if (!formData.description.trim()) {
+      toast.error('Description is required');
+      return;
+    }
+
+    const amount = parseMoney(formData.amount, getBookCurrency(formData.bookId));
+    if (amount === undefined || amount <= 0) {
+      toast.error('Amount must be greater than 0');
+      return;
+    }
+
+    if (formData.interval < 1) {
+      toast.error('Interval must be at least 1');
+      return;
+    }
+
+    const startDate = new Date(formData.startDate);
+    const endDate = formData.endDate ? new Date(formData.endDate) : undefined;
+
+    if (endDate && endDate < startDate) {
+      toast.error('End date must be after the start date');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const ruleData = {
+        bookId: formData.bookId,
+        type: formData.type,
+        amount,
+        description: formData.description.trim(),
+        notes: formData.notes.trim() || undefined,
+        categoryId: formData.categoryId || undefined,
+        tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        frequency: formData.frequency,
+        interval: formData.interval,
+        endDate
+      };
+
+      // Saving the rule and catching up on occurrences that are already due
+      // are undone together
+      const generated = await undoService.run(rule ? 'Edit recurring rule' : 'Add recurring rule', async () => {
+        let ruleId: string;
+
+        if (rule) {
+          // Only restart the schedule when the user picked a different date
+          const dateChanged = startDate.getTime() !== rule.nextDate.getTime();
+          await recurringService.updateFuture(rule.id, dateChanged ? { ...ruleData, startDate } : ruleData);
+          ruleId = rule.id;
+        } else {
+          const newRule = await recurringService.create({ ...ruleData, startDate, isPaused: false });
+          ruleId = newRule.id;
+        }
+
+        return await recurringService.processDue(new Date(), ruleId);
+      });
+      toastWithUndo(rule ? 'Future occurrences updated' : 'Recurring rule created');
+
+      if (generated.length > 0) {
+        setBooks(await bookService.getAll());
+      }
+
+      onSave();
+      onClose();
+    } catch (error) {
+      console.error('Error saving recurring rule:', error);
+      toast.error('Failed to save recurring rule');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const filteredCategories = categories.filter(cat =>
+    cat.type === formData.type || cat.type === 'both'
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6">
+            {rule ? 'Edit Future Occurrences' : 'Add Recurring Rule'}
+          </h2>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Book</label>
+              <select
+                value={formData.bookId}
+                onChange={(e) => setFormData({ ...formData, bookId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Select book</option>
+                {books.map(book => (
+                  <option key={book.id} value={book.id}>{book.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={formData.type}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as 'income' | 'expense' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="expense">Expense</option>
+                  <option value="income">Income</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                <input
+                  type="number"
+                  step={getInputStep(getBookCurrency(formData.bookId))}
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="Rent, salary, subscription..."
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={formData.categoryId}
+                onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Select category</option>
+                <CategoryOptions categories={filteredCategories} value={formData.categoryId} />
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Repeats</label>
+                <select
+                  value={formData.frequency}
+                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as RecurringFrequency })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="yearly">Yearly</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Every</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.interval}
+                  onChange={(e) => setFormData({ ...formData, interval: parseInt(e.target.value) || 1 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {rule ? 'Next Date' : 'Start Date'}
+                </label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+                <input
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+              <input
+                type="text"
+                value={formData.tags}
+                onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="tag1, tag2, tag3..."
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                rows={2}
+              />
+            </div>
+
+            {rule && (
+              <p className="text-sm text-gray-500">
+                Transactions that were already created are not changed.
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Recurring: React.FC = () => {
+  const { books, categories, setCategories, dataVersion } = useStore();
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringRule | undefined>();
+
+  const loadRules = async () => {
+    try {
+      const rulesData = await recurringService.getAll();
+      setRules(rulesData);
+    } catch (error) {
+      console.error('Error loading recurring rules:', error);
+      toast.error('Failed to load recurring rules');
+    }
+  };
+
+  useEffect(() => {
+    const loadCategories = async () => {
+      setCategories(await categoryService.getAll());
+    };
+
+    if (categories.length === 0) {
+      loadCategories();
+    }
+  }, [categories.length, setCategories]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await loadRules();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [dataVersion]);
+
+  const runAction = async (action: () => Promise<void>, message: string) => {
+    try {
+      await action();
+      await loadRules();
+      toastWithUndo(message);
+    } catch (error) {
+      console.error('Error updating recurring rule:', error);
+      toast.error('Failed to update recurring rule');
+    }
+  };
+
+  const handleTogglePause = (rule: RecurringRule) => {
+    if (rule.isPaused) {
+      runAction(() => recurringService.resume(rule.id), 'Rule resumed');
+    } else {
+      runAction(() => recurringService.pause(rule.id), 'Rule paused');
+    }
+  };
+
+  const handleSkip = (rule: RecurringRule) => {
+    runAction(() => recurringService.skipNext(rule.id), `Skipped ${formatDate(rule.nextDate)}`);
+  };
+
+  const handleDelete = (rule: RecurringRule) => {
+    if (!window.confirm('Delete this recurring rule? Transactions it already created will be kept.')) {
+      return;
+    }
+
+    runAction(() => recurringService.delete(rule.id), 'Recurring rule deleted');
+  };
+
+  const handleEdit = (rule: RecurringRule) => {
+    setEditingRule(rule);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingRule(undefined);
+  };
+
+  const getStatus = (rule: RecurringRule) => {
+    if (!rule.isActive) return { label: 'Ended', className: 'text-gray-600 bg-gray-100' };
+    if (rule.isPaused) return { label: 'Paused', className: 'text-yellow-700 bg-yellow-100' };
+    return { label: 'Active', className: 'text-green-600 bg-green-100' };
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading recurring rules...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Recurring</h1>
+        <button
+          onClick={() => setShowForm(true)}
+          className="btn btn-primary"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </button>
+      </div>
+
+      {rules.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Repeat className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500 mb-4">No recurring rules yet</p>
+          <p className="text-gray-400 text-sm mb-6">
+            Rent, salary and subscriptions can be entered automatically
+          </p>
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn btn-primary"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add your first rule
+          </button>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Description
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Schedule
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Next
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rules.map((rule) => {
+                  const book = books.find(b => b.id === rule.bookId);
+                  const category = categories.find(c => c.id === rule.categoryId);
+                  const status = getStatus(rule);
+
+                  return (
+                    <tr key={rule.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div className="font-medium">{rule.description}</div>
+                        <div className="text-gray-500 text-xs mt-1">
+                          {book?.name || 'Missing book'}
+                          {category && ` • ${category.name}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{describeFrequency(rule.frequency, rule.interval)}</div>
+                        <span className={`inline-flex items-center px-2 py-0.5 mt-1 rounded-full text-xs font-medium ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {rule.isActive ? formatDate(rule.nextDate) : '—'}
+                        {rule.endDate && (
+                          <div className="text-gray-500 text-xs mt-1">Until {formatDate(rule.endDate)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`font-medium ${
+                          rule.type === 'income' ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {rule.type === 'income' ? '+' : '-'}
+                          {formatCurrency(rule.amount, book?.currency)}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex justify-end space-x-2">
+                          {rule.isActive && (
+                            <>
+                              <button
+                                onClick={() => handleTogglePause(rule)}
+                                className="text-yellow-600 hover:text-yellow-800"
+                                title={rule.isPaused ? 'Resume' : 'Pause'}
+                              >
+                                {rule.isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                              </button>
+                              <button
+                                onClick={() => handleSkip(rule)}
+                                className="text-gray-600 hover:text-gray-900"
+                                title="Skip next occurrence"
+                              >
+                                <SkipForward className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
+                          <button
+                            onClick={() => handleEdit(rule)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Edit future occurrences"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(rule)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Recurring Rule Form Modal */}
+      {showForm && (
+        <RecurringRuleForm
+          rule={editingRule}
+          onClose={handleCloseForm}
+          onSave={loadRules}
+        />
+      )}
+    </div>
+  );
+};
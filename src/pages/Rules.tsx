@@ -0,0 +1,574 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Wand2, ArrowUp, ArrowDown, X, Eye } from 'lucide-react';
+import { useStore } from '../store';
+import { CategorizationRuleService, CategoryService, PaymentModeService } from '../lib/services';
+import { CategorizationRule, PaymentMode, RuleChange, RuleCondition, RuleField } from '../types';
+import { formatDate } from '../lib/utils';
+import { RULE_FIELD_LABELS, RULE_OPERATOR_LABELS, describeCondition, getRuleOperators } from '../lib/categorization';
+import { toastWithUndo } from '../components/Undo';
+import { CategoryOptions } from '../components/CategoryOptions';
+import toast from 'react-hot-toast';
+
+const ruleService = new CategorizationRuleService();
+const categoryService = new CategoryService();
+const paymentModeService = new PaymentModeService();
+
+interface RuleFormProps {
+  rule?: CategorizationRule;
+  paymentModes: PaymentMode[];
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const RuleForm: React.FC<RuleFormProps> = ({ rule, paymentModes, onClose, onSave }) => {
+  const { categories } = useStore();
+  const [formData, setFormData] = useState({
+    name: rule?.name || '',
+    type: rule?.type || '',
+    categoryId: rule?.categoryId || '',
+    paymentModeId: rule?.paymentModeId || '',
+    tags: rule?.tags.join(', ') || '',
+    isActive: rule?.isActive ?? true
+  });
+  const [conditions, setConditions] = useState<RuleCondition[]>(
+    rule?.conditions || [{ field: 'description', operator: 'contains', value: '' }]
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateCondition = (index: number, updates: Partial<RuleCondition>) => {
+    setConditions(conditions.map((condition, i) => i === index ? { ...condition, ...updates } : condition));
+  };
+
+  // Text and amount fields take different operators
+  const setConditionField = (index: number, field: RuleField) => {
+    updateCondition(index, { field, operator: getRuleOperators(field)[0] });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+
+      const ruleData = {
+        name: formData.name,
+        type: (formData.type || undefined) as CategorizationRule['type'],
+        conditions: conditions.map(condition => ({ ...condition, value: condition.value.trim() })),
+        categoryId: formData.categoryId || undefined,
+        paymentModeId: formData.paymentModeId || undefined,
+        tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        isActive: formData.isActive
+      };
+
+      if (rule) {
+        await ruleService.update(rule.id, ruleData);
+        toastWithUndo('Rule updated');
+      } else {
+        await ruleService.create(ruleData);
+        toastWithUndo('Rule added');
+      }
+
+      onSave();
+      onClose();
+    } catch (error) {
+      console.error('Error saving rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save rule');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const typeCategories = categories.filter(c => !formData.type || c.type === formData.type || c.type === 'both');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6">
+            {rule ? 'Edit Rule' : 'Add Rule'}
+          </h2>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="e.g. Rides"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Income and expenses</option>
+                <option value="income">Income only</option>
+                <option value="expense">Expenses only</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">When all of these match</label>
+              <div className="space-y-2">
+                {conditions.map((condition, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <select
+                      value={condition.field}
+                      onChange={(e) => setConditionField(index, e.target.value as RuleField)}
+                      className="px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {(Object.keys(RULE_FIELD_LABELS) as RuleField[]).map(field => (
+                        <option key={field} value={field}>{RULE_FIELD_LABELS[field]}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={condition.operator}
+                      onChange={(e) => updateCondition(index, { operator: e.target.value as RuleCondition['operator'] })}
+                      className="px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {getRuleOperators(condition.field).map(operator => (
+                        <option key={operator} value={operator}>{RULE_OPERATOR_LABELS[operator]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      inputMode={condition.field === 'amount' ? 'decimal' : 'text'}
+                      value={condition.value}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      placeholder={condition.field === 'amount' ? '0.00' : 'Text'}
+                      required
+                    />
+                    {conditions.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setConditions(conditions.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setConditions([...conditions, { field: 'description', operator: 'contains', value: '' }])}
+                className="mt-2 text-sm text-primary hover:underline"
+              >
+                <Plus className="h-4 w-4 inline mr-1" />
+                Add condition
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Set category</label>
+              <select
+                value={formData.categoryId}
+                onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Leave as is</option>
+                <CategoryOptions categories={typeCategories} value={formData.categoryId} />
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Set payment mode</label>
+              <select
+                value={formData.paymentModeId}
+                onChange={(e) => setFormData({ ...formData, paymentModeId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Leave as is</option>
+                {paymentModes.map(mode => (
+                  <option key={mode.id} value={mode.id}>{mode.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Add tags</label>
+              <input
+                type="text"
+                value={formData.tags}
+                onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="transport, work"
+              />
+              <p className="text-xs text-gray-500 mt-1">Separate tags with commas</p>
+            </div>
+
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                className="mr-2"
+              />
+              Active
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Rules: React.FC = () => {
+  const { categories, setCategories, books, currentBook, dataVersion, bumpDataVersion } = useStore();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [paymentModes, setPaymentModes] = useState<PaymentMode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | undefined>();
+  // Running the rules over existing transactions
+  const [runOptions, setRunOptions] = useState({ bookId: currentBook?.id || '', overwrite: false });
+  const [changes, setChanges] = useState<RuleChange[] | undefined>();
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadRules = async () => {
+    try {
+      setRules(await ruleService.getAll());
+    } catch (error) {
+      console.error('Error loading rules:', error);
+      toast.error('Failed to load rules');
+    }
+  };
+
+  useEffect(() => {
+    const loadCategories = async () => {
+      setCategories(await categoryService.getAll());
+    };
+
+    if (categories.length === 0) {
+      loadCategories();
+    }
+  }, [categories.length, setCategories]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      setPaymentModes(await paymentModeService.getAll());
+      await loadRules();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [dataVersion]);
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Transactions it already filled in are kept as they are.`)) {
+      return;
+    }
+
+    try {
+      await ruleService.delete(rule.id);
+      await loadRules();
+      toastWithUndo('Rule deleted');
+    } catch (error) {
+      console.error('Error deleting rule:', error);
+      toast.error('Failed to delete rule');
+    }
+  };
+
+  const handleMove = async (rule: CategorizationRule, offset: -1 | 1) => {
+    try {
+      await ruleService.move(rule.id, offset);
+      await loadRules();
+    } catch (error) {
+      console.error('Error reordering rules:', error);
+      toast.error('Failed to reorder rules');
+    }
+  };
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setEditingRule(rule);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingRule(undefined);
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsRunning(true);
+      setChanges(await ruleService.preview(
+        { bookIds: runOptions.bookId ? [runOptions.bookId] : undefined },
+        runOptions.overwrite
+      ));
+      setExcludedIds([]);
+    } catch (error) {
+      console.error('Error previewing rules:', error);
+      toast.error('Failed to run rules');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleApply = async () => {
+    const selected = (changes || []).filter(change => !excludedIds.includes(change.transaction.id));
+    if (selected.length === 0) return;
+
+    try {
+      setIsRunning(true);
+      await ruleService.apply(selected);
+      setChanges(undefined);
+      bumpDataVersion();
+      toastWithUndo(`Updated ${selected.length} transaction${selected.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error applying rules:', error);
+      toast.error('Failed to apply rules');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const toggleChange = (id: string) => {
+    setExcludedIds(excludedIds.includes(id) ? excludedIds.filter(excludedId => excludedId !== id) : [...excludedIds, id]);
+  };
+
+  const getCategoryName = (id?: string) => categories.find(c => c.id === id)?.name;
+  const getModeName = (id?: string) => paymentModes.find(m => m.id === id)?.name;
+
+  const describeActions = (rule: CategorizationRule) => [
+    rule.categoryId && `Category: ${getCategoryName(rule.categoryId) || 'Missing category'}`,
+    rule.paymentModeId && `Mode: ${getModeName(rule.paymentModeId) || 'Missing mode'}`,
+    rule.tags.length > 0 && `Tags: ${rule.tags.join(', ')}`
+  ].filter(Boolean).join(' · ');
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading rules...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Rules</h1>
+        <button
+          onClick={() => setShowForm(true)}
+          className="btn btn-primary"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </button>
+      </div>
+
+      {rules.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Wand2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500 mb-4">No rules yet</p>
+          <p className="text-gray-400 text-sm mb-6">
+            Fill in categories, tags and payment modes from what you type, and on every import
+          </p>
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn btn-primary"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add your first rule
+          </button>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {rules.map((rule, index) => (
+              <li key={rule.id} className={`flex items-center justify-between px-6 py-4 hover:bg-gray-50 ${rule.isActive ? '' : 'opacity-60'}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {rule.name}
+                    {!rule.isActive && (
+                      <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+                        Paused
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {rule.type && `${rule.type === 'income' ? 'Income' : 'Expenses'}: `}
+                    {rule.conditions.map(describeCondition).join(' and ')}
+                  </p>
+                  <p className="text-sm text-gray-700">{describeActions(rule)}</p>
+                </div>
+                <div className="flex space-x-2 ml-4">
+                  <button
+                    onClick={() => handleMove(rule, -1)}
+                    disabled={index === 0}
+                    className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Run earlier"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(rule, 1)}
+                    disabled={index === rules.length - 1}
+                    className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Run later"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleEdit(rule)}
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {rules.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Run on existing transactions</h2>
+            <p className="text-sm text-gray-500">
+              Preview what the rules would change, then pick the changes to keep. Tags are only added.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Book</label>
+              <select
+                value={runOptions.bookId}
+                onChange={(e) => setRunOptions({ ...runOptions, bookId: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">All books</option>
+                {books.map(book => (
+                  <option key={book.id} value={book.id}>{book.name}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={runOptions.overwrite}
+                onChange={(e) => setRunOptions({ ...runOptions, overwrite: e.target.checked })}
+                className="mr-2"
+              />
+              Replace categories and modes already set
+            </label>
+            <button
+              onClick={handlePreview}
+              disabled={isRunning}
+              className="btn btn-secondary"
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </button>
+          </div>
+
+          {changes && (changes.length === 0 ? (
+            <p className="text-sm text-gray-500">The rules would not change any transactions.</p>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2"></th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {changes.map(change => (
+                      <tr key={change.transaction.id}>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={!excludedIds.includes(change.transaction.id)}
+                            onChange={() => toggleChange(change.transaction.id)}
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">{formatDate(change.transaction.date)}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{change.transaction.description}</td>
+                        <td className="px-4 py-2 text-sm text-gray-700">
+                          {change.categoryId && (
+                            <div>
+                              Category: {getCategoryName(change.transaction.categoryId) || 'None'} → {getCategoryName(change.categoryId)}
+                            </div>
+                          )}
+                          {change.paymentModeId && (
+                            <div>
+                              Mode: {getModeName(change.transaction.paymentModeId) || 'None'} → {getModeName(change.paymentModeId)}
+                            </div>
+                          )}
+                          {change.tags && (
+                            <div>
+                              Tags: +{change.tags.filter(tag => !change.transaction.tags.includes(tag)).join(', +')}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={handleApply}
+                  disabled={isRunning || excludedIds.length === changes.length}
+                  className="btn btn-primary"
+                >
+                  Apply {changes.length - excludedIds.length} change{changes.length - excludedIds.length === 1 ? '' : 's'}
+                </button>
+              </div>
+            </>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <RuleForm
+          rule={editingRule}
+          paymentModes={paymentModes}
+          onClose={handleCloseForm}
+          onSave={loadRules}
+        />
+      )}
+    </div>
+  );
+};
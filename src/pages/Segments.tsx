@@ -1,13 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Folder, BookOpen } from 'lucide-react';
 import { useStore } from '../store';
-import { SegmentService, BookService } from '../lib/services';
-import { Segment } from '../types';
+import { SegmentService } from '../lib/services';
+import { Segment, SegmentBalanceSummary } from '../types';
 import { formatCurrency } from '../lib/utils';
+import { toastWithUndo } from '../components/Undo';
 import toast from 'react-hot-toast';
 
 const segmentService = new SegmentService();
-const bookService = new BookService();
 
 interface SegmentFormProps {
   segment?: Segment;
@@ -48,10 +48,10 @@ const SegmentForm: React.FC<SegmentFormProps> = ({ segment, onClose, onSave }) =
       if (segment) {
         await segmentService.update(segment.id, segmentData);
         savedSegment = { ...segment, ...segmentData, updatedAt: new Date() };
-        toast.success('Segment updated successfully');
+        toastWithUndo('Segment updated successfully');
       } else {
         savedSegment = await segmentService.create(segmentData);
-        toast.success('Segment created successfully');
+        toastWithUndo('Segment created successfully');
       }
 
       onSave(savedSegment);
@@ -149,10 +149,11 @@ const SegmentForm: React.FC<SegmentFormProps> = ({ segment, onClose, onSave }) =
 };
 
 export const Segments: React.FC = () => {
-  const { segments, setSegments, books } = useStore();
+  const { segments, setSegments, books, dataVersion } = useStore();
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingSegment, setEditingSegment] = useState<Segment | undefined>();
+  const [summaries, setSummaries] = useState<Record<string, SegmentBalanceSummary>>({});
 
   useEffect(() => {
     const loadSegments = async () => {
@@ -162,9 +163,11 @@ export const Segments: React.FC = () => {
         setSegments(segmentsData);
         
         // Update balances for all segments
+        const summariesData: Record<string, SegmentBalanceSummary> = {};
         for (const segment of segmentsData) {
-          await segmentService.updateTotalBalance(segment.id);
+          summariesData[segment.id] = await segmentService.updateTotalBalance(segment.id);
         }
+        setSummaries(summariesData);
         
         // Reload segments with updated balances
         const updatedSegments = await segmentService.getAll();
@@ -178,7 +181,7 @@ export const Segments: React.FC = () => {
     };
 
     loadSegments();
-  }, [setSegments]);
+  }, [setSegments, dataVersion]);
 
   const handleDelete = async (segmentId: string) => {
     const segmentBooks = books.filter(book => book.segmentId === segmentId);
@@ -188,14 +191,14 @@ export const Segments: React.FC = () => {
       return;
     }
 
-    if (!window.confirm('Are you sure you want to delete this segment?')) {
+    if (!window.confirm('Move this segment to the trash?')) {
       return;
     }
 
     try {
       await segmentService.delete(segmentId);
       setSegments(segments.filter(s => s.id !== segmentId));
-      toast.success('Segment deleted successfully');
+      toastWithUndo('Segment moved to trash');
     } catch (error) {
       console.error('Error deleting segment:', error);
       toast.error('Failed to delete segment');
@@ -266,6 +269,7 @@ export const Segments: React.FC = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {segments.map((segment) => {
             const segmentBooks = getSegmentBooks(segment.id);
+            const summary = summaries[segment.id];
             return (
               <div
                 key={segment.id}
@@ -309,8 +313,27 @@ export const Segments: React.FC = () => {
                 <div className="mb-4">
                   <div className="text-sm font-medium text-gray-700 mb-1">Total Balance</div>
                   <div className="text-2xl font-bold text-gray-900">
-                    {formatCurrency(segment.totalBalance)}
+                    {formatCurrency(segment.totalBalance, summary?.baseCurrency)}
                   </div>
+                  {summary && summary.subtotals.some(subtotal => subtotal.currency !== summary.baseCurrency) && (
+                    <div className="mt-2 space-y-1">
+                      {summary.subtotals.map(subtotal => (
+                        <div key={subtotal.currency} className="flex items-center justify-between text-xs text-gray-500">
+                          <span>{formatCurrency(subtotal.amount, subtotal.currency)}</span>
+                          <span>
+                            {subtotal.convertedAmount === undefined
+                              ? 'No rate'
+                              : `≈ ${formatCurrency(subtotal.convertedAmount, summary.baseCurrency)}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {summary && summary.missingRates.length > 0 && (
+                    <p className="mt-2 text-xs text-yellow-700">
+                      {summary.missingRates.join(', ')} not included: add a rate to {summary.baseCurrency} in Settings
+                    </p>
+                  )}
                 </div>
 
                 {segmentBooks.length > 0 && (
@@ -0,0 +1,557 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Coins, Download, Upload, Database, Pin, PinOff, Edit } from 'lucide-react';
+import { SettingsService, ExchangeRateService, BackupService, SavedViewService, PaymentModeService } from '../lib/services';
+import { ExchangeRate, SavedView, PaymentMode } from '../types';
+import { MigrationLogEntry } from '../lib/migrations';
+import { StoredBackup } from '../lib/backup';
+import { currencyOptions, downloadFile, formatDate, formatDateTime, readFileAsText } from '../lib/utils';
+import { useStore } from '../store';
+import { toastWithUndo } from '../components/Undo';
+import toast from 'react-hot-toast';
+
+const settingsService = new SettingsService();
+const exchangeRateService = new ExchangeRateService();
+const backupService = new BackupService();
+const savedViewService = new SavedViewService();
+const paymentModeService = new PaymentModeService();
+
+export const Settings: React.FC = () => {
+  const { dataVersion, bumpDataVersion } = useStore();
+  const [actorName, setActorName] = useState('');
+  const [baseCurrency, setBaseCurrency] = useState('BDT');
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [rateForm, setRateForm] = useState({
+    fromCurrency: 'USD',
+    toCurrency: 'BDT',
+    rate: 0,
+    date: new Date().toISOString().split('T')[0]
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [migrationLog, setMigrationLog] = useState<MigrationLogEntry[]>([]);
+  const [backups, setBackups] = useState<StoredBackup[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [paymentModes, setPaymentModes] = useState<PaymentMode[]>([]);
+  const [newModeName, setNewModeName] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        setIsLoading(true);
+        const [name, base, ratesData, logData, backupsData, viewsData, modesData] = await Promise.all([
+          settingsService.getActorName(),
+          settingsService.getBaseCurrency(),
+          exchangeRateService.getAll(),
+          settingsService.getMigrationLog(),
+          backupService.getStoredBackups(),
+          savedViewService.getAll(),
+          paymentModeService.getAll()
+        ]);
+        setActorName(name);
+        setBaseCurrency(base);
+        setRates(ratesData);
+        setMigrationLog(logData);
+        setBackups(backupsData);
+        setSavedViews(viewsData);
+        setPaymentModes(modesData);
+        setRateForm(prev => ({ ...prev, toCurrency: base, fromCurrency: base === 'USD' ? 'BDT' : 'USD' }));
+      } catch (error) {
+        console.error('Error loading settings:', error);
+        toast.error('Failed to load settings');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [dataVersion]);
+
+  const handleActorNameSave = async () => {
+    try {
+      await settingsService.setActorName(actorName.trim());
+      toast.success('Name saved');
+    } catch (error) {
+      console.error('Error saving name:', error);
+      toast.error('Failed to save name');
+    }
+  };
+
+  const handleBaseCurrencyChange = async (currency: string) => {
+    try {
+      await settingsService.setBaseCurrency(currency);
+      setBaseCurrency(currency);
+      toast.success(`Segment totals will be shown in ${currency}`);
+    } catch (error) {
+      console.error('Error saving base currency:', error);
+      toast.error('Failed to save base currency');
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      const newRate = await exchangeRateService.create({
+        fromCurrency: rateForm.fromCurrency,
+        toCurrency: rateForm.toCurrency,
+        rate: rateForm.rate,
+        date: new Date(rateForm.date)
+      });
+      setRates(prev => [newRate, ...prev].sort((a, b) => b.date.getTime() - a.date.getTime()));
+      setRateForm({ ...rateForm, rate: 0 });
+      toastWithUndo('Exchange rate added');
+    } catch (error) {
+      console.error('Error adding exchange rate:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add exchange rate');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteRate = async (rateId: string) => {
+    if (!window.confirm('Are you sure you want to delete this exchange rate?')) {
+      return;
+    }
+
+    try {
+      await exchangeRateService.delete(rateId);
+      setRates(prev => prev.filter(r => r.id !== rateId));
+      toastWithUndo('Exchange rate deleted');
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error('Failed to delete exchange rate');
+    }
+  };
+
+  const handleAddMode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const mode = await paymentModeService.create(newModeName);
+      setPaymentModes(prev => [...prev, mode].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewModeName('');
+      toastWithUndo('Payment mode added');
+    } catch (error) {
+      console.error('Error adding payment mode:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add payment mode');
+    }
+  };
+
+  const handleRenameMode = async (mode: PaymentMode) => {
+    const name = window.prompt('Rename payment mode', mode.name);
+    if (!name || name.trim() === mode.name) return;
+
+    try {
+      await paymentModeService.rename(mode.id, name);
+      setPaymentModes(await paymentModeService.getAll());
+      toastWithUndo('Payment mode renamed');
+    } catch (error) {
+      console.error('Error renaming payment mode:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to rename payment mode');
+    }
+  };
+
+  const handleDeleteMode = async (mode: PaymentMode) => {
+    if (!window.confirm(`Delete the payment mode "${mode.name}"? Transactions using it are kept without a mode.`)) {
+      return;
+    }
+
+    try {
+      await paymentModeService.delete(mode.id);
+      setPaymentModes(prev => prev.filter(m => m.id !== mode.id));
+      toastWithUndo('Payment mode deleted');
+    } catch (error) {
+      console.error('Error deleting payment mode:', error);
+      toast.error('Failed to delete payment mode');
+    }
+  };
+
+  // The sidebar and dashboard show saved views too, so changes reload them
+  const handleTogglePin = async (view: SavedView) => {
+    try {
+      await savedViewService.update(view.id, { isPinned: !view.isPinned });
+      bumpDataVersion();
+      toastWithUndo(view.isPinned ? 'View unpinned' : 'View pinned to dashboard');
+    } catch (error) {
+      console.error('Error updating view:', error);
+      toast.error('Failed to update view');
+    }
+  };
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) {
+      return;
+    }
+
+    try {
+      await savedViewService.delete(view.id);
+      bumpDataVersion();
+      toastWithUndo('View deleted');
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      toast.error('Failed to delete view');
+    }
+  };
+
+  const handleExportViews = async () => {
+    try {
+      const content = await savedViewService.exportViews();
+      downloadFile(content, `cashlite-views-${new Date().toISOString().split('T')[0]}.json`, 'application/json');
+    } catch (error) {
+      console.error('Error exporting views:', error);
+      toast.error('Failed to export views');
+    }
+  };
+
+  const handleImportViews = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = await savedViewService.importViews(await readFileAsText(file));
+      bumpDataVersion();
+      toastWithUndo(`Imported ${count} view${count !== 1 ? 's' : ''}`);
+    } catch (error) {
+      console.error('Error importing views:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import views');
+    }
+  };
+
+  const handleDownloadBackup = async (backupId?: string) => {
+    try {
+      if (backupId) {
+        await backupService.downloadStoredBackup(backupId);
+      } else {
+        await backupService.downloadFullBackup();
+      }
+    } catch (error) {
+      console.error('Error downloading backup:', error);
+      toast.error('Failed to download backup');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+
+      {/* Your Name */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">Your Name</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Recorded with every change you make, so others sharing this cashbook can see who changed what.
+        </p>
+        <div className="flex space-x-3">
+          <input
+            type="text"
+            value={actorName}
+            onChange={(e) => setActorName(e.target.value)}
+            className="w-64 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+            placeholder="e.g. Rahim"
+          />
+          <button onClick={handleActorNameSave} className="btn btn-secondary">
+            Save
+          </button>
+        </div>
+      </div>
+
+      {/* Base Currency */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">Base Currency</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Segment totals are converted to this currency using the exchange rates below.
+        </p>
+        <select
+          value={baseCurrency}
+          onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+          className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          {currencyOptions.map(currency => (
+            <option key={currency} value={currency}>{currency}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Exchange Rates */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 mb-1">Exchange Rates</h2>
+          <p className="text-sm text-gray-500">
+            Each rate applies from its date until a newer one is entered for the same pair.
+          </p>
+        </div>
+
+        <form onSubmit={handleAddRate} className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">1 unit of</label>
+            <select
+              value={rateForm.fromCurrency}
+              onChange={(e) => setRateForm({ ...rateForm, fromCurrency: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {currencyOptions.map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Equals</label>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={rateForm.rate}
+              onChange={(e) => setRateForm({ ...rateForm, rate: parseFloat(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Of</label>
+            <select
+              value={rateForm.toCurrency}
+              onChange={(e) => setRateForm({ ...rateForm, toCurrency: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {currencyOptions.map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Effective</label>
+            <input
+              type="date"
+              value={rateForm.date}
+              onChange={(e) => setRateForm({ ...rateForm, date: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="btn btn-primary"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rate
+          </button>
+        </form>
+
+        {rates.length === 0 ? (
+          <div className="text-center py-8">
+            <Coins className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+            <p className="text-gray-500">No exchange rates entered yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Effective
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Rate
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rates.map(rate => (
+                  <tr key={rate.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(rate.date)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      1 {rate.fromCurrency} = {rate.rate} {rate.toCurrency}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => handleDeleteRate(rate.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Payment Modes */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 mb-1">Payment Modes</h2>
+          <p className="text-sm text-gray-500">
+            How money is paid or received, so cash can be reconciled separately from wallets and cards.
+          </p>
+        </div>
+
+        <form onSubmit={handleAddMode} className="flex space-x-2">
+          <input
+            type="text"
+            value={newModeName}
+            onChange={(e) => setNewModeName(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+            placeholder="Rocket, cheque..."
+            required
+          />
+          <button type="submit" className="btn btn-primary">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Mode
+          </button>
+        </form>
+
+        {paymentModes.length > 0 && (
+          <div className="space-y-2">
+            {paymentModes.map(mode => (
+              <div key={mode.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-900 font-medium">{mode.name}</span>
+                <div className="flex space-x-2 ml-4">
+                  <button
+                    onClick={() => handleRenameMode(mode)}
+                    className="text-blue-600 hover:text-blue-900"
+                    title="Rename"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteMode(mode)}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Saved Views */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Saved Views</h2>
+            <p className="text-sm text-gray-500">
+              Save a search from the Transactions page to list it here.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <label className="btn btn-secondary cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+              <input type="file" accept=".json,application/json" onChange={handleImportViews} className="hidden" />
+            </label>
+            {savedViews.length > 0 && (
+              <button onClick={handleExportViews} className="btn btn-secondary">
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </button>
+            )}
+          </div>
+        </div>
+
+        {savedViews.length > 0 && (
+          <div className="space-y-2">
+            {savedViews.map(view => (
+              <div key={view.id} className="flex items-center justify-between text-sm">
+                <div className="min-w-0">
+                  <div className="text-gray-900 font-medium">{view.name}</div>
+                  {view.query && <code className="text-xs text-gray-500">{view.query}</code>}
+                </div>
+                <div className="flex space-x-2 ml-4">
+                  <button
+                    onClick={() => handleTogglePin(view)}
+                    className="text-blue-600 hover:text-blue-900"
+                    title={view.isPinned ? 'Unpin from dashboard' : 'Pin to dashboard'}
+                  >
+                    {view.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteView(view)}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Data */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Data</h2>
+            <p className="text-sm text-gray-500">
+              Database version {backupService.getSchemaVersion()}
+            </p>
+          </div>
+          <button onClick={() => handleDownloadBackup()} className="btn btn-secondary">
+            <Download className="h-4 w-4 mr-2" />
+            Download backup
+          </button>
+        </div>
+
+        {backups.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Backups taken before upgrades</h3>
+            <div className="space-y-2">
+              {backups.map(backup => (
+                <div key={backup.id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">
+                    {formatDateTime(backup.createdAt)} • version {backup.schemaVersion}
+                    {backup.error && <span className="text-red-600"> • upgrade failed</span>}
+                  </span>
+                  <button
+                    onClick={() => handleDownloadBackup(backup.id)}
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    <Download className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {migrationLog.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Migration log</h3>
+            <div className="space-y-1">
+              {[...migrationLog].reverse().map(entry => (
+                <div key={`${entry.version}-${entry.appliedAt.getTime()}`} className="flex items-center text-xs text-gray-500">
+                  <Database className="h-3 w-3 mr-2 text-gray-400" />
+                  <span className="w-10">v{entry.version}</span>
+                  <span className="flex-1 text-gray-700">{entry.description}</span>
+                  <span>{formatDateTime(entry.appliedAt)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
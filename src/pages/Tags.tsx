@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { Edit, Trash2, Hash, GitMerge } from 'lucide-react';
+import { useStore } from '../store';
+import { TagService } from '../lib/services';
+import { TagSummary } from '../types';
+import { formatCurrency } from '../lib/utils';
+import { toastWithUndo } from '../components/Undo';
+import toast from 'react-hot-toast';
+
+const tagService = new TagService();
+
+export const Tags: React.FC = () => {
+  const { dataVersion } = useStore();
+  const [summaries, setSummaries] = useState<TagSummary[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadTags = async () => {
+    try {
+      setSummaries(await tagService.getSummaries());
+    } catch (error) {
+      console.error('Error loading tags:', error);
+      toast.error('Failed to load tags');
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await loadTags();
+      setSelectedTags([]);
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [dataVersion]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag]);
+  };
+
+  const handleRename = async (tag: string) => {
+    const name = window.prompt('Rename tag. Using the name of another tag merges the two.', tag);
+    if (!name || name.trim() === tag) return;
+
+    try {
+      await tagService.rename(tag, name);
+      await loadTags();
+      setSelectedTags([]);
+      toastWithUndo('Tag renamed');
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to rename tag');
+    }
+  };
+
+  // The most used of the selected tags is offered as the name to keep
+  const handleMerge = async () => {
+    const [mostUsed] = summaries
+      .filter(summary => selectedTags.includes(summary.tag))
+      .sort((a, b) => b.count - a.count);
+    const name = window.prompt(`Merge ${selectedTags.length} tags into`, mostUsed?.tag);
+    if (!name) return;
+
+    try {
+      await tagService.merge(selectedTags, name);
+      await loadTags();
+      setSelectedTags([]);
+      toastWithUndo('Tags merged');
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge tags');
+    }
+  };
+
+  const handleDelete = async (summary: TagSummary) => {
+    if (!window.confirm(`Remove #${summary.tag} from ${summary.count} transaction${summary.count === 1 ? '' : 's'}? The transactions are kept.`)) {
+      return;
+    }
+
+    try {
+      await tagService.delete(summary.tag);
+      await loadTags();
+      setSelectedTags(selectedTags.filter(t => t !== summary.tag));
+      toastWithUndo('Tag deleted');
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      toast.error('Failed to delete tag');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading tags...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Tags</h1>
+        <button
+          onClick={handleMerge}
+          disabled={selectedTags.length < 2}
+          className="btn btn-secondary"
+        >
+          <GitMerge className="h-4 w-4 mr-2" />
+          Merge Selected
+        </button>
+      </div>
+
+      {summaries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Hash className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500 mb-4">No tags yet</p>
+          <p className="text-gray-400 text-sm">
+            Tags added to transactions show up here
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3"></th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tag</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Transactions</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Income</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expense</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {summaries.map(summary => (
+                <tr key={summary.tag} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedTags.includes(summary.tag)}
+                      onChange={() => toggleTag(summary.tag)}
+                    />
+                  </td>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">#{summary.tag}</td>
+                  <td className="px-6 py-4 text-sm text-gray-700 text-right">{summary.count}</td>
+                  <td className="px-6 py-4 text-sm text-green-600 text-right whitespace-nowrap">
+                    {summary.totals.filter(total => total.income > 0).map(total => (
+                      <div key={total.currency}>{formatCurrency(total.income, total.currency)}</div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-red-600 text-right whitespace-nowrap">
+                    {summary.totals.filter(total => total.expense > 0).map(total => (
+                      <div key={total.currency}>{formatCurrency(total.expense, total.currency)}</div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => handleRename(summary.tag)}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Rename"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(summary)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,104 +1,343 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Filter, Search, Download, Upload } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Edit, Trash2, Filter, Repeat, RotateCcw, Link2, ArrowRightLeft, History, Bookmark, Paperclip } from 'lucide-react';
 import { useStore } from '../store';
-import { TransactionService, CategoryService } from '../lib/services';
-import { Transaction, FilterOptions } from '../types';
+import { TransactionService, CategoryService, BookService, SavedViewService, PaymentModeService } from '../lib/services';
+import { Transaction, TransactionCursor, FilterOptions, SavedView, PaymentMode } from '../types';
 import { formatCurrency, formatDate } from '../lib/utils';
 import { TransactionForm } from '../components/TransactionForm';
+import { TransactionHistory } from '../components/TransactionHistory';
+import { VirtualTableBody } from '../components/VirtualTableBody';
+import { QueryInput } from '../components/QueryInput';
+import { applyQuery, parseQuery } from '../lib/queryLanguage';
+import { toastWithUndo } from '../components/Undo';
+import { CategoryOptions } from '../components/CategoryOptions';
 import toast from 'react-hot-toast';
 
 const transactionService = new TransactionService();
 const categoryService = new CategoryService();
+const bookService = new BookService();
+const savedViewService = new SavedViewService();
+const paymentModeService = new PaymentModeService();
+
+interface ReverseTransactionDialogProps {
+  transaction: Transaction;
+  onClose: () => void;
+  onReversed: (reversal: Transaction) => void;
+}
+
+const ReverseTransactionDialog: React.FC<ReverseTransactionDialogProps> = ({ transaction, onClose, onReversed }) => {
+  const { books } = useStore();
+  const [targetBookId, setTargetBookId] = useState(transaction.bookId);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      const reversal = await transactionService.reverseTransaction(transaction.id, targetBookId);
+      toastWithUndo('Transaction reversed successfully');
+      onReversed(reversal);
+      onClose();
+    } catch (error) {
+      console.error('Error reversing transaction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reverse transaction');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const reversedType = transaction.type === 'income' ? 'expense' : 'income';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Reverse Transaction</h2>
+          <p className="text-sm text-gray-500 mb-6">
+            Records "{transaction.description}" again as {reversedType === 'income' ? 'an income' : 'an expense'}.
+            The original entry is kept and linked to the reversal.
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Target Book</label>
+              <select
+                value={targetBookId}
+                onChange={(e) => setTargetBookId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {books.map(book => (
+                  <option key={book.id} value={book.id}>
+                    {book.name}{book.id === transaction.bookId ? ' (same book)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Reversing...' : 'Reverse'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface SaveViewDialogProps {
+  query: string;
+  filter: FilterOptions;
+  onClose: () => void;
+  onSaved: (view: SavedView) => void;
+}
+
+const SaveViewDialog: React.FC<SaveViewDialogProps> = ({ query, filter, onClose, onSaved }) => {
+  const [name, setName] = useState('');
+  const [isPinned, setIsPinned] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      const view = await savedViewService.create({ name: name.trim(), query, filter, isPinned });
+      toastWithUndo('View saved');
+      onSaved(view);
+      onClose();
+    } catch (error) {
+      console.error('Error saving view:', error);
+      toast.error('Failed to save view');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Save View</h2>
+          <p className="text-sm text-gray-500 mb-6">
+            Keeps the current search and filters under a name in the sidebar.
+            {query && <> Relative terms like <code>this:month</code> stay relative.</>}
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="e.g. Large expenses this month"
+                required
+                autoFocus
+              />
+            </div>
+
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isPinned}
+                onChange={(e) => setIsPinned(e.target.checked)}
+                className="mr-2"
+              />
+              Pin to dashboard
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !name.trim()}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
 
 export const Transactions: React.FC = () => {
-  const { currentBook, categories, setCategories } = useStore();
+  const { currentBook, categories, setCategories, books, setBooks, dataVersion, bumpDataVersion } = useStore();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewId = searchParams.get('view');
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<TransactionCursor | undefined>();
+  const [total, setTotal] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [showForm, setShowForm] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | undefined>();
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchText, setSearchText] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [paymentModes, setPaymentModes] = useState<PaymentMode[]>([]);
   const [filter, setFilter] = useState<FilterOptions>({});
   const [showFilter, setShowFilter] = useState(false);
+  const [reversalLinks, setReversalLinks] = useState<Record<string, Transaction>>({});
+  const [reversingTransaction, setReversingTransaction] = useState<Transaction | undefined>();
+  const [historyTransaction, setHistoryTransaction] = useState<Transaction | undefined>();
+  const [showSaveView, setShowSaveView] = useState(false);
 
+  // Opening a saved view from the sidebar or dashboard fills in its search
+  // and filters, which can then be refined like any other
   useEffect(() => {
-    const loadData = async () => {
-      if (!currentBook) return;
+    if (!viewId) return;
 
+    const applyView = async () => {
       try {
-        setIsLoading(true);
-        const [transactionsData, categoriesData] = await Promise.all([
-          transactionService.getAll({ bookIds: [currentBook.id] }),
-          categoryService.getAll()
-        ]);
-        
-        setTransactions(transactionsData);
-        setFilteredTransactions(transactionsData);
-        setCategories(categoriesData);
+        const view = await savedViewService.getById(viewId);
+        if (!view) {
+          toast.error('Saved view not found');
+          return;
+        }
+        setSearchTerm(view.query);
+        setSearchText(view.query);
+        setFilter(view.filter);
+        setShowFilter(Object.keys(view.filter).length > 0);
       } catch (error) {
-        console.error('Error loading data:', error);
-        toast.error('Failed to load transactions');
-      } finally {
-        setIsLoading(false);
+        console.error('Error loading saved view:', error);
+        toast.error('Failed to load saved view');
       }
     };
 
-    loadData();
-  }, [currentBook, setCategories]);
+    applyView();
+  }, [viewId]);
 
+  // Each keystroke would otherwise start a new query
   useEffect(() => {
-    const applyFilters = () => {
-      let filtered = [...transactions];
-
-      // Apply search filter
-      if (searchTerm) {
-        const search = searchTerm.toLowerCase();
-        filtered = filtered.filter(t => 
-          t.description.toLowerCase().includes(search) ||
-          (t.notes && t.notes.toLowerCase().includes(search))
-        );
-      }
+    const timeout = setTimeout(() => setSearchText(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
-      // Apply additional filters
-      if (filter.type) {
-        filtered = filtered.filter(t => t.type === filter.type);
+  // Categories and tags also feed the search bar's suggestions
+  useEffect(() => {
+    const loadCategories = async () => {
+      try {
+        const [categoriesData, tagsData, paymentModesData] = await Promise.all([
+          categoryService.getAll(),
+          transactionService.getTags(),
+          paymentModeService.getAll()
+        ]);
+        setCategories(categoriesData);
+        setTags(tagsData);
+        setPaymentModes(paymentModesData);
+      } catch (error) {
+        console.error('Error loading categories:', error);
       }
+    };
 
-      if (filter.categoryIds && filter.categoryIds.length > 0) {
-        filtered = filtered.filter(t => t.categoryId && filter.categoryIds!.includes(t.categoryId));
-      }
+    loadCategories();
+  }, [setCategories, dataVersion]);
 
-      if (filter.dateFrom) {
-        filtered = filtered.filter(t => t.date >= filter.dateFrom!);
-      }
+  const parsedQuery = useMemo(() => parseQuery(searchText, {
+    categories,
+    books,
+    currency: currentBook?.currency || 'BDT'
+  }), [searchText, categories, books, currentBook]);
 
-      if (filter.dateTo) {
-        filtered = filtered.filter(t => t.date <= filter.dateTo!);
-      }
+  // The search bar can look in other books with book:, otherwise the list
+  // shows the current one
+  const getQuery = useCallback((): FilterOptions => {
+    return applyQuery(filter, parsedQuery.filter, currentBook ? [currentBook.id] : []);
+  }, [currentBook, filter, parsedQuery]);
 
-      if (filter.amountMin !== undefined) {
-        filtered = filtered.filter(t => t.amount >= filter.amountMin!);
-      }
+  // Pages are loaded as the list scrolls; reversal links only for the rows
+  // on each page
+  const loadPage = useCallback(async (cursor?: TransactionCursor) => {
+    const page = await transactionService.getPage(getQuery(), { cursor });
+    const links = await transactionService.getReversalLinks(page.transactions);
+    return { page, links };
+  }, [getQuery]);
+
+  useEffect(() => {
+    let isCurrent = true;
 
-      if (filter.amountMax !== undefined) {
-        filtered = filtered.filter(t => t.amount <= filter.amountMax!);
+    const loadData = async () => {
+      if (!currentBook) return;
+
+      try {
+        setIsLoading(true);
+        const { page, links } = await loadPage();
+        if (!isCurrent) return;
+
+        setTransactions(page.transactions);
+        setNextCursor(page.nextCursor);
+        setTotal(page.total ?? page.transactions.length);
+        setReversalLinks(links);
+      } catch (error) {
+        console.error('Error loading data:', error);
+        toast.error('Failed to load transactions');
+      } finally {
+        if (isCurrent) setIsLoading(false);
       }
+    };
 
-      setFilteredTransactions(filtered);
+    loadData();
+    return () => {
+      isCurrent = false;
     };
+  }, [currentBook, loadPage, dataVersion]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
 
-    applyFilters();
-  }, [transactions, searchTerm, filter]);
+    try {
+      setIsLoadingMore(true);
+      const { page, links } = await loadPage(nextCursor);
+      setTransactions(prev => [...prev, ...page.transactions]);
+      setNextCursor(page.nextCursor);
+      setReversalLinks(prev => ({ ...prev, ...links }));
+    } catch (error) {
+      console.error('Error loading more transactions:', error);
+      toast.error('Failed to load more transactions');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, loadPage]);
 
-  const handleDelete = async (transactionId: string) => {
-    if (!window.confirm('Are you sure you want to delete this transaction?')) {
+  const handleDelete = async (transaction: Transaction) => {
+    const message = transaction.transferId
+      ? 'This moves both sides of the transfer to the trash. Are you sure?'
+      : 'Move this transaction to the trash?';
+    if (!window.confirm(message)) {
       return;
     }
 
     try {
-      await transactionService.delete(transactionId);
-      setTransactions(prev => prev.filter(t => t.id !== transactionId));
-      toast.success('Transaction deleted successfully');
+      await transactionService.delete(transaction.id);
+      setTransactions(prev => prev.filter(t => t.id !== transaction.id));
+      setTotal(prev => prev - 1);
+      setBooks(await bookService.getAll());
+      toastWithUndo('Transaction moved to trash');
     } catch (error) {
       console.error('Error deleting transaction:', error);
       toast.error('Failed to delete transaction');
@@ -115,10 +354,37 @@ export const Transactions: React.FC = () => {
       setTransactions(prev => prev.map(t => t.id === transaction.id ? transaction : t));
     } else {
       setTransactions(prev => [transaction, ...prev]);
+      setTotal(prev => prev + 1);
     }
     setEditingTransaction(undefined);
   };
 
+  const handleReversed = async (reversal: Transaction) => {
+    if (reversal.bookId === currentBook?.id) {
+      setTransactions(prev => [reversal, ...prev]);
+      setTotal(prev => prev + 1);
+    } else {
+      setReversalLinks(prev => ({ ...prev, [reversal.originalTransactionId!]: reversal }));
+    }
+    setBooks(await bookService.getAll());
+  };
+
+  const handleReverted = async (transaction: Transaction) => {
+    // A revert can move the transaction back into another book
+    const updated = await transactionService.getById(transaction.id);
+    if (updated && updated.bookId === currentBook?.id) {
+      setTransactions(prev => prev.map(t => t.id === updated.id ? updated : t));
+    } else {
+      setTransactions(prev => prev.filter(t => t.id !== transaction.id));
+      setTotal(prev => prev - 1);
+    }
+    setBooks(await bookService.getAll());
+  };
+
+  const getBookName = (bookId: string) => {
+    return books.find(b => b.id === bookId)?.name || 'Deleted book';
+  };
+
   const handleCloseForm = () => {
     setShowForm(false);
     setEditingTransaction(undefined);
@@ -129,10 +395,19 @@ export const Transactions: React.FC = () => {
     return category?.name || 'Uncategorized';
   };
 
+  const hasFilters = Object.keys(filter).length > 0 || !!searchTerm;
+
   const clearFilters = () => {
     setFilter({});
     setSearchTerm('');
     setShowFilter(false);
+    setSearchParams({});
+  };
+
+  const handleViewSaved = (view: SavedView) => {
+    setSearchParams({ view: view.id });
+    // The sidebar and dashboard list saved views
+    bumpDataVersion();
   };
 
   if (!currentBook) {
@@ -167,32 +442,38 @@ export const Transactions: React.FC = () => {
 
       {/* Search and Filter Bar */}
       <div className="bg-white rounded-lg shadow p-4 space-y-4">
-        <div className="flex items-center space-x-4">
+        <div className="flex items-start space-x-4">
           <div className="flex-1">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-              <input
-                type="text"
-                placeholder="Search transactions..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10 pr-4 py-2 border border-gray-300 rounded-md w-full focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-              />
-            </div>
+            <QueryInput
+              value={searchTerm}
+              onChange={setSearchTerm}
+              errors={searchText === searchTerm ? parsedQuery.errors : []}
+              suggestionContext={{ categories, books, tags }}
+              placeholder="Search, or filter like amount>500 cat:food -tag:work last:30d"
+            />
           </div>
-          {(Object.keys(filter).length > 0 || searchTerm) && (
-            <button
-              onClick={clearFilters}
-              className="text-sm text-gray-500 hover:text-gray-700"
-            >
-              Clear filters
-            </button>
+          {hasFilters && (
+            <>
+              <button
+                onClick={() => setShowSaveView(true)}
+                className="py-2 text-sm text-gray-500 hover:text-gray-700 flex items-center"
+              >
+                <Bookmark className="h-4 w-4 mr-1" />
+                Save view
+              </button>
+              <button
+                onClick={clearFilters}
+                className="py-2 text-sm text-gray-500 hover:text-gray-700"
+              >
+                Clear filters
+              </button>
+            </>
           )}
         </div>
 
         {/* Advanced Filters */}
         {showFilter && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 pt-4 border-t">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 pt-4 border-t">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
               <select
@@ -217,8 +498,23 @@ export const Transactions: React.FC = () => {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
               >
                 <option value="">All</option>
-                {categories.map(category => (
-                  <option key={category.id} value={category.id}>{category.name}</option>
+                <CategoryOptions categories={categories} value={filter.categoryIds?.[0]} />
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Payment Mode</label>
+              <select
+                value={filter.paymentModeIds?.[0] || ''}
+                onChange={(e) => setFilter({
+                  ...filter,
+                  paymentModeIds: e.target.value ? [e.target.value] : undefined
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">All</option>
+                {paymentModes.map(mode => (
+                  <option key={mode.id} value={mode.id}>{mode.name}</option>
                 ))}
               </select>
             </div>
@@ -258,12 +554,12 @@ export const Transactions: React.FC = () => {
           <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
           <p className="mt-2 text-gray-500">Loading transactions...</p>
         </div>
-      ) : filteredTransactions.length === 0 ? (
+      ) : transactions.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg shadow">
           <p className="text-gray-500">
-            {transactions.length === 0 ? 'No transactions found' : 'No transactions match your filters'}
+            {hasFilters ? 'No transactions match your filters' : 'No transactions found'}
           </p>
-          {transactions.length === 0 && (
+          {!hasFilters && (
             <button
               onClick={() => setShowForm(true)}
               className="mt-4 btn btn-primary"
@@ -276,38 +572,74 @@ export const Transactions: React.FC = () => {
       ) : (
         <div className="bg-white rounded-lg shadow overflow-hidden">
           <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200">
+            <table className="min-w-full table-fixed divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="w-36 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Date
                   </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="w-80 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Description
                   </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="w-44 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Category
                   </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="w-40 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Amount
                   </th>
-                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="w-40 px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
                 </tr>
               </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {filteredTransactions.map((transaction) => (
-                  <tr key={transaction.id} className="hover:bg-gray-50">
+              <VirtualTableBody
+                items={transactions}
+                getKey={transaction => transaction.id}
+                colSpan={5}
+                onEndReached={loadMore}
+                renderRow={transaction => (
+                  <tr className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {formatDate(transaction.date)}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-900">
                       <div>
-                        <div className="font-medium">{transaction.description}</div>
+                        <div className="font-medium flex items-center">
+                          {transaction.description}
+                          {transaction.isRecurring && (
+                            <span title="Recurring">
+                              <Repeat className="h-3 w-3 ml-2 text-gray-400" />
+                            </span>
+                          )}
+                          {!!transaction.attachmentCount && (
+                            <span title={`${transaction.attachmentCount} attachment${transaction.attachmentCount === 1 ? '' : 's'}`}>
+                              <Paperclip className="h-3 w-3 ml-2 text-gray-400" />
+                            </span>
+                          )}
+                        </div>
                         {transaction.notes && (
                           <div className="text-gray-500 text-xs mt-1">{transaction.notes}</div>
                         )}
+                        {transaction.transferId && (
+                          <div className="inline-flex items-center mt-1 px-2 py-0.5 rounded-full text-xs bg-indigo-100 text-indigo-800">
+                            <ArrowRightLeft className="h-3 w-3 mr-1" />
+                            {transaction.type === 'expense' ? 'Transfer to' : 'Transfer from'} {getBookName(transaction.transferBookId!)}
+                          </div>
+                        )}
+                        {transaction.isReversed && (
+                          <div className="inline-flex items-center mt-1 px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800">
+                            <Link2 className="h-3 w-3 mr-1" />
+                            {reversalLinks[transaction.id]
+                              ? `Reversal of "${reversalLinks[transaction.id].description}" in ${getBookName(reversalLinks[transaction.id].bookId)}`
+                              : 'Reversal of a deleted transaction'}
+                          </div>
+                        )}
+                        {!transaction.isReversed && reversalLinks[transaction.id] && (
+                          <div className="inline-flex items-center mt-1 px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800">
+                            <Link2 className="h-3 w-3 mr-1" />
+                            Reversed in {getBookName(reversalLinks[transaction.id].bookId)} on {formatDate(reversalLinks[transaction.id].createdAt)}
+                          </div>
+                        )}
                         {transaction.tags.length > 0 && (
                           <div className="flex flex-wrap gap-1 mt-2">
                             {transaction.tags.map(tag => (
@@ -323,18 +655,43 @@ export const Transactions: React.FC = () => {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {getCategoryName(transaction.categoryId)}
+                      {transaction.splits && transaction.splits.length > 0 ? (
+                        <span title={transaction.splits.map(line => getCategoryName(line.categoryId)).join(', ')}>
+                          Split ({transaction.splits.length})
+                        </span>
+                      ) : getCategoryName(transaction.categoryId)}
+                      {transaction.paymentModeId && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {paymentModes.find(m => m.id === transaction.paymentModeId)?.name}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
                       <span className={`font-medium ${
                         transaction.type === 'income' ? 'text-green-600' : 'text-red-600'
                       }`}>
                         {transaction.type === 'income' ? '+' : '-'}
-                        {formatCurrency(transaction.amount, currentBook.currency)}
+                        {formatCurrency(transaction.amount, books.find(b => b.id === transaction.bookId)?.currency || currentBook.currency)}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex justify-end space-x-2">
+                        {!transaction.isReversed && !transaction.transferId && !reversalLinks[transaction.id] && (
+                          <button
+                            onClick={() => setReversingTransaction(transaction)}
+                            className="text-orange-600 hover:text-orange-900"
+                            title="Reverse"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setHistoryTransaction(transaction)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </button>
                         <button
                           onClick={() => handleEdit(transaction)}
                           className="text-blue-600 hover:text-blue-900"
@@ -342,7 +699,7 @@ export const Transactions: React.FC = () => {
                           <Edit className="h-4 w-4" />
                         </button>
                         <button
-                          onClick={() => handleDelete(transaction.id)}
+                          onClick={() => handleDelete(transaction)}
                           className="text-red-600 hover:text-red-900"
                         >
                           <Trash2 className="h-4 w-4" />
@@ -350,13 +707,47 @@ export const Transactions: React.FC = () => {
                       </div>
                     </td>
                   </tr>
-                ))}
-              </tbody>
+                )}
+              />
             </table>
           </div>
+          <div className="px-6 py-3 border-t text-sm text-gray-500 flex items-center justify-between">
+            <span>Showing {transactions.length} of {total}</span>
+            {isLoadingMore && (
+              <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+            )}
+          </div>
         </div>
       )}
 
+      {/* Reverse Transaction Modal */}
+      {reversingTransaction && (
+        <ReverseTransactionDialog
+          transaction={reversingTransaction}
+          onClose={() => setReversingTransaction(undefined)}
+          onReversed={handleReversed}
+        />
+      )}
+
+      {/* Transaction History Modal */}
+      {historyTransaction && (
+        <TransactionHistory
+          transaction={historyTransaction}
+          onClose={() => setHistoryTransaction(undefined)}
+          onReverted={() => handleReverted(historyTransaction)}
+        />
+      )}
+
+      {/* Save View Modal */}
+      {showSaveView && (
+        <SaveViewDialog
+          query={searchTerm}
+          filter={filter}
+          onClose={() => setShowSaveView(false)}
+          onSaved={handleViewSaved}
+        />
+      )}
+
       {/* Transaction Form Modal */}
       {showForm && (
         <TransactionForm
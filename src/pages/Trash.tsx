@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, RotateCcw } from 'lucide-react';
+import { useStore } from '../store';
+import { SettingsService, TrashService } from '../lib/services';
+import { TrashEntry, TrashItemType } from '../types';
+import { formatDateTime } from '../lib/utils';
+import { refreshData, toastWithUndo } from '../components/Undo';
+import toast from 'react-hot-toast';
+
+const settingsService = new SettingsService();
+const trashService = new TrashService();
+
+const itemTypeLabels: Record<TrashItemType, string> = {
+  book: 'Book',
+  segment: 'Segment',
+  category: 'Category',
+  transaction: 'Transaction'
+};
+
+const retentionOptions = [7, 30, 90, 365];
+
+export const Trash: React.FC = () => {
+  const { dataVersion } = useStore();
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = async () => {
+    try {
+      const entriesData = await trashService.getAll();
+      setEntries(entriesData);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      toast.error('Failed to load trash');
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      setRetentionDays(await settingsService.getTrashRetentionDays());
+      await loadEntries();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [dataVersion]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await trashService.restore(entry.id);
+      // Restoring can touch books, segments, categories and transactions at once
+      await refreshData();
+      toastWithUndo(`${itemTypeLabels[entry.itemType]} restored`);
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      toast.error('Failed to restore item');
+    }
+  };
+
+  const handlePurge = async (entry: TrashEntry) => {
+    if (!window.confirm(`Permanently delete "${entry.name}"? It will no longer be restorable from the trash.`)) {
+      return;
+    }
+
+    try {
+      await trashService.purge(entry.id);
+      await refreshData();
+      toast.success(`${itemTypeLabels[entry.itemType]} permanently deleted`);
+    } catch (error) {
+      console.error('Error deleting item:', error);
+      toast.error('Failed to delete item');
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!window.confirm('Permanently delete everything in the trash?')) {
+      return;
+    }
+
+    try {
+      await trashService.empty();
+      await refreshData();
+      toast.success('Trash emptied');
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      toast.error('Failed to empty trash');
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    try {
+      await settingsService.setTrashRetentionDays(days);
+      setRetentionDays(days);
+    } catch (error) {
+      console.error('Error saving retention period:', error);
+      toast.error('Failed to save retention period');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        <p className="mt-2 text-gray-500">Loading trash...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+        {entries.length > 0 && (
+          <button
+            onClick={handleEmpty}
+            className="btn btn-secondary"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Deleted items are kept for a while so they can be restored, then removed for good.
+        </p>
+        <select
+          value={retentionDays}
+          onChange={(e) => handleRetentionChange(parseInt(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          {retentionOptions.map(days => (
+            <option key={days} value={days}>Keep {days} days</option>
+          ))}
+        </select>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">The trash is empty</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Item
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Deleted
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <div className="font-medium">{entry.name}</div>
+                      {entry.itemCount > 1 && (
+                        <div className="text-gray-500 text-xs mt-1">
+                          {entry.itemType === 'book'
+                            ? `With ${entry.itemCount - 1} transaction${entry.itemCount !== 2 ? 's' : ''}`
+                            : `${entry.itemCount} entries`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {itemTypeLabels[entry.itemType]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDateTime(entry.deletedAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => handleRestore(entry)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title="Restore"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handlePurge(entry)}
+                          className="text-red-600 hover:text-red-900"
+                          title="Delete permanently"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Book, Segment, Transaction, Category, FilterOptions } from '../types';
+import { Book, Segment, Transaction, Category } from '../types';
 
 interface AppState {
   // Books
@@ -14,11 +14,14 @@ interface AppState {
   // Transactions
   transactions: Transaction[];
   filteredTransactions: Transaction[];
-  transactionFilter: FilterOptions;
   
   // Categories
   categories: Category[];
   
+  // Bumped whenever data changes outside the page showing it (undo, redo,
+  // trash), so pages holding their own copies know to reload
+  dataVersion: number;
+  
   // UI State
   isLoading: boolean;
   error: string | null;
@@ -39,7 +42,6 @@ interface AppState {
   
   setTransactions: (transactions: Transaction[]) => void;
   setFilteredTransactions: (transactions: Transaction[]) => void;
-  setTransactionFilter: (filter: FilterOptions) => void;
   addTransaction: (transaction: Transaction) => void;
   updateTransaction: (id: string, updates: Partial<Transaction>) => void;
   removeTransaction: (id: string) => void;
@@ -49,6 +51,8 @@ interface AppState {
   updateCategory: (id: string, updates: Partial<Category>) => void;
   removeCategory: (id: string) => void;
   
+  bumpDataVersion: () => void;
+  
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   setSidebarOpen: (open: boolean) => void;
@@ -56,7 +60,7 @@ interface AppState {
 
 export const useStore = create<AppState>()(
   persist(
-    (set, get) => ({
+    (set) => ({
       // Initial state
       books: [],
       currentBook: null,
@@ -64,8 +68,8 @@ export const useStore = create<AppState>()(
       currentSegment: null,
       transactions: [],
       filteredTransactions: [],
-      transactionFilter: {},
       categories: [],
+      dataVersion: 0,
       isLoading: false,
       error: null,
       sidebarOpen: false,
@@ -107,7 +111,6 @@ export const useStore = create<AppState>()(
       // Transaction actions
       setTransactions: (transactions) => set({ transactions }),
       setFilteredTransactions: (filteredTransactions) => set({ filteredTransactions }),
-      setTransactionFilter: (filter) => set({ transactionFilter: filter }),
       addTransaction: (transaction) => set((state) => ({
         transactions: [transaction, ...state.transactions]
       })),
@@ -132,6 +135,8 @@ export const useStore = create<AppState>()(
         categories: state.categories.filter(category => category.id !== id)
       })),
       
+      bumpDataVersion: () => set((state) => ({ dataVersion: state.dataVersion + 1 })),
+      
       // UI actions
       setLoading: (loading) => set({ isLoading: loading }),
       setError: (error) => set({ error }),
@@ -142,7 +147,6 @@ export const useStore = create<AppState>()(
       partialize: (state) => ({
         currentBook: state.currentBook,
         currentSegment: state.currentSegment,
-        transactionFilter: state.transactionFilter,
         sidebarOpen: state.sidebarOpen
       })
     }
@@ -0,0 +1,3 @@
+// IndexedDB for Dexie outside the browser. Each test file runs in its own
+// worker, so every file starts from an empty set of databases.
+import 'fake-indexeddb/auto';
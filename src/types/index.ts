@@ -9,7 +9,9 @@ export interface Book {
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
-  balance: number;
+  balance: number; // Minor units of the book's currency
+  deletedAt?: Date; // Set while the item is in the trash
+  trashId?: string; // Trash entry it was deleted under
 }
 
 export interface Segment {
@@ -21,17 +23,23 @@ export interface Segment {
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
-  totalBalance: number;
+  totalBalance: number; // Minor units of the base currency
+  deletedAt?: Date; // Set while the item is in the trash
+  trashId?: string; // Trash entry it was deleted under
 }
 
 export interface Transaction {
   id: string;
   bookId: string;
   type: 'income' | 'expense';
-  amount: number;
+  amount: number; // Integer minor units of the book's currency (see lib/money.ts)
   description: string;
   notes?: string;
-  categoryId?: string;
+  categoryId?: string; // Unset when the amount is split
+  splits?: TransactionSplit[]; // Category lines adding up to amount
+  splitCategoryIds?: string[]; // Categories of the split lines, for the index
+  partyId?: string; // Who the money was paid to or received from
+  paymentModeId?: string; // Cash, mobile wallet, card...
   date: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -40,6 +48,129 @@ export interface Transaction {
   tags: string[];
   originalTransactionId?: string;
   isReversed: boolean;
+  transferId?: string; // Shared by both legs of a transfer
+  transferBookId?: string; // Book on the other side of a transfer
+  deletedAt?: Date; // Set while the item is in the trash
+  trashId?: string; // Trash entry it was deleted under
+  searchWords?: string[]; // Normalized words for search, kept up to date by lib/search.ts
+  attachmentCount?: number; // Attachments stored for it, kept up to date by AttachmentService
+}
+
+// A receipt or document kept with a transaction (see lib/attachments.ts)
+export interface Attachment {
+  id: string;
+  transactionId: string;
+  name: string;
+  type: string; // MIME type
+  size: number; // Bytes
+  blob: Blob;
+  thumbnail?: Blob; // Small JPEG, for images only
+  createdAt: Date;
+}
+
+export interface TransactionSplit {
+  categoryId?: string;
+  amount: number; // Minor units, like Transaction.amount
+  notes?: string;
+}
+
+export interface TransferInput {
+  fromBookId: string;
+  toBookId: string;
+  amount: number; // Leaves the source book
+  receivedAmount?: number; // Arrives in the target book, when its currency differs
+  description: string;
+  notes?: string;
+  date: Date;
+  tags: string[];
+}
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  bookId: string;
+  type: 'income' | 'expense';
+  amount: number;
+  description: string;
+  notes?: string;
+  categoryId?: string;
+  partyId?: string;
+  paymentModeId?: string;
+  tags: string[];
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: Date;
+  endDate?: Date;
+  occurrenceIndex: number; // Next occurrence to generate, counted from startDate
+  nextDate: Date;
+  isPaused: boolean;
+  isActive: boolean; // False once the rule has run past its end date
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BudgetPeriod = 'weekly' | 'monthly' | 'custom';
+
+// A spending limit for one category, in one book or across the books of a
+// segment. Weekly and monthly budgets repeat from startDate; a custom one
+// covers startDate to endDate once.
+export interface Budget {
+  id: string;
+  categoryId: string;
+  bookId?: string;
+  segmentId?: string; // Set instead of bookId to count every book in the segment
+  currency: string; // The book's currency, or the base currency for segments
+  amount: number; // Limit per period, in minor units
+  period: BudgetPeriod;
+  startDate: Date;
+  endDate?: Date; // Custom periods only
+  rollover: boolean; // Unspent amounts carry into the next period
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  periodStart: Date;
+  periodEnd: Date; // Last day of the period
+  rolledOver: number; // Carried in from earlier periods
+  limit: number; // amount plus rolledOver
+  spent: number; // Expenses less refunds in the category
+  missingRates: string[]; // Currencies whose spending could not be converted
+}
+
+// Raised when saving a transaction takes a budget past a warning level
+export interface BudgetWarning {
+  status: BudgetStatus;
+  level: number; // Share of the limit reached, e.g. 0.8
+}
+
+// A savings target. Balances of the linked books count towards it, as do
+// expenses in the linked categories (money set aside from other books)
+// since startDate.
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number; // Minor units of currency
+  currency: string;
+  dueDate?: Date;
+  bookIds: string[];
+  categoryIds: string[];
+  startDate: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GoalStatus {
+  goal: SavingsGoal;
+  saved: number;
+  remaining: number;
+  monthlyRate: number; // Average monthly contribution over recent months
+  requiredMonthly?: number; // Needed each month to meet the due date
+  projectedDate?: Date; // When the goal is reached at the recent rate
+  milestones: number[]; // Shares of the target reached, e.g. [0.25, 0.5]
+  missingRates: string[]; // Currencies left out for want of a rate
 }
 
 export interface Category {
@@ -48,30 +179,224 @@ export interface Category {
   type: 'income' | 'expense' | 'both';
   color: string;
   icon: string;
+  parentId?: string; // Category this one is a subcategory of
   isDefault: boolean;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // Set while the item is in the trash
+  trashId?: string; // Trash entry it was deleted under
+}
+
+// How money moved (cash, bKash, card...), so the cash in hand can be
+// reconciled separately from wallet and bank statements
+export interface PaymentMode {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What still refers to a category; one in use cannot be deleted without
+// a replacement
+export interface CategoryUsage {
+  transactions: number;
+  budgets: number;
+  recurringRules: number;
+  goals: number;
+  categorizationRules: number;
+}
+
+// Income and expense of one payment mode; paymentModeId is undefined for
+// transactions recorded without one
+export interface PaymentModeTotal {
+  paymentModeId?: string;
+  income: number;
+  expense: number;
+}
+
+// A payee or payer, shared by all books
+export interface Party {
+  id: string;
+  name: string;
+  phone?: string;
+  notes?: string;
+  defaultCategoryId?: string; // Suggested for new transactions with this party
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Everything recorded with a party. The balance is what was paid to them
+// minus what was received from them, per currency: positive when they owe
+// the money back, negative when it is owed to them.
+export interface PartyLedger {
+  party: Party;
+  transactions: Transaction[];
+  balances: CurrencySubtotal[];
+}
+
+export type RuleField = 'description' | 'notes' | 'party' | 'amount';
+export type RuleOperator = 'contains' | 'equals' | 'startsWith' | 'atLeast' | 'atMost';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator; // atLeast and atMost are for amounts
+  value: string; // Text is matched ignoring case; amounts are decimals in the book's currency
+}
+
+// Fills in the category, tags and payment mode of transactions whose
+// description, notes, party or amount match every condition. Rules run in
+// priority order and the first one to set a field wins; tags add up.
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  conditions: RuleCondition[];
+  type?: 'income' | 'expense'; // Only transactions of this type match
+  categoryId?: string;
+  tags: string[];
+  paymentModeId?: string;
+  priority: number; // Lower runs first
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What the rules would set on a transaction
+export interface RuleSuggestion {
+  categoryId?: string;
+  tags: string[];
+  paymentModeId?: string;
+  ruleIds: string[];
+}
+
+// A change running the rules over an existing transaction would make
+export interface RuleChange {
+  transaction: Transaction;
+  categoryId?: string;
+  tags?: string[];
+  paymentModeId?: string;
+}
+
+export type TrashItemType = 'book' | 'segment' | 'category' | 'transaction';
+
+// One deletion as the user sees it. Everything removed along with the item
+// (a book's transactions, both legs of a transfer) carries the same trashId.
+export interface TrashEntry {
+  id: string;
+  itemType: TrashItemType;
+  itemId: string;
+  name: string;
+  itemCount: number;
+  deletedAt: Date;
 }
 
 export interface Settings {
   id: string;
   key: string;
-  value: any;
+  value: unknown; // Read through SettingsService.get with the type of the key
   updatedAt: Date;
 }
 
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number; // 1 unit of fromCurrency in toCurrency
+  date: Date; // Effective from this date until a newer rate is entered
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type HistoryAction = 'create' | 'update' | 'delete';
+
+// Append-only record of one change to one record. Moving to and restoring
+// from the trash show up as updates of deletedAt.
+export interface HistoryEntry<T = unknown> {
+  id: string;
+  table: string;
+  recordId: string;
+  action: HistoryAction;
+  before?: T; // Record before the change; absent for creates
+  after?: T; // Record after the change; absent for deletes
+  actor: string;
+  operationId: string; // Shared by every change made in one database transaction
+  sequence: number; // Order within the operation
+  createdAt: Date;
+}
+
+// How much one tag is used across all books. Totals are per currency and
+// leave out transfers.
+export interface TagSummary {
+  tag: string;
+  count: number;
+  totals: { currency: string; income: number; expense: number }[];
+}
+
+export interface CurrencySubtotal {
+  currency: string;
+  amount: number;
+  convertedAmount?: number; // In the base currency; undefined when no rate is known
+}
+
+export interface SegmentBalanceSummary {
+  baseCurrency: string;
+  total: number; // Sum of the converted subtotals
+  subtotals: CurrencySubtotal[];
+  missingRates: string[]; // Currencies left out of the total
+}
+
 export interface FilterOptions {
   bookIds?: string[];
   segmentIds?: string[];
   type?: 'income' | 'expense';
   dateFrom?: Date;
   dateTo?: Date;
-  amountMin?: number;
+  amountMin?: number; // Minor units, like Transaction.amount
   amountMax?: number;
   categoryIds?: string[];
+  paymentModeIds?: string[];
   searchText?: string;
   tags?: string[];
+  anyOf?: FilterOptions[][]; // Each group needs at least one of its filters to match
+  noneOf?: FilterOptions[]; // Rows matching any of these are left out
+}
+
+// Position after the last row of a page. Pages run newest first, with ties
+// on date broken by id; search results are ordered by relevance first.
+export interface TransactionCursor {
+  date: Date;
+  id: string;
+  score?: number; // Relevance of the row, when paging through search results
+}
+
+export interface PageOptions {
+  cursor?: TransactionCursor;
+  pageSize?: number;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor?: TransactionCursor; // Absent on the last page
+  total?: number; // Matching rows, only counted for the first page
+}
+
+// A named search stored in settings. The query keeps the search bar's text
+// rather than its parsed filter, so relative terms like this:month move
+// with the calendar.
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+  filter: FilterOptions; // Filter panel values
+  isPinned: boolean; // Shown on the dashboard
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SavedViewSummary {
+  count: number;
+  totals: CurrencySubtotal[]; // Income minus expense, per currency
 }
 
 export interface ImportResult {
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
@@ -49,6 +50,10 @@ export default defineConfig({
       '@': resolve(__dirname, './src'),
     },
   },
+  test: {
+    environment: 'node',
+    setupFiles: ['./src/test/setup.ts']
+  },
   build: {
     rollupOptions: {
       output: {